@@ -4,6 +4,8 @@ import debugLib from 'debug';
 
 import app from '../src/app';
 import { loggerService } from '../src/utils/logger';
+import { powerAppsOutboxService } from '../src/services/powerAppsOutboxService';
+import { overdueSweeperService } from '../src/services/overdueSweeperService';
 
 const debug = debugLib('moen-poc:test');
 
@@ -80,6 +82,11 @@ function onListening(): void {
   const addr = server.address();
   const bind = typeof addr === 'string' ? 'pipe ' + addr : 'port ' + addr?.port;
   debug('Listening on ' + bind);
+
+  // Deliver queued PowerApps events, including any left over from a previous run
+  powerAppsOutboxService.start();
+  // Lock overdue proofs PageProof never sent an overdue webhook for
+  overdueSweeperService.start();
 }
 
 // Add graceful shutdown for production
@@ -88,6 +95,8 @@ process.on('SIGINT', shutdown);
 
 function shutdown() {
   loggerService.logger.info('Received shutdown signal, closing server...');
+  powerAppsOutboxService.stop();
+  overdueSweeperService.stop();
   server.close(err => {
     if (err) {
       loggerService.logger.error('Error during server shutdown', { error: err });
@@ -7,7 +7,9 @@ async function build() {
     await esbuild.build({
       entryPoints: [
         'src/app.ts',
-        'bin/www.ts'
+        'bin/www.ts',
+        // Used by test-eventgrid-retries.js
+        'src/utils/eventGridTestUtils.ts'
       ],
       bundle: true,
       platform: 'node',
@@ -29,6 +31,7 @@ async function build() {
         'winston-daily-rotate-file',
         'axios',
         'zod',
+        'zod-to-json-schema',
         'busboy',
         'archiver',
         'yazl',
@@ -70,7 +73,8 @@ async function buildDev() {
   const context = await esbuild.context({
     entryPoints: [
       'src/app.ts',
-      'bin/www.ts'
+      'bin/www.ts',
+      'src/utils/eventGridTestUtils.ts'
     ],
     bundle: true,
     platform: 'node',
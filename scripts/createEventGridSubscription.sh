@@ -10,7 +10,8 @@ RESOURCE_GROUP="your-resource-group"
 LOCATION="eastus"
 TOPIC_NAME="your-event-grid-topic"
 SUBSCRIPTION_NAME="moen-api-events"
-WEBHOOK_ENDPOINT="https://your-api-domain.com/api/v1/eventgrid/webhook"
+# key must match EVENTGRID_SHARED_KEY on the API
+WEBHOOK_ENDPOINT="https://your-api-domain.com/api/v1/eventgrid/webhook?key=your-eventgrid-shared-key"
 DEAD_LETTER_ENDPOINT="https://your-storage-account.blob.core.windows.net/dead-letter-container"
 
 # Colors for output
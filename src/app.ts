@@ -51,17 +51,26 @@ if (config.security.helmetEnabled) {
 const corsOptions = {
   origin: config.security.corsOrigins,
   credentials: config.security.corsCredentials,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: [
     'Content-Type',
     'Authorization',
     'x-timestamp',
     'x-signature',
     'x-pageproof-signature',
+    'Prefer',
+    'Idempotency-Key',
   ],
+  exposedHeaders: ['Location', 'Idempotent-Replayed'],
   maxAge: 86400, // 24 hours
 };
-app.use(cors(corsOptions));
+const corsMiddleware = cors(corsOptions);
+// CloudEvents webhook validation is an OPTIONS request the Event Grid route answers itself
+app.use((req: Request, res: Response, next: NextFunction) =>
+  req.method === 'OPTIONS' && req.get('WebHook-Request-Origin')
+    ? next()
+    : corsMiddleware(req, res, next),
+);
 
 // Rate limiting removed for PowerApps integration
 // Enhanced rate limiting with different limits for different endpoints
@@ -190,11 +199,38 @@ app.use(compressionOptimizationMiddleware);
 import healthRoutes from './routes/v1/healthRoutes';
 import hmacRoutes from './routes/v1/hmacRoutes';
 import proofRoutes from './routes/v1/proofRoutes';
+import jobRoutes from './routes/v1/jobRoutes';
+import workflowTemplateRoutes from './routes/v1/workflowTemplateRoutes';
+import collectionRoutes from './routes/v1/collectionRoutes';
+import groupRuleRoutes from './routes/v1/groupRuleRoutes';
+import webhookEventRoutes from './routes/v1/webhookEventRoutes';
+import powerAppsRoutes from './routes/v1/powerAppsRoutes';
+import overdueSweeperRoutes from './routes/v1/overdueSweeperRoutes';
+import eventGridRoutes from './routes/v1/eventGridRoutes';
 import webhookRoutes, { rawBodySaver } from './routes/v1/webhookRoutes';
 
 app.use('/api/v1/health', healthRoutes);
 app.use('/api/v1/hmac', hmacRoutes);
 app.use('/api/v1/proofs', proofRoutes);
+app.use('/api/v1/jobs', jobRoutes);
+app.use('/api/v1/workflow-templates', workflowTemplateRoutes);
+app.use('/api/v1/collections', collectionRoutes);
+app.use('/api/v1/group-rules', groupRuleRoutes);
+app.use('/api/v1/webhook-events', webhookEventRoutes);
+app.use('/api/v1/powerapps', powerAppsRoutes);
+app.use('/api/v1/overdue-sweeper', overdueSweeperRoutes);
+app.use(
+  '/api/v1/eventgrid',
+  express.json({
+    limit: config.app.maxRequestBodySize,
+    type: [
+      'application/json',
+      'application/cloudevents+json',
+      'application/cloudevents-batch+json',
+    ],
+  }),
+  eventGridRoutes,
+);
 app.use(
   '/api/v1/webhook',
   express.json({ limit: config.app.maxRequestBodySize, verify: rawBodySaver }),
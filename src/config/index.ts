@@ -1,6 +1,8 @@
 import { z } from 'zod';
 import dotenv from 'dotenv';
 
+import { ProofActivityTypeSchema } from '../schema/zodSchemas';
+
 // Load environment variables
 dotenv.config();
 
@@ -56,11 +58,68 @@ const AzureConfigSchema = z.object({
   storageContainerName: z.string().optional(),
 });
 
+// Named PowerApps flow; unset delivery settings fall back to the top-level powerApps values
+const PowerAppsDestinationSchema = z.object({
+  name: z.string().trim().min(1),
+  url: z.string().url(),
+  timeout: z.number().int().positive().optional(),
+  retryAttempts: z.number().int().positive().optional(),
+  retryDelay: z.number().int().positive().optional(),
+  maxRetryDelay: z.number().int().positive().optional(),
+  authHeader: z
+    .object({
+      name: z.string().min(1).default('Authorization'),
+      value: z.string().min(1),
+    })
+    .optional(),
+});
+
 const PowerAppsConfigSchema = z.object({
   pageProofApprovedEndpoint: z.string().url().optional(),
   timeout: z.number().int().positive().default(30000),
-  retryAttempts: z.number().int().positive().default(3),
-  retryDelay: z.number().int().positive().default(1000),
+  retryAttempts: z.number().int().positive().default(8), // Delivery attempts before dead-lettering
+  retryDelay: z.number().int().positive().default(1000), // Base delay for exponential backoff
+  maxRetryDelay: z.number().int().positive().default(300000), // 5 minutes
+  dispatchInterval: z.number().int().positive().default(5000), // Outbox polling interval
+  destinations: z
+    .array(PowerAppsDestinationSchema)
+    .default([])
+    .refine(
+      destinations => new Set(destinations.map(d => d.name)).size === destinations.length,
+      { message: 'PowerApps destination names must be unique' },
+    ),
+});
+
+// Shared by every downstream dependency's circuit breaker
+const CircuitBreakerConfigSchema = z.object({
+  failureRateThreshold: z.number().min(0).max(1).default(0.5), // Share of failed calls that opens
+  minimumCalls: z.number().int().positive().default(5), // Calls in the window before it can open
+  windowMs: z.number().int().positive().default(60000), // 1 minute
+  coolDownMs: z.number().int().positive().default(30000), // Open time before a trial call
+  halfOpenMaxCalls: z.number().int().positive().default(1),
+});
+
+// Periodic scan that locks overdue proofs PageProof never sent an overdue webhook for
+const OverdueSweeperConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  interval: z.number().int().positive().default(900000), // 15 minutes
+  dryRun: z.boolean().default(false), // Report overdue proofs without locking or notifying
+});
+
+// Reminders sent before a proof's due date, checked during each overdue sweep
+const DueRemindersConfigSchema = z.object({
+  leadTimes: z.array(z.number().positive()).default([48, 24]), // Hours before the due date
+});
+
+// Proof activity webhooks forwarded to PowerApps; the others are only stored
+const PageProofEventsConfigSchema = z.object({
+  forward: z.array(ProofActivityTypeSchema).default(ProofActivityTypeSchema.options),
+});
+
+// Azure Event Grid receiver; the shared key is passed as ?key= in the subscription endpoint URL
+const EventGridConfigSchema = z.object({
+  sharedKey: z.string().optional(), // Required outside development and test
+  simulateFailures: z.boolean().default(false), // Start eventGridTestUtils enabled (tests, script)
 });
 
 const AppConfigSchema = z.object({
@@ -86,6 +145,11 @@ const ConfigSchema = z.object({
   monitoring: MonitoringConfigSchema,
   azure: AzureConfigSchema,
   powerApps: PowerAppsConfigSchema,
+  circuitBreaker: CircuitBreakerConfigSchema,
+  overdueSweeper: OverdueSweeperConfigSchema,
+  dueReminders: DueRemindersConfigSchema,
+  pageProofEvents: PageProofEventsConfigSchema,
+  eventGrid: EventGridConfigSchema,
 });
 
 // Configuration class with validation and type safety
@@ -168,8 +232,43 @@ class Config {
       powerApps: {
         pageProofApprovedEndpoint: process.env.POWERAPPS_PAGEPROOF_PAGEAPPROVED || undefined,
         timeout: parseInt(process.env.POWERAPPS_TIMEOUT || '30000', 10),
-        retryAttempts: parseInt(process.env.POWERAPPS_RETRY_ATTEMPTS || '3', 10),
+        retryAttempts: parseInt(process.env.POWERAPPS_RETRY_ATTEMPTS || '8', 10),
         retryDelay: parseInt(process.env.POWERAPPS_RETRY_DELAY || '1000', 10),
+        maxRetryDelay: parseInt(process.env.POWERAPPS_MAX_RETRY_DELAY || '300000', 10),
+        dispatchInterval: parseInt(process.env.POWERAPPS_DISPATCH_INTERVAL || '5000', 10),
+        destinations: this.parseJsonEnv(
+          'POWERAPPS_DESTINATIONS',
+          ['powerApps', 'destinations'],
+          [],
+        ),
+      },
+      circuitBreaker: {
+        failureRateThreshold: parseFloat(process.env.CIRCUIT_BREAKER_FAILURE_RATE || '0.5'),
+        minimumCalls: parseInt(process.env.CIRCUIT_BREAKER_MINIMUM_CALLS || '5', 10),
+        windowMs: parseInt(process.env.CIRCUIT_BREAKER_WINDOW_MS || '60000', 10),
+        coolDownMs: parseInt(process.env.CIRCUIT_BREAKER_COOL_DOWN_MS || '30000', 10),
+        halfOpenMaxCalls: parseInt(process.env.CIRCUIT_BREAKER_HALF_OPEN_MAX_CALLS || '1', 10),
+      },
+      overdueSweeper: {
+        enabled: process.env.OVERDUE_SWEEPER_ENABLED !== 'false',
+        interval: parseInt(process.env.OVERDUE_SWEEPER_INTERVAL || '900000', 10),
+        dryRun: process.env.OVERDUE_SWEEPER_DRY_RUN === 'true',
+      },
+      dueReminders: {
+        leadTimes: (process.env.DUE_REMINDER_LEAD_TIMES ?? '48,24')
+          .split(',')
+          .filter(value => value.trim())
+          .map(value => parseFloat(value)),
+      },
+      pageProofEvents: {
+        forward: (process.env.PAGEPROOF_FORWARD_EVENTS ?? ProofActivityTypeSchema.options.join(','))
+          .split(',')
+          .map(value => value.trim())
+          .filter(Boolean),
+      },
+      eventGrid: {
+        sharedKey: process.env.EVENTGRID_SHARED_KEY || undefined,
+        simulateFailures: process.env.EVENTGRID_SIMULATE_FAILURES === 'true',
       },
     };
 
@@ -178,6 +277,26 @@ class Config {
     return validatedConfig;
   }
 
+  /**
+   * Parses a JSON environment variable. Malformed JSON is reported as a validation error on
+   * the config path, like any other invalid setting.
+   */
+  private parseJsonEnv(name: string, path: (string | number)[], fallback: unknown): unknown {
+    const raw = process.env[name];
+    if (!raw) return fallback;
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      throw new z.ZodError([
+        {
+          code: z.ZodIssueCode.custom,
+          path,
+          message: `${name} is not valid JSON: ${(error as Error).message}`,
+        },
+      ]);
+    }
+  }
+
   // Getters for type-safe access
   get app() {
     return this.config.app;
@@ -197,6 +316,21 @@ class Config {
   get powerApps() {
     return this.config.powerApps;
   }
+  get circuitBreaker() {
+    return this.config.circuitBreaker;
+  }
+  get overdueSweeper() {
+    return this.config.overdueSweeper;
+  }
+  get dueReminders() {
+    return this.config.dueReminders;
+  }
+  get pageProofEvents() {
+    return this.config.pageProofEvents;
+  }
+  get eventGrid() {
+    return this.config.eventGrid;
+  }
 
   // Helper methods
   isDevelopment(): boolean {
@@ -221,6 +355,9 @@ class Config {
   }
 }
 
+export type PowerAppsDestinationConfig = z.infer<typeof PowerAppsDestinationSchema>;
+export type CircuitBreakerConfig = z.infer<typeof CircuitBreakerConfigSchema>;
+
 // Export singleton instance
 export const config = new Config();
 export default config;
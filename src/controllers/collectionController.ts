@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+
+import PageProofService from '../services/proofService';
+import { groupStatusService, ProofStatus } from '../services/groupStatusService';
+import { ErrorHandler } from '../utils/errorHandler';
+import { loggerService } from '../utils/logger';
+import {
+  GroupConditionSchema,
+  GroupIdSchema,
+  MoveProofsSchema,
+  RenameCollectionSchema,
+} from '../schema/zodSchemas';
+
+class CollectionController {
+  // #region Helpers
+
+  private handleError(res: Response, operation: string, err: unknown, groupId?: unknown) {
+    loggerService.logger.error(`CollectionController: ${operation} error`, {
+      error: (err as Error).message,
+      groupId,
+    });
+    return ErrorHandler.handleError(
+      res,
+      (err as any).statusCode || 400,
+      (err as Error).message,
+      err as Error,
+    );
+  }
+
+  // #endregion
+
+  // #region Collection Endpoints
+
+  /**
+   * Express endpoint listing the collections currently on the dashboard.
+   * @param req Express request
+   * @param res Express response
+   */
+  public listCollections = async (req: Request, res: Response) => {
+    try {
+      const collections = await PageProofService.listCollections();
+      return res.status(200).json({ statusCode: 200, success: true, collections });
+    } catch (err) {
+      return this.handleError(res, 'listCollections', err);
+    }
+  };
+
+  /**
+   * Express endpoint returning a collection with its proofs and aggregated status.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getCollection = async (req: Request, res: Response) => {
+    try {
+      const groupId = GroupIdSchema.parse(req.params.groupId);
+
+      const collection = await PageProofService.getCollection(groupId);
+      if (!collection) throw ErrorHandler.createError(404, 'Collection not found');
+
+      return res.status(200).json({ statusCode: 200, success: true, collection });
+    } catch (err) {
+      return this.handleError(res, 'getCollection', err, req.params.groupId);
+    }
+  };
+
+  /**
+   * Express endpoint previewing the group status evaluation the proof webhooks run,
+   * including the PowerApps event it would send. Nothing is sent.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getCollectionStatus = async (req: Request, res: Response) => {
+    try {
+      const groupId = GroupIdSchema.parse(req.params.groupId);
+      const condition = GroupConditionSchema.parse(req.query.condition);
+
+      const evaluation = await groupStatusService.getCollectionStatus(
+        groupId,
+        condition as ProofStatus | undefined,
+      );
+      if (!evaluation) throw ErrorHandler.createError(404, 'Collection not found');
+
+      return res.status(200).json({ statusCode: 200, success: true, ...evaluation });
+    } catch (err) {
+      return this.handleError(res, 'getCollectionStatus', err, req.params.groupId);
+    }
+  };
+
+  /**
+   * Express endpoint renaming a collection.
+   * @param req Express request
+   * @param res Express response
+   */
+  public renameCollection = async (req: Request, res: Response) => {
+    try {
+      const groupId = GroupIdSchema.parse(req.params.groupId);
+      const { name } = RenameCollectionSchema.parse(req.body);
+
+      const result = await PageProofService.renameCollection(groupId, name);
+      return res.status(200).json({
+        statusCode: 200,
+        success: true,
+        message: 'Collection renamed successfully',
+        collection: result,
+      });
+    } catch (err) {
+      return this.handleError(res, 'renameCollection', err, req.params.groupId);
+    }
+  };
+
+  /**
+   * Express endpoint moving proofs into another collection, or out of their collection
+   * when the target is null.
+   * @param req Express request
+   * @param res Express response
+   */
+  public moveProofs = async (req: Request, res: Response) => {
+    try {
+      const { proofIds, targetGroupId } = MoveProofsSchema.parse(req.body);
+
+      const results = await PageProofService.moveProofs(proofIds, targetGroupId);
+      const allSuccess = results.every(r => r.success);
+
+      return res.status(allSuccess ? 200 : 207).json({
+        statusCode: allSuccess ? 200 : 207,
+        success: allSuccess,
+        message: allSuccess ? 'Proofs moved successfully' : 'Partial success in moving proofs',
+        results,
+      });
+    } catch (err) {
+      return this.handleError(res, 'moveProofs', err, req.body?.targetGroupId);
+    }
+  };
+
+  // #endregion
+}
+
+export const collectionController = new CollectionController();
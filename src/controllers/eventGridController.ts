@@ -0,0 +1,119 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+import { Request, Response } from 'express';
+
+import { eventGridService } from '../services/eventGridService';
+import { ErrorHandler } from '../utils/errorHandler';
+import { loggerService } from '../utils/logger';
+import config from '../config';
+
+// Environments that accept deliveries while EVENTGRID_SHARED_KEY is unset
+const KEYLESS_ENVIRONMENTS = ['development', 'test'];
+
+class EventGridController {
+  // #region Helpers
+
+  // Unexpected errors default to 500 so Event Grid retries instead of dead-lettering
+  private handleError(res: Response, operation: string, err: unknown) {
+    loggerService.logger.error(`EventGridController: ${operation} error`, {
+      error: (err as Error).message,
+    });
+    return ErrorHandler.handleError(
+      res,
+      (err as any).statusCode || 500,
+      (err as Error).message,
+      err as Error,
+    );
+  }
+
+  /**
+   * Checks the ?key= query parameter of the subscription endpoint URL against
+   * EVENTGRID_SHARED_KEY. Without a configured key deliveries are only accepted in development
+   * and test; staging talks to real PageProof and needs the key like production.
+   * @throws 403, which Event Grid does not retry
+   */
+  private verifyKey(req: Request): void {
+    const { sharedKey } = config.eventGrid;
+    if (!sharedKey) {
+      if (KEYLESS_ENVIRONMENTS.includes(config.app.environment)) return;
+      throw ErrorHandler.createError(403, 'Event Grid shared key is not configured');
+    }
+
+    const key = typeof req.query.key === 'string' ? req.query.key : '';
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    if (!timingSafeEqual(digest(key), digest(sharedKey))) {
+      throw ErrorHandler.createError(403, 'Invalid Event Grid key', 'INVALID_EVENTGRID_KEY');
+    }
+  }
+
+  // #endregion
+
+  // #region Event Grid Endpoints
+
+  /**
+   * Express endpoint receiving Event Grid and CloudEvents deliveries. Answers the Event Grid
+   * subscription validation handshake; otherwise responds with the status that makes Event
+   * Grid consider the delivery done, retry it or dead-letter it.
+   * @param req Express request
+   * @param res Express response
+   */
+  public receive = async (req: Request, res: Response) => {
+    try {
+      this.verifyKey(req);
+
+      const delivery = await eventGridService.receive(req.body, req.headers);
+      if (delivery.validationResponse) {
+        return res.status(200).json({ validationResponse: delivery.validationResponse });
+      }
+      return res.status(delivery.statusCode).json({
+        statusCode: delivery.statusCode,
+        outcome: delivery.outcome,
+        events: delivery.events,
+      });
+    } catch (err) {
+      return this.handleError(res, 'receive', err);
+    }
+  };
+
+  /**
+   * Express endpoint for the CloudEvents webhook abuse protection handshake, an OPTIONS
+   * request carrying WebHook-Request-Origin that must be echoed in WebHook-Allowed-Origin.
+   * @param req Express request
+   * @param res Express response
+   */
+  public validateCloudEventsOrigin = async (req: Request, res: Response) => {
+    try {
+      this.verifyKey(req);
+
+      const origin = req.get('WebHook-Request-Origin');
+      if (!origin) {
+        throw ErrorHandler.createError(400, 'WebHook-Request-Origin header is required');
+      }
+      loggerService.logger.info('CloudEvents webhook validation received', { origin });
+      res.setHeader('WebHook-Allowed-Origin', origin);
+      res.setHeader('WebHook-Allowed-Rate', '*');
+      return res.status(200).end();
+    } catch (err) {
+      return this.handleError(res, 'validateCloudEventsOrigin', err);
+    }
+  };
+
+  /**
+   * Express endpoint returning delivery counters and the event type mapping.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getStatus = async (req: Request, res: Response) => {
+    try {
+      return res
+        .status(200)
+        .json({ statusCode: 200, success: true, ...eventGridService.getStatus() });
+    } catch (err) {
+      return this.handleError(res, 'getStatus', err);
+    }
+  };
+
+  // #endregion
+}
+
+export const eventGridController = new EventGridController();
@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+
+import { groupRuleService } from '../services/groupRuleService';
+import { ErrorHandler } from '../utils/errorHandler';
+import { loggerService } from '../utils/logger';
+import { GroupRulesSchema } from '../schema/zodSchemas';
+
+class GroupRuleController {
+  // #region Helpers
+
+  private handleError(res: Response, operation: string, err: unknown) {
+    loggerService.logger.error(`GroupRuleController: ${operation} error`, {
+      error: (err as Error).message,
+    });
+    return ErrorHandler.handleError(
+      res,
+      (err as any).statusCode || 400,
+      (err as Error).message,
+      err as Error,
+    );
+  }
+
+  // #endregion
+
+  // #region Rule Endpoints
+
+  /**
+   * Express endpoint returning the group rules in effect and whether they are the defaults.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getRules = async (req: Request, res: Response) => {
+    try {
+      const { rules, source } = await groupRuleService.getRules();
+      return res.status(200).json({ statusCode: 200, success: true, source, rules });
+    } catch (err) {
+      return this.handleError(res, 'getRules', err);
+    }
+  };
+
+  /**
+   * Express endpoint replacing the configured group rules.
+   * @param req Express request
+   * @param res Express response
+   */
+  public replaceRules = async (req: Request, res: Response) => {
+    try {
+      const rules = GroupRulesSchema.parse(req.body?.rules);
+
+      const saved = await groupRuleService.setRules(rules);
+      return res
+        .status(200)
+        .json({ statusCode: 200, success: true, source: 'configured', rules: saved });
+    } catch (err) {
+      return this.handleError(res, 'replaceRules', err);
+    }
+  };
+
+  /**
+   * Express endpoint dropping the configured group rules so the defaults apply again.
+   * @param req Express request
+   * @param res Express response
+   */
+  public resetRules = async (req: Request, res: Response) => {
+    try {
+      await groupRuleService.resetRules();
+      const { rules, source } = await groupRuleService.getRules();
+      return res.status(200).json({ statusCode: 200, success: true, source, rules });
+    } catch (err) {
+      return this.handleError(res, 'resetRules', err);
+    }
+  };
+
+  // #endregion
+}
+
+export const groupRuleController = new GroupRuleController();
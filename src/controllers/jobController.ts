@@ -0,0 +1,41 @@
+import { Request, Response } from 'express';
+
+import { jobService } from '../services/jobService';
+import { ErrorHandler } from '../utils/errorHandler';
+import { loggerService } from '../utils/logger';
+import { JobIdSchema } from '../schema/zodSchemas';
+
+class JobController {
+  // #region Job Status Endpoint
+
+  /**
+   * Express endpoint reporting the progress, per-step state and result of an async job.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getJob = async (req: Request, res: Response) => {
+    try {
+      const jobId = JobIdSchema.parse(req.params.jobId);
+
+      const job = await jobService.getJob(jobId);
+      if (!job) throw ErrorHandler.createError(404, 'Job not found');
+
+      return res.status(200).json({ statusCode: 200, success: true, job });
+    } catch (err) {
+      loggerService.logger.error('JobController: getJob error', {
+        error: (err as Error).message,
+        jobId: req.params.jobId,
+      });
+      return ErrorHandler.handleError(
+        res,
+        (err as any).statusCode || 400,
+        err.message,
+        err as Error,
+      );
+    }
+  };
+
+  // #endregion
+}
+
+export const jobController = new JobController();
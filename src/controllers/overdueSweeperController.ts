@@ -0,0 +1,61 @@
+import { Request, Response } from 'express';
+
+import { overdueSweeperService } from '../services/overdueSweeperService';
+import { ErrorHandler } from '../utils/errorHandler';
+import { loggerService } from '../utils/logger';
+import { OverdueSweepRequestSchema } from '../schema/zodSchemas';
+
+class OverdueSweeperController {
+  // #region Helpers
+
+  private handleError(res: Response, operation: string, err: unknown) {
+    loggerService.logger.error(`OverdueSweeperController: ${operation} error`, {
+      error: (err as Error).message,
+    });
+    return ErrorHandler.handleError(
+      res,
+      (err as any).statusCode || 400,
+      (err as Error).message,
+      err as Error,
+    );
+  }
+
+  // #endregion
+
+  // #region Sweeper Endpoints
+
+  /**
+   * Express endpoint returning the sweeper's schedule, mode and last run.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getStatus = async (req: Request, res: Response) => {
+    try {
+      return res
+        .status(200)
+        .json({ statusCode: 200, success: true, ...overdueSweeperService.getStatus() });
+    } catch (err) {
+      return this.handleError(res, 'getStatus', err);
+    }
+  };
+
+  /**
+   * Express endpoint running a sweep now. Responds 409 while another sweep is running.
+   * @param req Express request
+   * @param res Express response
+   */
+  public runSweep = async (req: Request, res: Response) => {
+    try {
+      const { dryRun } = OverdueSweepRequestSchema.parse(req.body ?? {});
+
+      const summary = await overdueSweeperService.sweep(dryRun);
+      return res.status(200).json({ statusCode: 200, success: true, summary });
+    } catch (err) {
+      return this.handleError(res, 'runSweep', err);
+    }
+  };
+
+  // #endregion
+}
+
+export const overdueSweeperController = new OverdueSweeperController();
@@ -0,0 +1,209 @@
+import { Request, Response } from 'express';
+
+import { powerAppsOutboxService } from '../services/powerAppsOutboxService';
+import { powerAppsRoutingService } from '../services/powerAppsRoutingService';
+import { PowerAppsService } from '../services/powerAppsService';
+import { ErrorHandler } from '../utils/errorHandler';
+import { loggerService } from '../utils/logger';
+import { OutboxMessageIdSchema, PowerAppsRoutesSchema } from '../schema/zodSchemas';
+
+class PowerAppsController {
+  // #region Helpers
+
+  private handleError(res: Response, operation: string, err: unknown, messageId?: unknown) {
+    loggerService.logger.error(`PowerAppsController: ${operation} error`, {
+      error: (err as Error).message,
+      messageId,
+    });
+    return ErrorHandler.handleError(
+      res,
+      (err as any).statusCode || 400,
+      (err as Error).message,
+      err as Error,
+    );
+  }
+
+  // #endregion
+
+  // #region Outbox Endpoints
+
+  /**
+   * Express endpoint listing PowerApps events still waiting for delivery, oldest first.
+   * @param req Express request
+   * @param res Express response
+   */
+  public listOutbox = async (req: Request, res: Response) => {
+    try {
+      const messages = await powerAppsOutboxService.listPending();
+      return res
+        .status(200)
+        .json({ statusCode: 200, success: true, count: messages.length, messages });
+    } catch (err) {
+      return this.handleError(res, 'listOutbox', err);
+    }
+  };
+
+  // #endregion
+
+  // #region Dead Letter Endpoints
+
+  /**
+   * Express endpoint listing PowerApps events that could not be delivered, newest first.
+   * @param req Express request
+   * @param res Express response
+   */
+  public listDeadLetters = async (req: Request, res: Response) => {
+    try {
+      const messages = await powerAppsOutboxService.listDeadLetters();
+      return res
+        .status(200)
+        .json({ statusCode: 200, success: true, count: messages.length, messages });
+    } catch (err) {
+      return this.handleError(res, 'listDeadLetters', err);
+    }
+  };
+
+  /**
+   * Express endpoint returning a single dead letter with its payload and last error.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getDeadLetter = async (req: Request, res: Response) => {
+    try {
+      const messageId = OutboxMessageIdSchema.parse(req.params.messageId);
+
+      const message = await powerAppsOutboxService.getDeadLetter(messageId);
+      if (!message) throw ErrorHandler.createError(404, `Dead letter ${messageId} not found`);
+
+      return res.status(200).json({ statusCode: 200, success: true, message });
+    } catch (err) {
+      return this.handleError(res, 'getDeadLetter', err, req.params.messageId);
+    }
+  };
+
+  /**
+   * Express endpoint moving a dead letter back into the outbox for another round of delivery.
+   * @param req Express request
+   * @param res Express response
+   */
+  public retryDeadLetter = async (req: Request, res: Response) => {
+    try {
+      const messageId = OutboxMessageIdSchema.parse(req.params.messageId);
+
+      const message = await powerAppsOutboxService.retryDeadLetter(messageId);
+      return res.status(200).json({ statusCode: 200, success: true, message });
+    } catch (err) {
+      return this.handleError(res, 'retryDeadLetter', err, req.params.messageId);
+    }
+  };
+
+  /**
+   * Express endpoint discarding a dead letter for good.
+   * @param req Express request
+   * @param res Express response
+   */
+  public discardDeadLetter = async (req: Request, res: Response) => {
+    try {
+      const messageId = OutboxMessageIdSchema.parse(req.params.messageId);
+
+      const deleted = await powerAppsOutboxService.discardDeadLetter(messageId);
+      if (!deleted) throw ErrorHandler.createError(404, `Dead letter ${messageId} not found`);
+
+      return res.status(200).json({ statusCode: 200, success: true, messageId });
+    } catch (err) {
+      return this.handleError(res, 'discardDeadLetter', err, req.params.messageId);
+    }
+  };
+
+  // #endregion
+
+  // #region Event Contract Endpoints
+
+  /**
+   * Express endpoint returning the JSON Schema document of the PowerApps event contract.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getEventSchema = async (req: Request, res: Response) => {
+    try {
+      return res.status(200).json(PowerAppsService.getEventJsonSchema());
+    } catch (err) {
+      return this.handleError(res, 'getEventSchema', err);
+    }
+  };
+
+  // #endregion
+
+  // #region Routing Endpoints
+
+  /**
+   * Express endpoint listing the configured destinations. Auth header values are withheld.
+   * @param req Express request
+   * @param res Express response
+   */
+  public listDestinations = async (req: Request, res: Response) => {
+    try {
+      const destinations = powerAppsRoutingService
+        .getDestinations()
+        .map(({ authHeader, ...destination }) => ({
+          ...destination,
+          authHeader: authHeader ? authHeader.name : null,
+        }));
+      return res.status(200).json({ statusCode: 200, success: true, destinations });
+    } catch (err) {
+      return this.handleError(res, 'listDestinations', err);
+    }
+  };
+
+  /**
+   * Express endpoint returning the routes in effect and whether they are the defaults.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getRoutes = async (req: Request, res: Response) => {
+    try {
+      const { routes, source } = await powerAppsRoutingService.getRoutes();
+      return res.status(200).json({ statusCode: 200, success: true, source, routes });
+    } catch (err) {
+      return this.handleError(res, 'getRoutes', err);
+    }
+  };
+
+  /**
+   * Express endpoint replacing the configured routes.
+   * @param req Express request
+   * @param res Express response
+   */
+  public replaceRoutes = async (req: Request, res: Response) => {
+    try {
+      const routes = PowerAppsRoutesSchema.parse(req.body?.routes);
+
+      const saved = await powerAppsRoutingService.setRoutes(routes);
+      return res
+        .status(200)
+        .json({ statusCode: 200, success: true, source: 'configured', routes: saved });
+    } catch (err) {
+      return this.handleError(res, 'replaceRoutes', err);
+    }
+  };
+
+  /**
+   * Express endpoint dropping the configured routes so every event goes to the default
+   * destination again.
+   * @param req Express request
+   * @param res Express response
+   */
+  public resetRoutes = async (req: Request, res: Response) => {
+    try {
+      await powerAppsRoutingService.resetRoutes();
+      const { routes, source } = await powerAppsRoutingService.getRoutes();
+      return res.status(200).json({ statusCode: 200, success: true, source, routes });
+    } catch (err) {
+      return this.handleError(res, 'resetRoutes', err);
+    }
+  };
+
+  // #endregion
+}
+
+export const powerAppsController = new PowerAppsController();
@@ -2,7 +2,12 @@ import { Request, Response } from 'express';
 import { z } from 'zod';
 
 import { FileInfo } from '../middlewares/busboyMiddleware'; // Import FileInfo interface
-import PageProofService from '../services/proofService';
+import PageProofService, { ProofFeedback } from '../services/proofService';
+import { jobService, JobStepName, StepTracker, untracked } from '../services/jobService';
+import { workflowTemplateService } from '../services/workflowTemplateService';
+import { ProofStatus } from '../services/groupStatusService';
+import { proofStateService, ProofState, TransitionContext } from '../services/proofStateService';
+import { webhookGuardService } from '../services/webhookGuardService';
 import { Helper } from '../utils/helper';
 import { ErrorHandler } from '../utils/errorHandler';
 import { loggerService } from '../utils/logger';
@@ -10,16 +15,31 @@ import {
   MetadataSchema,
   FileUpload,
   ProofIdsSchema,
+  ProofIdsQuerySchema,
+  ExportFormatSchema,
   OwnerEmailSchema,
   ProofIdSchema,
   WorkflowSchema,
   ArchiveProofSchema,
+  ForceFlagSchema,
+  ReplaceApproverSchema,
+  UpdateMetadataSchema,
+  TriggerEmailSchema,
 } from '../schema/zodSchemas';
 
 class ProofController {
   // #region Class Constants
   private readonly BATCH_SIZE = Number(process.env.UPLOAD_BATCH_SIZE || 10);
   private readonly MAX_FILE_SIZE_MB = Number(process.env.MAX_FILE_SIZE_MB || 50);
+  private readonly CREATE_PROOF_STEPS: JobStepName[] = [
+    'upload',
+    'collection',
+    'workflow',
+    'proofCreation',
+    'owners',
+    'message',
+  ];
+  private readonly UPDATE_PROOF_STEPS: JobStepName[] = ['upload', 'workflow', 'proofCreation'];
   // #endregion
 
   // #region Helpers
@@ -77,6 +97,7 @@ class ProofController {
     fileUploads: { fileId: string; fileNames: string[] }[],
     metadata: z.infer<typeof MetadataSchema>,
     fileData: FileUpload[],
+    track: StepTracker = untracked,
   ): Promise<{ proof: any; fileNames: string[] }[]> {
     const proofs: { proof: any; fileNames: string[] }[] = [];
 
@@ -101,11 +122,14 @@ class ProofController {
 
           loggerService.logger.info('Creating proof', { proofName: uniqueProofName, fileId });
 
-          return PageProofService.createProofs({
-            ...metadata,
-            proofName: uniqueProofName,
-            fileIds: [{ fileId, fileNames }],
-          });
+          return PageProofService.createProofs(
+            {
+              ...metadata,
+              proofName: uniqueProofName,
+              fileIds: [{ fileId, fileNames }],
+            },
+            track,
+          );
         }),
       );
 
@@ -116,6 +140,250 @@ class ProofController {
     return proofs;
   }
 
+  // Uploads files and creates the proofs, reporting each step through the tracker
+  private async executeCreateProof(
+    metadata: z.infer<typeof MetadataSchema>,
+    fileData: FileUpload[],
+    isIndividual: boolean,
+    track: StepTracker = untracked,
+  ): Promise<any[]> {
+    const collectionName = metadata.collectionName || 'DEFAULT_COLLECTION_NAME';
+
+    await track('collection', () => PageProofService.ensureCollectionExists(collectionName));
+
+    const fileUploads = await track('upload', () =>
+      PageProofService.uploadFiles(fileData, isIndividual),
+    );
+    if (!fileUploads?.length) throw ErrorHandler.createError(500, 'File upload failed');
+
+    metadata.dueDate =
+      metadata.dueDate ?? new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+
+    const proofs = await this.batchCreateProofs(fileUploads, metadata, fileData, track);
+    if (!proofs.length) throw ErrorHandler.createError(500, 'Proof creation failed');
+
+    // Create final response using Promise.allSettled for robustness
+    const proofResponseSettled = await Promise.allSettled(
+      proofs.map(async ({ proof, fileNames }, i) => {
+        try {
+          if (!proof?.id) {
+            loggerService.logger.error('Invalid proof object', { index: i });
+            return {
+              proofId: null,
+              proofName: proof?.name || 'Unknown',
+              fileNames,
+              error: 'Invalid proof object',
+            };
+          }
+
+          const fileName = fileNames[0] || 'Unknown';
+          const shareLink = Helper.generateProofUrl(proof.id, fileName);
+          // Only set message for 'markups' documentType
+          let message: string | undefined;
+          if (metadata.documentType === 'markups') {
+            message = metadata.messageToReviewers
+              ? `${metadata.messageToReviewers}\nAccess the proof here: ${shareLink}`
+              : `Access the proof here: ${shareLink}`;
+          }
+
+          return {
+            proofId: proof.id,
+            proofName: proof.name,
+            fileNames,
+            shareLink,
+            isZipped: fileNames.length > 1 || fileName.endsWith('.zip'),
+            message,
+          };
+        } catch (err) {
+          loggerService.logger.error('Error generating share link', {
+            proofId: proof?.id || 'unknown',
+            error: (err as Error).message,
+            index: i,
+          });
+          return {
+            proofId: proof?.id || null,
+            proofName: proof?.name || 'Unknown',
+            fileNames,
+            error: `Link/message error: ${(err as Error).message}`,
+          };
+        }
+      }),
+    );
+
+    // Parallelize setMessageToReviewers only for proofs with a message (i.e., markups)
+    await Promise.all(
+      proofResponseSettled
+        .filter((r): r is PromiseFulfilledResult<any> => r.status === 'fulfilled')
+        .map(r => r.value)
+        .filter(r => r?.proofId && r?.message) // Only process proofs with a message
+        .map(r =>
+          track('message', () => PageProofService.setMessageToReviewers(r.proofId, r.message)),
+        ),
+    );
+
+    return proofResponseSettled
+      .filter((r): r is PromiseFulfilledResult<any> => r.status === 'fulfilled')
+      .map(r => {
+        const { message, ...rest } = r.value;
+        return rest;
+      });
+  }
+
+  // Uploads files and creates the new proof version(s), reporting each step through the tracker
+  private async executeUpdateProof(
+    proofId: string,
+    metadata: any,
+    fileData: FileUpload[],
+    track: StepTracker = untracked,
+  ): Promise<any[]> {
+    const fileUploads = await track('upload', () => PageProofService.uploadFiles(fileData));
+    if (!fileUploads.length) throw ErrorHandler.createError(500, 'File upload failed');
+    loggerService.logger.info('ProofController: updateProof fileUploads', { fileUploads });
+
+    const proofData = {
+      name: metadata.name,
+      groupId: metadata.groupId,
+      tags: metadata.tags,
+      messageToReviewers: metadata.messageToReviewers,
+      dueDate: new Date(metadata.dueDate).toISOString().split('T')[0],
+      fileIds: fileUploads.map(({ fileId, fileNames }) => ({
+        fileId,
+        fileNames: fileNames ?? ['Unknown'],
+      })),
+      workflowId: metadata.workflowId,
+    };
+
+    loggerService.logger.info('ProofController: updateProof data', { proofData });
+
+    const updatedProofs = await PageProofService.updateProofVersion(proofId, proofData, track);
+
+    if (!updatedProofs.length) throw ErrorHandler.createError(500, 'No new versions created');
+
+    return updatedProofs.map((p, i) => ({
+      proofId: p.id,
+      shareLink: Helper.generateProofUrl(p.id, fileUploads[i]?.fileNames?.[0] ?? 'Unknown'),
+      fileNames: fileUploads[i]?.fileNames ?? ['Unknown'],
+      isZipped:
+        (fileUploads[i]?.fileNames?.length ?? 0) > 1 ||
+        fileUploads[i]?.fileNames?.[0]?.endsWith('.zip') ||
+        false,
+    }));
+  }
+
+  // Async mode is opt-in via ?async=true or a `Prefer: respond-async` header
+  private isAsyncRequest(req: Request): boolean {
+    return req.query.async === 'true' || /respond-async/i.test(req.get('Prefer') ?? '');
+  }
+
+  // Starts the work as a background job and answers 202 with where to poll for it
+  private async acceptJob(
+    res: Response,
+    type: string,
+    steps: JobStepName[],
+    work: (track: StepTracker) => Promise<unknown>,
+  ) {
+    const job = await jobService.createJob(type, steps);
+    void jobService.run(job.id, work);
+
+    const statusUrl = `/api/v1/jobs/${job.id}`;
+    loggerService.logger.info('Job accepted', { jobId: job.id, type });
+    return res.status(202).location(statusUrl).json({
+      statusCode: 202,
+      success: true,
+      message: 'Request accepted for processing.',
+      jobId: job.id,
+      statusUrl,
+    });
+  }
+
+  // Flattens decisions, comment threads and replies into CSV rows
+  private feedbackToCsv(feedback: ProofFeedback[]): string {
+    const columns = [
+      'proofId',
+      'proofName',
+      'type',
+      'threadId',
+      'commentId',
+      'authorEmail',
+      'authorName',
+      'pageNumber',
+      'timecode',
+      'status',
+      'createdDate',
+      'text',
+    ];
+
+    const rows: Record<string, unknown>[] = [];
+    for (const { proofId, proofName, decisions, threads } of feedback) {
+      for (const decision of decisions) {
+        rows.push({
+          proofId,
+          proofName,
+          type: 'decision',
+          authorEmail: decision.email,
+          authorName: decision.name,
+          status: decision.decision,
+        });
+      }
+      for (const thread of threads) {
+        for (const comment of [thread, ...thread.replies]) {
+          rows.push({
+            proofId,
+            proofName,
+            type: comment === thread ? 'comment' : 'reply',
+            threadId: thread.commentId,
+            commentId: comment.commentId,
+            authorEmail: comment.author.email,
+            authorName: comment.author.name,
+            pageNumber: comment.pageNumber,
+            timecode: comment.timecode,
+            status: comment.status,
+            createdDate: comment.createdDate,
+            text: comment.text,
+          });
+        }
+      }
+    }
+
+    return Helper.toCsv(columns, rows);
+  }
+
+  private sendFeedback(
+    res: Response,
+    format: 'json' | 'csv',
+    fileName: string,
+    feedback: ProofFeedback[],
+    extra: Record<string, unknown> = {},
+  ) {
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+      return res.status(200).send(this.feedbackToCsv(feedback));
+    }
+
+    return res.status(200).json({ statusCode: 200, success: true, ...extra, feedback });
+  }
+
+  // Source and trigger email stored with the state transitions of a proof action
+  private transitionContext(req: Request, reason: string): TransitionContext {
+    return { source: 'api', triggerEmail: TriggerEmailSchema.parse(req.body.triggerEmail), reason };
+  }
+
+  // Splits proofs into those allowed to move to a state and failed results for the rest
+  private async checkTransitions(proofIds: string[], state: ProofState) {
+    const allowed: string[] = [];
+    const rejected: { proofId: string; success: false; error: string }[] = [];
+    for (const proofId of proofIds) {
+      try {
+        await proofStateService.assertTransition(proofId, state);
+        allowed.push(proofId);
+      } catch (err) {
+        rejected.push({ proofId, success: false, error: (err as Error).message });
+      }
+    }
+    return { allowed, rejected };
+  }
+
   // #endregion
 
   // #region Create Proof Endpoint
@@ -149,82 +417,25 @@ class ProofController {
       const metadata = this.parseMetadata(req.body);
       const fileData = this.validateFiles(files);
       const isIndividual = req.body.isIndividual;
-      const collectionName = metadata.collectionName || 'DEFAULT_COLLECTION_NAME';
-
-      await PageProofService.ensureCollectionExists(collectionName);
-
-      const fileUploads = await PageProofService.uploadFiles(fileData, isIndividual);
-      if (!fileUploads?.length) throw ErrorHandler.createError(500, 'File upload failed');
 
-      metadata.dueDate =
-        metadata.dueDate ?? new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
-
-      const proofs = await this.batchCreateProofs(fileUploads, metadata, fileData);
-      if (!proofs.length) throw ErrorHandler.createError(500, 'Proof creation failed');
-
-      // Create final response using Promise.allSettled for robustness
-      const proofResponseSettled = await Promise.allSettled(
-        proofs.map(async ({ proof, fileNames }, i) => {
-          try {
-            if (!proof?.id) {
-              loggerService.logger.error('Invalid proof object', { index: i });
-              return {
-                proofId: null,
-                proofName: proof?.name || 'Unknown',
-                fileNames,
-                error: 'Invalid proof object',
-              };
-            }
-
-            const fileName = fileNames[0] || 'Unknown';
-            const shareLink = Helper.generateProofUrl(proof.id, fileName);
-            // Only set message for 'markups' documentType
-            let message: string | undefined;
-            if (metadata.documentType === 'markups') {
-              message = metadata.messageToReviewers
-                ? `${metadata.messageToReviewers}\nAccess the proof here: ${shareLink}`
-                : `Access the proof here: ${shareLink}`;
-            }
-
-            return {
-              proofId: proof.id,
-              proofName: proof.name,
-              fileNames,
-              shareLink,
-              isZipped: fileNames.length > 1 || fileName.endsWith('.zip'),
-              message,
-            };
-          } catch (err) {
-            loggerService.logger.error('Error generating share link', {
-              proofId: proof?.id || 'unknown',
-              error: (err as Error).message,
-              index: i,
-            });
-            return {
-              proofId: proof?.id || null,
-              proofName: proof?.name || 'Unknown',
-              fileNames,
-              error: `Link/message error: ${(err as Error).message}`,
-            };
-          }
-        }),
-      );
+      // Fail fast on an unknown template, before any files are uploaded
+      if (
+        metadata.workflow.template &&
+        !(await workflowTemplateService.getTemplate(metadata.workflow.template))
+      ) {
+        throw ErrorHandler.createError(
+          400,
+          `Unknown workflow template: ${metadata.workflow.template}`,
+        );
+      }
 
-      // Parallelize setMessageToReviewers only for proofs with a message (i.e., markups)
-      await Promise.all(
-        proofResponseSettled
-          .filter((r): r is PromiseFulfilledResult<any> => r.status === 'fulfilled')
-          .map(r => r.value)
-          .filter(r => r?.proofId && r?.message) // Only process proofs with a message
-          .map(r => PageProofService.setMessageToReviewers(r.proofId, r.message)),
-      );
+      if (this.isAsyncRequest(req)) {
+        return this.acceptJob(res, 'createProof', this.CREATE_PROOF_STEPS, async track => ({
+          proofs: await this.executeCreateProof(metadata, fileData, isIndividual, track),
+        }));
+      }
 
-      const proofResponse = proofResponseSettled
-        .filter((r): r is PromiseFulfilledResult<any> => r.status === 'fulfilled')
-        .map(r => {
-          const { message, ...rest } = r.value;
-          return rest;
-        });
+      const proofResponse = await this.executeCreateProof(metadata, fileData, isIndividual);
 
       return res.status(200).json({
         statusCode: 200,
@@ -255,14 +466,17 @@ class ProofController {
       const proofIds = ProofIdsSchema.parse(req.body.proofIds);
       if (!proofIds?.length)
         throw ErrorHandler.createError(400, 'At least one proof ID is required');
+      const context = this.transitionContext(req, 'lock-proof');
 
       const resultsSettled = await Promise.allSettled(
         proofIds.map(async id => {
           try {
             const details = await PageProofService.loadProofDetails(id);
             if (!details) return { proofId: id, success: false, error: 'Proof not found' };
+            await proofStateService.assertTransition(id, ProofStatus.Locked);
 
             const locked = await PageProofService.lockProofService(id);
+            if (locked) await proofStateService.record(id, ProofStatus.Locked, context);
             return locked
               ? { proofId: id, success: true, locked }
               : { proofId: id, success: false, error: 'Lock failed' };
@@ -424,41 +638,16 @@ class ProofController {
         },
       });
 
-      const fileUploads = await PageProofService.uploadFiles(fileData);
-      if (!fileUploads.length) throw ErrorHandler.createError(500, 'File upload failed');
-      loggerService.logger.info('ProofController: updateProof fileUploads', { fileUploads });
-
       if (!metadata.workflowId)
         throw ErrorHandler.createError(400, 'Workflow ID is missing in proof metadata');
 
-      const proofData = {
-        name: metadata.name,
-        groupId: metadata.groupId,
-        tags: metadata.tags,
-        messageToReviewers: metadata.messageToReviewers,
-        dueDate: new Date(metadata.dueDate).toISOString().split('T')[0],
-        fileIds: fileUploads.map(({ fileId, fileNames }) => ({
-          fileId,
-          fileNames: fileNames ?? ['Unknown'],
-        })),
-        workflowId: metadata.workflowId,
-      };
-
-      loggerService.logger.info('ProofController: updateProof data', { proofData });
-
-      const updatedProofs = await PageProofService.updateProofVersion(proofId, proofData);
-
-      if (!updatedProofs.length) throw ErrorHandler.createError(500, 'No new versions created');
-
-      const response = updatedProofs.map((p, i) => ({
-        proofId: p.id,
-        shareLink: Helper.generateProofUrl(p.id, fileUploads[i]?.fileNames?.[0] ?? 'Unknown'),
-        fileNames: fileUploads[i]?.fileNames ?? ['Unknown'],
-        isZipped:
-          (fileUploads[i]?.fileNames?.length ?? 0) > 1 ||
-          fileUploads[i]?.fileNames?.[0]?.endsWith('.zip') ||
-          false,
-      }));
+      if (this.isAsyncRequest(req)) {
+        return this.acceptJob(res, 'updateProof', this.UPDATE_PROOF_STEPS, async track => ({
+          proofs: await this.executeUpdateProof(proofId, metadata, fileData, track),
+        }));
+      }
+
+      const response = await this.executeUpdateProof(proofId, metadata, fileData);
 
       loggerService.logger.info('ProofController: updateProof completed', {
         proofCount: response.length,
@@ -587,6 +776,40 @@ class ProofController {
     }
   };
 
+  // #region Replace Approver Endpoint
+
+  /**
+   * Express endpoint to swap only the approver on a proof's existing workflow.
+   * Reviewer state is kept; the previous approver is returned for auditing.
+   * @param req Express request
+   * @param res Express response
+   */
+  public replaceApprover = async (req: Request, res: Response) => {
+    try {
+      const { proofId, newApproverEmail } = ReplaceApproverSchema.parse(req.body);
+
+      const result = await PageProofService.replaceApprover(proofId, newApproverEmail);
+
+      return res.status(200).json({
+        statusCode: 200,
+        success: true,
+        message: 'Approver replaced successfully',
+        ...result,
+      });
+    } catch (err) {
+      loggerService.logger.error('ProofController: replaceApprover error', {
+        error: (err as Error).message,
+        proofId: req.body?.proofId,
+      });
+      return ErrorHandler.handleError(
+        res,
+        (err as any).statusCode || 400,
+        err.message,
+        err as Error,
+      );
+    }
+  };
+
   // #region Update Due Dates Endpoint
 
   /**
@@ -648,11 +871,18 @@ class ProofController {
       const proofIdOrIds = ArchiveProofSchema.parse(req.body.proofIds);
       const proofIds = Array.isArray(proofIdOrIds) ? proofIdOrIds : [proofIdOrIds];
 
+      const context = this.transitionContext(req, 'archive-proof');
+
       loggerService.logger.info('ProofController: archiveProof started', {
         proofCount: proofIds.length,
       });
 
-      const results = await PageProofService.archiveProofs(proofIdOrIds);
+      const { allowed, rejected } = await this.checkTransitions(proofIds, ProofStatus.Archived);
+      const archived = allowed.length ? await PageProofService.archiveProofs(allowed) : [];
+      for (const result of archived.filter(r => r.success)) {
+        await proofStateService.record(result.proofId, ProofStatus.Archived, context);
+      }
+      const results = [...archived, ...rejected];
       const allSuccess = results.every(r => r.success);
 
       return res.status(allSuccess ? 200 : 207).json({
@@ -676,6 +906,346 @@ class ProofController {
       );
     }
   };
+
+  // #region Unlock Proof Endpoint
+
+  /**
+   * Express endpoint to unlock proofs in PageProof. Refuses proofs whose group was already
+   * sent to PowerApps as fully approved unless `force` is set.
+   * @param req Express request
+   * @param res Express response
+   */
+  public unlockProof = async (req: Request, res: Response) => {
+    try {
+      const proofIdOrIds = ArchiveProofSchema.parse(req.body.proofIds);
+      const force = ForceFlagSchema.parse(req.body.force);
+      const proofIds = Array.isArray(proofIdOrIds) ? proofIdOrIds : [proofIdOrIds];
+
+      loggerService.logger.info('ProofController: unlockProof started', {
+        proofCount: proofIds.length,
+        force,
+      });
+
+      const context = this.transitionContext(req, force ? 'unlock-proof (forced)' : 'unlock-proof');
+      const results = await PageProofService.unlockProofs(proofIdOrIds, force);
+      for (const result of results.filter(r => r.success)) {
+        await proofStateService.release(result.proofId, ProofStatus.Locked, context);
+        // An unlocked proof goes back into proofing; its next statuses are not stale
+        await webhookGuardService.resetStatus(result.proofId);
+      }
+      const allSuccess = results.every(r => r.success);
+
+      return res.status(allSuccess ? 200 : 207).json({
+        statusCode: allSuccess ? 200 : 207,
+        success: allSuccess,
+        message: allSuccess
+          ? 'Proofs unlocked successfully'
+          : 'Partial success in unlocking proofs',
+        results,
+      });
+    } catch (err) {
+      loggerService.logger.error('ProofController: unlockProof error', {
+        error: (err as Error).message,
+        requestBody: req.body,
+      });
+      return ErrorHandler.handleError(
+        res,
+        (err as any).statusCode || 400,
+        err.message,
+        err as Error,
+      );
+    }
+  };
+
+  // #region Restore Proof Endpoint
+
+  /**
+   * Express endpoint to restore (un-archive) proofs in PageProof.
+   * @param req Express request
+   * @param res Express response
+   */
+  public restoreProof = async (req: Request, res: Response) => {
+    try {
+      const proofIdOrIds = ArchiveProofSchema.parse(req.body.proofIds);
+      const proofIds = Array.isArray(proofIdOrIds) ? proofIdOrIds : [proofIdOrIds];
+
+      loggerService.logger.info('ProofController: restoreProof started', {
+        proofCount: proofIds.length,
+      });
+
+      const context = this.transitionContext(req, 'restore-proof');
+      const results = await PageProofService.restoreProofs(proofIdOrIds);
+      for (const result of results.filter(r => r.success)) {
+        await proofStateService.release(result.proofId, ProofStatus.Archived, context);
+      }
+      const allSuccess = results.every(r => r.success);
+
+      return res.status(allSuccess ? 200 : 207).json({
+        statusCode: allSuccess ? 200 : 207,
+        success: allSuccess,
+        message: allSuccess
+          ? 'Proofs restored successfully'
+          : 'Partial success in restoring proofs',
+        results,
+      });
+    } catch (err) {
+      loggerService.logger.error('ProofController: restoreProof error', {
+        error: (err as Error).message,
+        requestBody: req.body,
+      });
+      return ErrorHandler.handleError(
+        res,
+        (err as any).statusCode || 400,
+        err.message,
+        err as Error,
+      );
+    }
+  };
+
+  // #region Update Metadata Endpoint
+
+  /**
+   * Express endpoint to change name, tags, message to reviewers, due date or owners on proofs.
+   * @param req Express request
+   * @param res Express response
+   */
+  public updateMetadata = async (req: Request, res: Response) => {
+    try {
+      const { proofIds, changes } = UpdateMetadataSchema.parse(req.body);
+
+      loggerService.logger.info('ProofController: updateMetadata started', {
+        proofCount: proofIds.length,
+      });
+
+      const results = await PageProofService.updateProofMetadata(proofIds, changes);
+      const allSuccess = results.every(r => r.success);
+
+      return res.status(allSuccess ? 200 : 207).json({
+        statusCode: allSuccess ? 200 : 207,
+        success: allSuccess,
+        message: allSuccess
+          ? 'Proof metadata updated successfully'
+          : 'Partial success in updating proof metadata',
+        results,
+      });
+    } catch (err) {
+      loggerService.logger.error('ProofController: updateMetadata error', {
+        error: (err as Error).message,
+        requestBody: req.body,
+      });
+      return ErrorHandler.handleError(
+        res,
+        (err as any).statusCode || 400,
+        err.message,
+        err as Error,
+      );
+    }
+  };
+
+  // #region Proof Query Endpoints
+
+  /**
+   * Express endpoint returning the normalized state of a single proof.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getProof = async (req: Request, res: Response) => {
+    try {
+      const proofId = ProofIdSchema.parse(req.params.proofId);
+
+      const proof = await PageProofService.getProofSummary(proofId);
+      if (!proof) throw ErrorHandler.createError(404, 'Proof not found');
+
+      return res.status(200).json({ statusCode: 200, success: true, proof });
+    } catch (err) {
+      loggerService.logger.error('ProofController: getProof error', {
+        error: (err as Error).message,
+        proofId: req.params.proofId,
+      });
+      return ErrorHandler.handleError(
+        res,
+        (err as any).statusCode || 400,
+        err.message,
+        err as Error,
+      );
+    }
+  };
+
+  /**
+   * Express endpoint returning a proof's lifecycle state and its transition history.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getProofTransitions = async (req: Request, res: Response) => {
+    try {
+      const proofId = ProofIdSchema.parse(req.params.proofId);
+
+      const transitions = await proofStateService.getHistory(proofId);
+      return res.status(200).json({
+        statusCode: 200,
+        success: true,
+        proofId,
+        state: transitions[transitions.length - 1]?.to ?? null,
+        transitions,
+      });
+    } catch (err) {
+      loggerService.logger.error('ProofController: getProofTransitions error', {
+        error: (err as Error).message,
+        proofId: req.params.proofId,
+      });
+      return ErrorHandler.handleError(
+        res,
+        (err as any).statusCode || 400,
+        err.message,
+        err as Error,
+      );
+    }
+  };
+
+  /**
+   * Express endpoint returning the normalized state of a batch of proofs.
+   * Proof IDs are passed as a comma-separated `proofIds` query parameter.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getProofs = async (req: Request, res: Response) => {
+    try {
+      const proofIds = ProofIdsQuerySchema.parse(req.query.proofIds);
+
+      const results = await Promise.all(
+        proofIds.map(async proofId => {
+          try {
+            const proof = await PageProofService.getProofSummary(proofId);
+            return proof
+              ? { proofId, success: true, proof }
+              : { proofId, success: false, error: 'Proof not found' };
+          } catch (err) {
+            loggerService.logger.error('getProofs failed for proof', {
+              proofId,
+              error: (err as Error).message,
+            });
+            return { proofId, success: false, error: (err as Error).message };
+          }
+        }),
+      );
+
+      const allSuccess = results.every(r => r.success);
+      return res.status(allSuccess ? 200 : 207).json({
+        statusCode: allSuccess ? 200 : 207,
+        success: allSuccess,
+        results,
+      });
+    } catch (err) {
+      loggerService.logger.error('ProofController: getProofs error', {
+        error: (err as Error).message,
+      });
+      return ErrorHandler.handleError(
+        res,
+        (err as any).statusCode || 400,
+        err.message,
+        err as Error,
+      );
+    }
+  };
+
+  /**
+   * Express endpoint returning the normalized state of every proof in a collection.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getCollectionProofs = async (req: Request, res: Response) => {
+    try {
+      const groupId = ProofIdSchema.parse(req.params.groupId);
+
+      const collection = await PageProofService.getCollectionProofSummaries(groupId);
+      if (!collection) throw ErrorHandler.createError(404, 'Collection not found');
+
+      return res.status(200).json({
+        statusCode: 200,
+        success: true,
+        collection: { id: collection.id, name: collection.name },
+        proofs: collection.proofs,
+      });
+    } catch (err) {
+      loggerService.logger.error('ProofController: getCollectionProofs error', {
+        error: (err as Error).message,
+        groupId: req.params.groupId,
+      });
+      return ErrorHandler.handleError(
+        res,
+        (err as any).statusCode || 400,
+        err.message,
+        err as Error,
+      );
+    }
+  };
+
+  // #region Decisions & Comments Export Endpoints
+
+  /**
+   * Express endpoint exporting reviewer decisions and comment threads for a proof.
+   * Responds with JSON by default, or CSV when `format=csv` is passed.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getProofFeedback = async (req: Request, res: Response) => {
+    try {
+      const proofId = ProofIdSchema.parse(req.params.proofId);
+      const format = ExportFormatSchema.parse(req.query.format);
+
+      const feedback = await PageProofService.getProofFeedback(proofId);
+      if (!feedback) throw ErrorHandler.createError(404, 'Proof not found');
+
+      return this.sendFeedback(res, format, `proof-${proofId}-feedback`, [feedback]);
+    } catch (err) {
+      loggerService.logger.error('ProofController: getProofFeedback error', {
+        error: (err as Error).message,
+        proofId: req.params.proofId,
+      });
+      return ErrorHandler.handleError(
+        res,
+        (err as any).statusCode || 400,
+        err.message,
+        err as Error,
+      );
+    }
+  };
+
+  /**
+   * Express endpoint exporting reviewer decisions and comment threads for every proof
+   * in a collection. Responds with JSON by default, or CSV when `format=csv` is passed.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getCollectionFeedback = async (req: Request, res: Response) => {
+    try {
+      const groupId = ProofIdSchema.parse(req.params.groupId);
+      const format = ExportFormatSchema.parse(req.query.format);
+
+      const group = await PageProofService.getGroupById(groupId);
+      if (!group) throw ErrorHandler.createError(404, 'Collection not found');
+
+      const proofs: any[] = Array.isArray(group.proofs) ? group.proofs : [];
+      const feedback = (
+        await Promise.all(proofs.map(proof => PageProofService.getProofFeedback(proof.id)))
+      ).filter((f): f is ProofFeedback => !!f);
+
+      return this.sendFeedback(res, format, `collection-${groupId}-feedback`, feedback, {
+        collection: { id: group.id ?? groupId, name: group.name ?? null },
+      });
+    } catch (err) {
+      loggerService.logger.error('ProofController: getCollectionFeedback error', {
+        error: (err as Error).message,
+        groupId: req.params.groupId,
+      });
+      return ErrorHandler.handleError(
+        res,
+        (err as any).statusCode || 400,
+        err.message,
+        err as Error,
+      );
+    }
+  };
 }
 
 export const proofController = new ProofController();
@@ -1,127 +1,203 @@
 import { Request, Response } from 'express';
-import { z } from 'zod';
 
 import { verifySignature } from '../utils/verifySignature';
 import { ErrorHandler } from '../utils/errorHandler';
-import { WebhookService } from '../services/webhookService';
+import { webhookEventService } from '../services/webhookEventService';
+import { webhookGuardService, GuardVerdict } from '../services/webhookGuardService';
+import {
+  webhookHandlerService,
+  WebhookHandler,
+  byDelivery,
+} from '../services/webhookHandlerService';
+import { isCircuitOpenError } from '../services/circuitBreakerService';
 import { loggerService } from '../utils/logger';
-import { ProofWebhookSchema, OverdueWebhookSchema } from '../schema/zodSchemas';
+import { WebhookEventTypeSchema } from '../schema/zodSchemas';
 
 class WebhookController {
-  // Helper to validate and verify signature
+  private getRawBody(req: Request): string {
+    return (req as any).rawBody ?? JSON.stringify(req.body ?? {});
+  }
+
+  /**
+   * Records a failed delivery and responds. PageProof being unavailable (an open circuit breaker)
+   * is a 503 so the sender retries later; anything else is a 500.
+   */
+  private async failDelivery(
+    res: Response,
+    error: unknown,
+    eventId: string | null,
+    deliveryKey: string | null,
+  ): Promise<void> {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const status = isCircuitOpenError(err) ? 503 : 500;
+    await webhookEventService.recordOutcome(eventId, status, err.message);
+    if (deliveryKey) await webhookGuardService.completeDelivery(deliveryKey, status);
+    return ErrorHandler.handleError(
+      res,
+      status,
+      status === 503 ? 'Service Unavailable' : 'Internal Server Error',
+      err,
+    );
+  }
+
+  /**
+   * Validates the body against the handler's schema and verifies the PageProof signature.
+   * Signed events, and unsigned ones for handlers that do not require a signature, are stored
+   * before processing.
+   */
   private async validateAndVerify(
     req: Request,
     res: Response,
-    schema: z.ZodSchema<any>,
-    logContext: string,
-  ): Promise<boolean> {
+    handler: WebhookHandler,
+  ): Promise<{ valid: boolean; eventId: string | null }> {
     // Validate request body structure
-    const parseResult = schema.safeParse(req.body);
+    const parseResult = handler.schema.safeParse(req.body);
+    // Verify PageProof signature
+    const isValid = await verifySignature.isRequestSignedByPageProof(req);
+
+    const eventId =
+      isValid || !handler.requireSignature
+        ? await webhookEventService.recordReceived(
+            handler.name,
+            this.getRawBody(req),
+            req.headers,
+            {
+              signatureValid: isValid,
+              bodyValid: parseResult.success,
+              errors: parseResult.success ? [] : parseResult.error.errors.map(e => e.message),
+            },
+          )
+        : null;
+
     if (!parseResult.success) {
-      loggerService.logger.warn(`Invalid body received in ${logContext}`, {
+      loggerService.logger.warn(`Invalid body received in ${handler.name}`, {
         errors: parseResult.error.errors,
       });
+      await webhookEventService.recordOutcome(eventId, 400, 'Invalid body');
       res
         .status(400)
         .json({ statusCode: 400, error: 'Invalid body', details: parseResult.error.errors });
-      return false;
+      return { valid: false, eventId };
     }
-    // Verify PageProof signature
-    const isValid = await verifySignature.isRequestSignedByPageProof(req);
-    if (!isValid) {
-      loggerService.logger.warn(`Invalid signature in ${logContext}`, { headers: req.headers });
+    if (!isValid && handler.requireSignature) {
+      loggerService.logger.warn(`Invalid signature in ${handler.name}`, { headers: req.headers });
       res.status(403).json({ statusCode: 403, error: 'Invalid signature' });
-      return false;
+      return { valid: false, eventId };
     }
-    return true;
+    return { valid: true, eventId };
+  }
+
+  // Drops retried deliveries and stale statuses before any lock or PowerApps call
+  private async screenDelivery(
+    req: Request,
+    res: Response,
+    eventId: string | null,
+    handler: Pick<WebhookHandler, 'getDedupKey' | 'recordStatus'>,
+  ): Promise<Extract<GuardVerdict, { action: 'process' }> | null> {
+    const proof = req.body?.proof;
+    const verdict = await webhookGuardService.screen(
+      handler.getDedupKey({ body: req.body, rawBody: this.getRawBody(req), headers: req.headers }),
+      typeof proof?.id === 'string' ? proof.id : undefined,
+      typeof proof?.status === 'string' ? proof.status : undefined,
+      handler.recordStatus,
+    );
+    if (verdict.action === 'process') return verdict;
+
+    const message =
+      verdict.action === 'duplicate'
+        ? 'Duplicate delivery ignored'
+        : `Stale status ignored, proof is already ${verdict.previousStatus}`;
+    await webhookEventService.recordOutcome(eventId, 200, message, { ignored: true });
+    res.status(200).json({ statusCode: 200, message, ignored: true, reason: verdict.action });
+    return null;
   }
 
-  // #region Proof Status Endpoint
+  // #region Webhook Dispatcher
   /**
-   * Handles the /proof-status webhook endpoint.
-   * Verifies signature, validates body, and delegates to service.
+   * Handles POST /api/v1/webhook/:eventType.
+   * Looks the event type up in the handler registry, then validates, verifies, stores and
+   * screens the delivery before the handler processes it.
    * @param req Express request
    * @param res Express response
    */
-  async proofStatus(req: Request, res: Response): Promise<void> {
+  async dispatch(req: Request, res: Response): Promise<void> {
     const startTime = Date.now();
+    let eventId: string | null = null;
+    let deliveryKey: string | null = null;
     try {
-      if (!(await this.validateAndVerify(req, res, ProofWebhookSchema, 'proofStatus'))) return;
-      // Delegate to service
-      const result = await WebhookService.handleProofStatus(req.body);
-      loggerService.logger.info('proofStatus total processing time', {
+      const eventType = WebhookEventTypeSchema.safeParse(req.params.eventType);
+      if (!eventType.success) {
+        res.status(400).json({ statusCode: 400, error: 'Invalid webhook event type' });
+        return;
+      }
+      const handler = webhookHandlerService.get(eventType.data);
+      if (!handler) return this.unhandled(req, res, eventType.data);
+
+      const verification = await this.validateAndVerify(req, res, handler);
+      if (!verification.valid) return;
+      eventId = verification.eventId;
+      const guard = await this.screenDelivery(req, res, eventId, handler);
+      if (!guard) return;
+      deliveryKey = guard.deliveryKey;
+      // Delegate to the registered handler
+      const result = await handler.process(req.body);
+      await webhookEventService.recordOutcome(eventId, result.status, result.error);
+      await webhookGuardService.completeDelivery(deliveryKey, result.status);
+      loggerService.logger.info(`${handler.name} total processing time`, {
         ms: Date.now() - startTime,
       });
       if (result.status !== 200) {
         res.status(result.status).json({ statusCode: result.status, error: result.error });
       } else {
-        const response: any = {
-          statusCode: 200,
-          message: result.message,
-        };
-
-        // Include appropriate data based on the response type
-        if (result.proofData) {
-          response.proofData = result.proofData;
-        }
-        if (result.reworkData) {
-          response.reworkData = result.reworkData;
-        }
-        if (result.inproofingData) {
-          response.inproofingData = result.inproofingData;
+        const response: any = { statusCode: 200, message: result.message };
+
+        // Include the handler's data, leaving out fields it did not produce
+        Object.entries(result.data ?? {}).forEach(([key, value]) => {
+          if (value !== undefined && value !== null) response[key] = value;
+        });
+        if (guard.flagged) {
+          response.staleStatus = { previousStatus: guard.previousStatus };
         }
 
         res.status(200).json(response);
       }
     } catch (error) {
-      loggerService.logger.error('Error in proofStatus', { error });
-      return ErrorHandler.handleError(
-        res,
-        500,
-        'Internal Server Error',
-        error instanceof Error ? error : new Error(String(error)),
-      );
+      loggerService.logger.error(`Error in webhook ${req.params.eventType}`, { error });
+      return this.failDelivery(res, error, eventId, deliveryKey);
     }
   }
-  // #endregion
 
-  // #region Proof Overdue Endpoint
   /**
-   * Handles the /overdue webhook endpoint.
-   * Verifies signature, validates body, and delegates to service.
-   * @param req Express request
-   * @param res Express response
+   * Acknowledges a signed event no handler is registered for with 202, so new PageProof
+   * events are kept for later replay instead of failing.
    */
-  async proofOverdue(req: Request, res: Response): Promise<void> {
-    const startTime = Date.now();
-    try {
-      if (!(await this.validateAndVerify(req, res, OverdueWebhookSchema, 'proofOverdue'))) return;
-      // Delegate to service
-      const result = await WebhookService.handleProofOverdue(req.body);
-      loggerService.logger.info('proofOverdue total processing time', {
-        ms: Date.now() - startTime,
-      });
-      if (result.status !== 200) {
-        res.status(result.status).json({ statusCode: result.status, error: result.error });
-      } else {
-        res.status(200).json({
-          statusCode: 200,
-          message: result.message,
-          overdueData: result.overdueData,
-        });
-      }
-    } catch (error) {
-      loggerService.logger.error('Error in proofOverdue', { error });
-      return ErrorHandler.handleError(
-        res,
-        500,
-        'Internal Server Error',
-        error instanceof Error ? error : new Error(String(error)),
-      );
+  private async unhandled(req: Request, res: Response, eventType: string): Promise<void> {
+    if (!(await verifySignature.isRequestSignedByPageProof(req))) {
+      loggerService.logger.warn(`Invalid signature in ${eventType}`, { headers: req.headers });
+      res.status(403).json({ statusCode: 403, error: 'Invalid signature' });
+      return;
     }
+
+    // Bodies of unknown events are not validated; replay validates them once a handler exists
+    const eventId = await webhookEventService.recordReceived(
+      eventType,
+      this.getRawBody(req),
+      req.headers,
+      { signatureValid: true, bodyValid: true, errors: [] },
+    );
+    const guard = await this.screenDelivery(req, res, eventId, {
+      getDedupKey: byDelivery,
+      recordStatus: false,
+    });
+    if (!guard) return;
+
+    const message = `No handler for webhook event type ${eventType}, event stored`;
+    await webhookEventService.recordOutcome(eventId, 202, null, { unhandled: true });
+    await webhookGuardService.completeDelivery(guard.deliveryKey, 202);
+    loggerService.logger.warn('Unhandled webhook event type received', { eventType, eventId });
+    res.status(202).json({ statusCode: 202, message, handled: false, eventId });
   }
   // #endregion
 }
-// #endregion
 
 export const webhookController = new WebhookController();
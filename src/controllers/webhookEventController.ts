@@ -0,0 +1,120 @@
+import { Request, Response } from 'express';
+
+import { webhookEventService } from '../services/webhookEventService';
+import { ErrorHandler } from '../utils/errorHandler';
+import { loggerService } from '../utils/logger';
+import {
+  WebhookEventIdSchema,
+  WebhookEventQuerySchema,
+  WebhookReplayRangeSchema,
+} from '../schema/zodSchemas';
+
+class WebhookEventController {
+  // #region Helpers
+
+  private handleError(res: Response, operation: string, err: unknown, eventId?: unknown) {
+    loggerService.logger.error(`WebhookEventController: ${operation} error`, {
+      error: (err as Error).message,
+      eventId,
+    });
+    return ErrorHandler.handleError(
+      res,
+      (err as any).statusCode || 400,
+      (err as Error).message,
+      err as Error,
+    );
+  }
+
+  // #endregion
+
+  // #region Event Endpoints
+
+  /**
+   * Express endpoint listing a page of stored webhook events, newest first.
+   * @param req Express request
+   * @param res Express response
+   */
+  public listEvents = async (req: Request, res: Response) => {
+    try {
+      const filter = WebhookEventQuerySchema.parse(req.query);
+
+      const { total, events } = await webhookEventService.listEvents(filter);
+      return res.status(200).json({
+        statusCode: 200,
+        success: true,
+        total,
+        offset: filter.offset,
+        count: events.length,
+        events,
+      });
+    } catch (err) {
+      return this.handleError(res, 'listEvents', err);
+    }
+  };
+
+  /**
+   * Express endpoint returning a single stored webhook event with its outcomes.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getEvent = async (req: Request, res: Response) => {
+    try {
+      const eventId = WebhookEventIdSchema.parse(req.params.eventId);
+
+      const event = await webhookEventService.getEvent(eventId);
+      if (!event) throw ErrorHandler.createError(404, `Webhook event ${eventId} not found`);
+
+      return res.status(200).json({ statusCode: 200, success: true, event });
+    } catch (err) {
+      return this.handleError(res, 'getEvent', err, req.params.eventId);
+    }
+  };
+
+  /**
+   * Express endpoint replaying a single stored webhook event.
+   * @param req Express request
+   * @param res Express response
+   */
+  public replayEvent = async (req: Request, res: Response) => {
+    try {
+      const eventId = WebhookEventIdSchema.parse(req.params.eventId);
+
+      const outcome = await webhookEventService.replayEvent(eventId);
+      return res.status(200).json({
+        statusCode: 200,
+        success: outcome.status === 'processed',
+        eventId,
+        outcome,
+      });
+    } catch (err) {
+      return this.handleError(res, 'replayEvent', err, req.params.eventId);
+    }
+  };
+
+  /**
+   * Express endpoint replaying every valid webhook event received in a time range.
+   * @param req Express request
+   * @param res Express response
+   */
+  public replayRange = async (req: Request, res: Response) => {
+    try {
+      const range = WebhookReplayRangeSchema.parse(req.body);
+
+      const results = await webhookEventService.replayRange(range);
+      const allSuccess = results.every(r => r.outcome.status === 'processed');
+
+      return res.status(allSuccess ? 200 : 207).json({
+        statusCode: allSuccess ? 200 : 207,
+        success: allSuccess,
+        count: results.length,
+        results,
+      });
+    } catch (err) {
+      return this.handleError(res, 'replayRange', err);
+    }
+  };
+
+  // #endregion
+}
+
+export const webhookEventController = new WebhookEventController();
@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+
+import { workflowTemplateService } from '../services/workflowTemplateService';
+import { ErrorHandler } from '../utils/errorHandler';
+import { loggerService } from '../utils/logger';
+import { WorkflowTemplateSchema, WorkflowTemplateNameSchema } from '../schema/zodSchemas';
+
+class WorkflowTemplateController {
+  // #region Helpers
+
+  private handleError(res: Response, operation: string, err: unknown, name?: unknown) {
+    loggerService.logger.error(`WorkflowTemplateController: ${operation} error`, {
+      error: (err as Error).message,
+      name,
+    });
+    return ErrorHandler.handleError(
+      res,
+      (err as any).statusCode || 400,
+      (err as Error).message,
+      err as Error,
+    );
+  }
+
+  // #endregion
+
+  // #region Template Endpoints
+
+  /**
+   * Express endpoint listing all workflow templates.
+   * @param req Express request
+   * @param res Express response
+   */
+  public listTemplates = async (req: Request, res: Response) => {
+    try {
+      const templates = await workflowTemplateService.listTemplates();
+      return res.status(200).json({ statusCode: 200, success: true, templates });
+    } catch (err) {
+      return this.handleError(res, 'listTemplates', err);
+    }
+  };
+
+  /**
+   * Express endpoint returning a single workflow template by name.
+   * @param req Express request
+   * @param res Express response
+   */
+  public getTemplate = async (req: Request, res: Response) => {
+    try {
+      const name = WorkflowTemplateNameSchema.parse(req.params.name);
+
+      const template = await workflowTemplateService.getTemplate(name);
+      if (!template) throw ErrorHandler.createError(404, `Workflow template ${name} not found`);
+
+      return res.status(200).json({ statusCode: 200, success: true, template });
+    } catch (err) {
+      return this.handleError(res, 'getTemplate', err, req.params.name);
+    }
+  };
+
+  /**
+   * Express endpoint creating a workflow template.
+   * @param req Express request
+   * @param res Express response
+   */
+  public createTemplate = async (req: Request, res: Response) => {
+    try {
+      const template = WorkflowTemplateSchema.parse(req.body);
+
+      const created = await workflowTemplateService.createTemplate(template);
+      return res.status(201).json({ statusCode: 201, success: true, template: created });
+    } catch (err) {
+      return this.handleError(res, 'createTemplate', err, req.body?.name);
+    }
+  };
+
+  /**
+   * Express endpoint replacing a workflow template's steps, approver and description.
+   * @param req Express request
+   * @param res Express response
+   */
+  public updateTemplate = async (req: Request, res: Response) => {
+    try {
+      const name = WorkflowTemplateNameSchema.parse(req.params.name);
+      const template = WorkflowTemplateSchema.omit({ name: true }).parse(req.body);
+
+      const updated = await workflowTemplateService.updateTemplate(name, template);
+      return res.status(200).json({ statusCode: 200, success: true, template: updated });
+    } catch (err) {
+      return this.handleError(res, 'updateTemplate', err, req.params.name);
+    }
+  };
+
+  /**
+   * Express endpoint deleting a workflow template.
+   * @param req Express request
+   * @param res Express response
+   */
+  public deleteTemplate = async (req: Request, res: Response) => {
+    try {
+      const name = WorkflowTemplateNameSchema.parse(req.params.name);
+
+      const deleted = await workflowTemplateService.deleteTemplate(name);
+      if (!deleted) throw ErrorHandler.createError(404, `Workflow template ${name} not found`);
+
+      return res.status(200).json({
+        statusCode: 200,
+        success: true,
+        message: `Workflow template ${name} deleted`,
+      });
+    } catch (err) {
+      return this.handleError(res, 'deleteTemplate', err, req.params.name);
+    }
+  };
+
+  // #endregion
+}
+
+export const workflowTemplateController = new WorkflowTemplateController();
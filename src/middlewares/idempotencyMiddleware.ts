@@ -0,0 +1,188 @@
+import { createHash } from 'crypto';
+
+import { Request, Response, NextFunction } from 'express';
+
+import { cacheService } from '../services/cacheService';
+import { loggerService } from '../utils/logger';
+
+import { FileInfo } from './busboyMiddleware';
+
+interface StoredResponse {
+  // Hash of the request the response belongs to; missing on responses stored before it existed
+  fingerprint?: string;
+  statusCode: number;
+  body: unknown;
+  location?: string;
+  storedAt: string;
+}
+
+class IdempotencyGuard {
+  private readonly TTL_MS = Number(process.env.IDEMPOTENCY_TTL_MS ?? 24 * 60 * 60 * 1000); // 24 hours default
+  private readonly MAX_KEY_LENGTH = 255;
+  private readonly CACHE_PREFIX = 'idempotency';
+  // Longest a key stays claimed by a handler that never responds
+  private readonly CLAIM_TIMEOUT_MS = Number(
+    process.env.IDEMPOTENCY_CLAIM_TIMEOUT_MS ?? 30 * 60 * 1000,
+  ); // 30 minutes default
+
+  // Keys whose first request is still being processed by this instance
+  private inFlight = new Set<string>();
+
+  // #region Key Handling
+
+  /**
+   * Extracts the 'Idempotency-Key' header and handles multiple values.
+   */
+  private extractKey(req: Request): string | null {
+    const header = req.headers['idempotency-key'];
+    const key = Array.isArray(header) ? header[0] : header;
+    return key?.trim() || null;
+  }
+
+  /**
+   * Scopes the client key to the route so the same key on two endpoints never collides.
+   */
+  private scopeKey(req: Request, key: string): string {
+    return `${req.method}:${req.baseUrl}${req.path}:${key}`;
+  }
+
+  /**
+   * Hashes the method, path, parsed body and uploaded files (names and sizes), so a key reused
+   * for a different request is recognised. Upload routes run the guard after busboyUpload.
+   */
+  private fingerprint(req: Request): string {
+    const files = ((req as any).files as FileInfo[] | undefined)?.map(
+      file => `${file.fieldname}:${file.originalname}:${file.size}`,
+    );
+    const content = JSON.stringify({ body: req.body ?? null, files: files ?? [] });
+    return createHash('sha256')
+      .update(`${req.method}\n${req.baseUrl}${req.path}\n${content}`)
+      .digest('hex');
+  }
+
+  // #endregion
+
+  // #region Response Storage
+
+  private async getStored(scopedKey: string): Promise<StoredResponse | null> {
+    try {
+      return await cacheService.get<StoredResponse>(scopedKey, { prefix: this.CACHE_PREFIX });
+    } catch (error) {
+      loggerService.logger.warn('Idempotency lookup failed', { error: (error as Error).message });
+      return null;
+    }
+  }
+
+  private async store(scopedKey: string, response: StoredResponse): Promise<void> {
+    try {
+      await cacheService.set(scopedKey, response, { prefix: this.CACHE_PREFIX, ttl: this.TTL_MS });
+    } catch (error) {
+      loggerService.logger.warn('Idempotency store failed', { error: (error as Error).message });
+    }
+  }
+
+  // #endregion
+
+  // #region Middleware
+
+  /**
+   * Honors the 'Idempotency-Key' header on mutation routes. The first completed response
+   * for a key is stored and replayed for repeats; a repeat that arrives while the first
+   * request is still running gets 409, and a key reused with a different request gets 422.
+   * The response is stored even when the client gave up waiting, so its retry is replayed
+   * instead of running the work again. Requests without the header pass straight through.
+   * Server errors (5xx) are not stored so the client can retry them.
+   */
+  public handle = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = this.extractKey(req);
+    if (!key) return next();
+
+    if (key.length > this.MAX_KEY_LENGTH) {
+      res.status(400).json({
+        error: `Idempotency-Key must be at most ${this.MAX_KEY_LENGTH} characters`,
+      });
+      return;
+    }
+
+    const scopedKey = this.scopeKey(req, key);
+    const fingerprint = this.fingerprint(req);
+
+    if (this.inFlight.has(scopedKey)) {
+      loggerService.logger.warn('Idempotency conflict: request still in progress', {
+        key,
+        url: req.originalUrl,
+      });
+      res.status(409).json({
+        error: 'A request with this Idempotency-Key is still being processed',
+      });
+      return;
+    }
+
+    // Claim the key before awaiting so a concurrent duplicate sees it as in flight
+    this.inFlight.add(scopedKey);
+
+    const stored = await this.getStored(scopedKey);
+    if (stored?.fingerprint && stored.fingerprint !== fingerprint) {
+      this.inFlight.delete(scopedKey);
+      loggerService.logger.warn('Idempotency key reused with a different request', {
+        key,
+        url: req.originalUrl,
+      });
+      res.status(422).json({
+        error: 'Idempotency-Key was already used with a different request',
+      });
+      return;
+    }
+    if (stored) {
+      this.inFlight.delete(scopedKey);
+      loggerService.logger.info('Idempotency replay', { key, url: req.originalUrl });
+      res.setHeader('Idempotent-Replayed', 'true');
+      if (stored.location) res.location(stored.location);
+      res.status(stored.statusCode).json(stored.body);
+      return;
+    }
+
+    // Keep the key claimed until the response is stored, so a repeat never re-runs the work
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      clearTimeout(claimTimer);
+      this.inFlight.delete(scopedKey);
+    };
+    const claimTimer = setTimeout(release, this.CLAIM_TIMEOUT_MS);
+    claimTimer.unref();
+
+    // Captured when the handler responds, whether or not the client is still connected
+    let captured = false;
+    const originalJson = res.json.bind(res);
+    res.json = (data: any) => {
+      if (!captured) {
+        captured = true;
+        if (res.statusCode >= 500) {
+          release();
+        } else {
+          void this.store(scopedKey, {
+            fingerprint,
+            statusCode: res.statusCode,
+            body: data,
+            location: res.get('Location'),
+            storedAt: new Date().toISOString(),
+          }).finally(release);
+        }
+      }
+      return originalJson(data);
+    };
+
+    // Responses sent without res.json are not stored
+    res.on('finish', () => {
+      if (!captured) release();
+    });
+
+    next();
+  };
+
+  // #endregion
+}
+
+export const idempotencyGuard = new IdempotencyGuard();
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+
+import { collectionController } from '../../controllers/collectionController';
+import { hmacValidator } from '../../middlewares/hmacMiddleware';
+import { idempotencyGuard } from '../../middlewares/idempotencyMiddleware';
+import { asyncHandler } from '../../utils/asyncHandler';
+
+const router = Router();
+
+// List Collections
+router.get(
+  '/',
+  hmacValidator.verify,
+  asyncHandler('listCollections')(collectionController.listCollections.bind(collectionController)),
+);
+
+// Move Proofs Between Collections
+router.post(
+  '/move-proofs',
+  hmacValidator.verify,
+  idempotencyGuard.handle,
+  asyncHandler('moveProofs')(collectionController.moveProofs.bind(collectionController)),
+);
+
+// Get Collection with Proofs and Status
+router.get(
+  '/:groupId',
+  hmacValidator.verify,
+  asyncHandler('getCollection')(collectionController.getCollection.bind(collectionController)),
+);
+
+// Preview Collection Status - Does not notify PowerApps
+router.get(
+  '/:groupId/status',
+  hmacValidator.verify,
+  asyncHandler('getCollectionStatus')(
+    collectionController.getCollectionStatus.bind(collectionController),
+  ),
+);
+
+// Rename Collection
+router.patch(
+  '/:groupId',
+  hmacValidator.verify,
+  idempotencyGuard.handle,
+  asyncHandler('renameCollection')(
+    collectionController.renameCollection.bind(collectionController),
+  ),
+);
+
+export default router;
@@ -0,0 +1,41 @@
+import { Router, Request, Response } from 'express';
+
+import { eventGridController } from '../../controllers/eventGridController';
+import { hmacValidator } from '../../middlewares/hmacMiddleware';
+import { asyncHandler } from '../../utils/asyncHandler';
+
+const router = Router();
+
+// Event Grid Deliveries, authenticated by the subscription's shared key
+router.post(
+  '/webhook',
+  asyncHandler('receiveEventGridDelivery')(eventGridController.receive.bind(eventGridController)),
+);
+
+// CloudEvents Abuse Protection Handshake
+router.options(
+  '/webhook',
+  asyncHandler('validateCloudEventsOrigin')(
+    eventGridController.validateCloudEventsOrigin.bind(eventGridController),
+  ),
+);
+
+// Get Receiver Status
+router.get(
+  '/status',
+  hmacValidator.verify,
+  asyncHandler('getEventGridStatus')(eventGridController.getStatus.bind(eventGridController)),
+);
+
+// Health Check
+router.get('/health', (req: Request, res: Response) => {
+  res.status(200).json({
+    status: 'healthy',
+    service: 'eventgrid',
+    timestamp: new Date().toISOString(),
+    endpoints: { webhook: '/api/v1/eventgrid/webhook', status: '/api/v1/eventgrid/status' },
+    schemas: ['EventGridSchema', 'CloudEventSchemaV1_0'],
+  });
+});
+
+export default router;
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+
+import { groupRuleController } from '../../controllers/groupRuleController';
+import { hmacValidator } from '../../middlewares/hmacMiddleware';
+import { asyncHandler } from '../../utils/asyncHandler';
+
+const router = Router();
+
+// Get Group Rules
+router.get(
+  '/',
+  hmacValidator.verify,
+  asyncHandler('getGroupRules')(groupRuleController.getRules.bind(groupRuleController)),
+);
+
+// Replace Group Rules
+router.put(
+  '/',
+  hmacValidator.verify,
+  asyncHandler('replaceGroupRules')(groupRuleController.replaceRules.bind(groupRuleController)),
+);
+
+// Reset Group Rules to Defaults
+router.delete(
+  '/',
+  hmacValidator.verify,
+  asyncHandler('resetGroupRules')(groupRuleController.resetRules.bind(groupRuleController)),
+);
+
+export default router;
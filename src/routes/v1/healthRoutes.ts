@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 
 import { performanceService } from '../../services/performanceService';
 import { cacheService } from '../../services/cacheService';
+import { circuitBreakerService } from '../../services/circuitBreakerService';
 import { loggerService } from '../../utils/logger';
 import config from '../../config';
 
@@ -55,9 +56,16 @@ router.get('/detailed', async (req: Request, res: Response) => {
     const metrics = performanceService.getSystemMetrics();
     const cacheStats = cacheService.getStats();
     const cacheConnected = cacheService.isCacheConnected();
+    const circuitBreakers = circuitBreakerService.getSnapshots();
+
+    // A dependency behind an open breaker degrades an otherwise healthy service
+    const status =
+      health.status === 'healthy' && circuitBreakers.some(breaker => breaker.state === 'open')
+        ? 'degraded'
+        : health.status;
 
     const response = {
-      status: health.status,
+      status,
       timestamp: new Date().toISOString(),
       uptime: process.uptime(),
       version: config.app.version,
@@ -93,6 +101,7 @@ router.get('/detailed', async (req: Request, res: Response) => {
             ? `${((cacheStats.hits / (cacheStats.hits + cacheStats.misses)) * 100).toFixed(2)}%`
             : '0%',
       },
+      circuitBreakers,
       config: {
         performance: {
           compressionLevel: config.performance.compressionLevel,
@@ -109,7 +118,7 @@ router.get('/detailed', async (req: Request, res: Response) => {
       responseTime: Date.now() - startTime,
     };
 
-    const statusCode = health.status === 'healthy' ? 200 : health.status === 'degraded' ? 200 : 503;
+    const statusCode = status === 'healthy' ? 200 : status === 'degraded' ? 200 : 503;
 
     res.status(statusCode).json(response);
   } catch (error) {
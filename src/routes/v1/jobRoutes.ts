@@ -0,0 +1,16 @@
+import { Router } from 'express';
+
+import { jobController } from '../../controllers/jobController';
+import { hmacValidator } from '../../middlewares/hmacMiddleware';
+import { asyncHandler } from '../../utils/asyncHandler';
+
+const router = Router();
+
+// Job Status - Polled by clients after a 202 from an async request
+router.get(
+  '/:jobId',
+  hmacValidator.verify,
+  asyncHandler('getJob')(jobController.getJob.bind(jobController)),
+);
+
+export default router;
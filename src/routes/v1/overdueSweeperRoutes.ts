@@ -0,0 +1,25 @@
+import { Router } from 'express';
+
+import { overdueSweeperController } from '../../controllers/overdueSweeperController';
+import { hmacValidator } from '../../middlewares/hmacMiddleware';
+import { asyncHandler } from '../../utils/asyncHandler';
+
+const router = Router();
+
+// Get Sweeper Status
+router.get(
+  '/',
+  hmacValidator.verify,
+  asyncHandler('getOverdueSweeperStatus')(
+    overdueSweeperController.getStatus.bind(overdueSweeperController),
+  ),
+);
+
+// Run Sweep Now
+router.post(
+  '/run',
+  hmacValidator.verify,
+  asyncHandler('runOverdueSweep')(overdueSweeperController.runSweep.bind(overdueSweeperController)),
+);
+
+export default router;
@@ -0,0 +1,93 @@
+import { Router } from 'express';
+
+import { powerAppsController } from '../../controllers/powerAppsController';
+import { hmacValidator } from '../../middlewares/hmacMiddleware';
+import { asyncHandler } from '../../utils/asyncHandler';
+
+const router = Router();
+
+// List Pending Outbox Messages
+router.get(
+  '/outbox',
+  hmacValidator.verify,
+  asyncHandler('listPowerAppsOutbox')(powerAppsController.listOutbox.bind(powerAppsController)),
+);
+
+// List Dead Letters
+router.get(
+  '/dead-letters',
+  hmacValidator.verify,
+  asyncHandler('listPowerAppsDeadLetters')(
+    powerAppsController.listDeadLetters.bind(powerAppsController),
+  ),
+);
+
+// Get Dead Letter
+router.get(
+  '/dead-letters/:messageId',
+  hmacValidator.verify,
+  asyncHandler('getPowerAppsDeadLetter')(
+    powerAppsController.getDeadLetter.bind(powerAppsController),
+  ),
+);
+
+// Retry Dead Letter
+router.post(
+  '/dead-letters/:messageId/retry',
+  hmacValidator.verify,
+  asyncHandler('retryPowerAppsDeadLetter')(
+    powerAppsController.retryDeadLetter.bind(powerAppsController),
+  ),
+);
+
+// Discard Dead Letter
+router.delete(
+  '/dead-letters/:messageId',
+  hmacValidator.verify,
+  asyncHandler('discardPowerAppsDeadLetter')(
+    powerAppsController.discardDeadLetter.bind(powerAppsController),
+  ),
+);
+
+// Get Event JSON Schema
+router.get(
+  '/event-schema',
+  hmacValidator.verify,
+  asyncHandler('getPowerAppsEventSchema')(
+    powerAppsController.getEventSchema.bind(powerAppsController),
+  ),
+);
+
+// List Destinations
+router.get(
+  '/destinations',
+  hmacValidator.verify,
+  asyncHandler('listPowerAppsDestinations')(
+    powerAppsController.listDestinations.bind(powerAppsController),
+  ),
+);
+
+// Get Routes
+router.get(
+  '/routes',
+  hmacValidator.verify,
+  asyncHandler('getPowerAppsRoutes')(powerAppsController.getRoutes.bind(powerAppsController)),
+);
+
+// Replace Routes
+router.put(
+  '/routes',
+  hmacValidator.verify,
+  asyncHandler('replacePowerAppsRoutes')(
+    powerAppsController.replaceRoutes.bind(powerAppsController),
+  ),
+);
+
+// Reset Routes to Defaults
+router.delete(
+  '/routes',
+  hmacValidator.verify,
+  asyncHandler('resetPowerAppsRoutes')(powerAppsController.resetRoutes.bind(powerAppsController)),
+);
+
+export default router;
@@ -6,34 +6,15 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { busboyUpload } from '../../middlewares/busboyMiddleware';
 import { proofController } from '../../controllers/proofController';
 import { hmacValidator } from '../../middlewares/hmacMiddleware';
+import { idempotencyGuard } from '../../middlewares/idempotencyMiddleware';
 import { FileInfo } from '../../middlewares/busboyMiddleware';
-import { performanceService } from '../../services/performanceService';
 import { loggerService } from '../../utils/logger';
+import { asyncHandler } from '../../utils/asyncHandler';
 
 const unlinkAsync = promisify(fs.unlink);
 
 const router = Router();
 
-// Enhanced async handler with performance monitoring
-const asyncHandler = (operationName: string) => {
-  return (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) =>
-    async (req: Request, res: Response, next: NextFunction) => {
-      return performanceService.measureAsync(`${operationName}.total`, async () => {
-        try {
-          await fn(req, res, next);
-        } catch (error) {
-          loggerService.logger.error(`Error in ${operationName}`, {
-            error: (error as Error).message,
-            url: req.originalUrl,
-            method: req.method,
-            ip: req.ip,
-          });
-          next(error);
-        }
-      });
-    };
-};
-
 // Optimized file upload configuration
 const uploadConfig = {
   limits: {
@@ -65,11 +46,21 @@ const cleanupFiles = async (files: FileInfo[]) => {
   await Promise.allSettled(cleanupPromises);
 };
 
+// Removes uploads when a later middleware, such as a replayed idempotent request, responds
+// without the upload handler running
+const cleanupUnhandledUploads = (req: Request, res: Response, next: NextFunction) => {
+  res.on('finish', () => {
+    if (!(req as any).uploadHandled) void cleanupFiles((req as any).files);
+  });
+  next();
+};
+
 // Optimized file upload handler with performance monitoring
 const fileUploadHandler = (operationName: string) => {
   return async (req: Request, res: Response, next: NextFunction) => {
     const files = (req as any).files as FileInfo[];
     const startTime = Date.now();
+    (req as any).uploadHandled = true;
 
     try {
       loggerService.logger.info(`Starting ${operationName}`, {
@@ -107,6 +98,9 @@ router.post(
   '/create-proof',
   hmacValidator.verify,
   busboyUpload(uploadConfig),
+  cleanupUnhandledUploads,
+  // After the upload is parsed, so the files and fields are part of the request fingerprint
+  idempotencyGuard.handle,
   asyncHandler('createProof')(fileUploadHandler('createProof')),
 );
 
@@ -114,6 +108,7 @@ router.post(
 router.post(
   '/lock-proof',
   hmacValidator.verify,
+  idempotencyGuard.handle,
   asyncHandler('lockProof')(proofController.lockProof.bind(proofController)),
 );
 
@@ -121,6 +116,7 @@ router.post(
 router.post(
   '/assign-owners',
   hmacValidator.verify,
+  idempotencyGuard.handle,
   asyncHandler('assignOwners')(proofController.addOwners.bind(proofController)),
 );
 
@@ -129,6 +125,9 @@ router.post(
   '/update-proof',
   hmacValidator.verify,
   busboyUpload(uploadConfig),
+  cleanupUnhandledUploads,
+  // After the upload is parsed, so the files and fields are part of the request fingerprint
+  idempotencyGuard.handle,
   asyncHandler('updateProof')(fileUploadHandler('updateProof')),
 );
 
@@ -136,15 +135,25 @@ router.post(
 router.post(
   '/assign-reviewers',
   hmacValidator.verify,
+  idempotencyGuard.handle,
   asyncHandler('assignReviewers')(
     proofController.replaceReviewersAndApprovers.bind(proofController),
   ),
 );
 
+// Replace Approver - Keeps reviewer state
+router.post(
+  '/replace-approver',
+  hmacValidator.verify,
+  idempotencyGuard.handle,
+  asyncHandler('replaceApprover')(proofController.replaceApprover.bind(proofController)),
+);
+
 // Update Due Dates - Optimized
 router.post(
   '/update-due-dates',
   hmacValidator.verify,
+  idempotencyGuard.handle,
   asyncHandler('updateDueDates')(proofController.updateDueDates.bind(proofController)),
 );
 
@@ -152,7 +161,72 @@ router.post(
 router.post(
   '/archive-proof',
   hmacValidator.verify,
+  idempotencyGuard.handle,
   asyncHandler('archiveProof')(proofController.archiveProof.bind(proofController)),
 );
 
+// Unlock Proof
+router.post(
+  '/unlock-proof',
+  hmacValidator.verify,
+  idempotencyGuard.handle,
+  asyncHandler('unlockProof')(proofController.unlockProof.bind(proofController)),
+);
+
+// Restore (Un-archive) Proof
+router.post(
+  '/restore-proof',
+  hmacValidator.verify,
+  idempotencyGuard.handle,
+  asyncHandler('restoreProof')(proofController.restoreProof.bind(proofController)),
+);
+
+// Update Proof Metadata - Name, tags, message to reviewers, due date, owners
+router.patch(
+  '/update-metadata',
+  hmacValidator.verify,
+  idempotencyGuard.handle,
+  asyncHandler('updateMetadata')(proofController.updateMetadata.bind(proofController)),
+);
+
+// Query Proofs - Read-only
+router.get(
+  '/proof/:proofId',
+  hmacValidator.verify,
+  asyncHandler('getProof')(proofController.getProof.bind(proofController)),
+);
+
+router.get(
+  '/proof/:proofId/transitions',
+  hmacValidator.verify,
+  asyncHandler('getProofTransitions')(proofController.getProofTransitions.bind(proofController)),
+);
+
+router.get(
+  '/batch',
+  hmacValidator.verify,
+  asyncHandler('getProofs')(proofController.getProofs.bind(proofController)),
+);
+
+router.get(
+  '/collection/:groupId',
+  hmacValidator.verify,
+  asyncHandler('getCollectionProofs')(proofController.getCollectionProofs.bind(proofController)),
+);
+
+// Export Decisions & Comments - JSON or CSV
+router.get(
+  '/feedback/proof/:proofId',
+  hmacValidator.verify,
+  asyncHandler('getProofFeedback')(proofController.getProofFeedback.bind(proofController)),
+);
+
+router.get(
+  '/feedback/collection/:groupId',
+  hmacValidator.verify,
+  asyncHandler('getCollectionFeedback')(
+    proofController.getCollectionFeedback.bind(proofController),
+  ),
+);
+
 export default router;
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+
+import { webhookEventController } from '../../controllers/webhookEventController';
+import { hmacValidator } from '../../middlewares/hmacMiddleware';
+import { asyncHandler } from '../../utils/asyncHandler';
+
+const router = Router();
+
+// List Webhook Events
+router.get(
+  '/',
+  hmacValidator.verify,
+  asyncHandler('listWebhookEvents')(
+    webhookEventController.listEvents.bind(webhookEventController),
+  ),
+);
+
+// Replay Webhook Events in a Time Range
+router.post(
+  '/replay',
+  hmacValidator.verify,
+  asyncHandler('replayWebhookEvents')(
+    webhookEventController.replayRange.bind(webhookEventController),
+  ),
+);
+
+// Get Webhook Event
+router.get(
+  '/:eventId',
+  hmacValidator.verify,
+  asyncHandler('getWebhookEvent')(webhookEventController.getEvent.bind(webhookEventController)),
+);
+
+// Replay Webhook Event
+router.post(
+  '/:eventId/replay',
+  hmacValidator.verify,
+  asyncHandler('replayWebhookEvent')(
+    webhookEventController.replayEvent.bind(webhookEventController),
+  ),
+);
+
+export default router;
@@ -3,15 +3,18 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { webhookController } from '../../controllers/webhookController';
 import { performanceService } from '../../services/performanceService';
 import { cacheService } from '../../services/cacheService';
+import { webhookHandlerService } from '../../services/webhookHandlerService';
 import { loggerService } from '../../utils/logger';
 
 const router = Router();
 
-// Performance monitoring wrapper for webhooks
-const withWebhookPerformanceMonitoring = (operationName: string) => {
+// Performance monitoring wrapper for webhooks, reported under the handler's name
+const withWebhookPerformanceMonitoring = () => {
   return async (req: Request, res: Response, next: NextFunction) => {
     const startTime = Date.now();
     const requestId = (req as any).requestId || `webhook-${Date.now()}`;
+    const handler = webhookHandlerService.get(String(req.params.eventType));
+    const operationName = handler?.name ?? 'unhandled';
 
     try {
       loggerService.logger.info(`Webhook ${operationName} started`, {
@@ -24,21 +27,7 @@ const withWebhookPerformanceMonitoring = (operationName: string) => {
 
       // Execute the webhook handler with performance monitoring
       await performanceService.measureAsync(`webhook.${operationName}`, async () => {
-        if (operationName === 'proofStatus') {
-          await webhookController.proofStatus(req, res);
-
-          // Log inproofing status specifically
-          if (req.body?.proof?.status === 'in_proofing') {
-            loggerService.logger.info('Inproofing status received', {
-              requestId,
-              proofId: req.body?.proof?.id,
-              proofName: req.body?.proof?.name,
-              dueDate: req.body?.proof?.dueDate,
-            });
-          }
-        } else if (operationName === 'proofOverdue') {
-          await webhookController.proofOverdue(req, res);
-        }
+        await webhookController.dispatch(req, res);
       });
 
       const duration = Date.now() - startTime;
@@ -91,9 +80,8 @@ export function rawBodySaver(req: Request, res: Response, buf: Buffer, encoding:
   }
 }
 
-// Optimized webhook routes with performance monitoring
-router.post('/proof-status', withWebhookPerformanceMonitoring('proofStatus'));
-router.post('/overdue', withWebhookPerformanceMonitoring('proofOverdue'));
+// Every webhook goes through the handler registry; unknown event types are stored as unhandled
+router.post('/:eventType', withWebhookPerformanceMonitoring());
 
 // Add health check for webhook service
 router.get('/health', async (req: Request, res: Response) => {
@@ -112,10 +100,11 @@ router.get('/health', async (req: Request, res: Response) => {
       performance: {
         metrics: performanceService.getSystemMetrics(),
       },
-      endpoints: {
-        proofStatus: '/api/v1/webhook/proof-status',
-        overdue: '/api/v1/webhook/overdue',
-      },
+      endpoints: Object.fromEntries(
+        webhookHandlerService
+          .list()
+          .map(handler => [handler.name, `/api/v1/webhook/${handler.eventType}`]),
+      ),
     };
 
     res.status(200).json(response);
@@ -0,0 +1,54 @@
+import { Router } from 'express';
+
+import { workflowTemplateController } from '../../controllers/workflowTemplateController';
+import { hmacValidator } from '../../middlewares/hmacMiddleware';
+import { asyncHandler } from '../../utils/asyncHandler';
+
+const router = Router();
+
+// List Workflow Templates
+router.get(
+  '/',
+  hmacValidator.verify,
+  asyncHandler('listWorkflowTemplates')(
+    workflowTemplateController.listTemplates.bind(workflowTemplateController),
+  ),
+);
+
+// Get Workflow Template
+router.get(
+  '/:name',
+  hmacValidator.verify,
+  asyncHandler('getWorkflowTemplate')(
+    workflowTemplateController.getTemplate.bind(workflowTemplateController),
+  ),
+);
+
+// Create Workflow Template
+router.post(
+  '/',
+  hmacValidator.verify,
+  asyncHandler('createWorkflowTemplate')(
+    workflowTemplateController.createTemplate.bind(workflowTemplateController),
+  ),
+);
+
+// Replace Workflow Template
+router.put(
+  '/:name',
+  hmacValidator.verify,
+  asyncHandler('updateWorkflowTemplate')(
+    workflowTemplateController.updateTemplate.bind(workflowTemplateController),
+  ),
+);
+
+// Delete Workflow Template
+router.delete(
+  '/:name',
+  hmacValidator.verify,
+  asyncHandler('deleteWorkflowTemplate')(
+    workflowTemplateController.deleteTemplate.bind(workflowTemplateController),
+  ),
+);
+
+export default router;
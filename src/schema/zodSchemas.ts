@@ -22,6 +22,83 @@ export const OverdueWebhookSchema = z.object({
     dueDate: z.string().optional(),
   }),
 });
+
+// Proof and trigger shared by the proof activity webhooks below
+const ActivityProofSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  status: z.string().optional(),
+});
+const ActivityWebhookSchema = z.object({
+  proof: ActivityProofSchema,
+  trigger: z.object({ email: z.string().email().optional() }).optional(),
+});
+
+// New comment on a proof; the trigger is the author
+export const CommentWebhookSchema = ActivityWebhookSchema.extend({
+  comment: z.object({
+    id: z.string().min(1),
+    text: z.string().optional(),
+    isTodo: z.boolean().optional(),
+  }),
+});
+
+// Decision made by one reviewer, before the proof status may change
+export const DecisionWebhookSchema = ActivityWebhookSchema.extend({
+  decision: z.object({
+    email: z.string().email(),
+    decision: z.string().min(1),
+    stepId: z.string().optional(),
+  }),
+});
+
+// New proof version; proof is the new version and previousProof the one it replaces
+export const VersionCreatedWebhookSchema = ActivityWebhookSchema.extend({
+  proof: ActivityProofSchema.extend({ version: z.number().int().positive().optional() }),
+  previousProof: z.object({ id: z.string().min(1) }).optional(),
+});
+
+// Workflow step completed
+export const StepCompletedWebhookSchema = ActivityWebhookSchema.extend({
+  step: z.object({
+    id: z.string().min(1),
+    name: z.string().optional(),
+    position: z.number().int().optional(),
+  }),
+});
+
+// Owners added to or removed from a proof
+export const OwnerChangedWebhookSchema = ActivityWebhookSchema.extend({
+  owners: z
+    .object({
+      added: z.array(z.string().email()).default([]),
+      removed: z.array(z.string().email()).default([]),
+    })
+    .refine(owners => owners.added.length + owners.removed.length > 0, {
+      message: 'At least one owner must be added or removed',
+    }),
+});
+
+// Workflow Step Schema for multi-step workflows and workflow templates
+export const WorkflowStepSchema = z
+  .object({
+    name: z.string().min(1, 'Step name cannot be empty').optional(),
+    reviewers: z.array(z.string().email('Invalid reviewer email')).default([]),
+    mandatory: z.boolean().default(false),
+    gatekeepers: z.array(z.string().email('Invalid gatekeeper email')).default([]),
+    dueDate: z
+      .string()
+      .refine(date => !isNaN(Date.parse(date)), { message: 'Invalid date' })
+      .optional(),
+    dueInDays: z.number().positive('Step due offset must be positive').optional(),
+  })
+  .refine(step => step.reviewers.length + step.gatekeepers.length > 0, {
+    message: 'Each workflow step needs at least one reviewer or gatekeeper',
+  })
+  .refine(step => !(step.dueDate && step.dueInDays), {
+    message: 'A workflow step takes either dueDate or dueInDays, not both',
+  });
+
 // Metadata Schema for ProofController.createProof
 export const MetadataSchema = z.object({
   proofName: z.string().optional().or(z.literal('')),
@@ -35,8 +112,10 @@ export const MetadataSchema = z.object({
     .optional(),
   workflow: z.object({
     name: z.string().min(1, 'Workflow name is required'),
+    template: z.string().min(1, 'Workflow template name is required').optional(),
     reviewers: z.array(z.string().email('Invalid reviewer email')).optional(),
     approver: z.array(z.string().email('Invalid approver email')).optional(),
+    steps: z.array(WorkflowStepSchema).optional(),
     stepDueDate: z
       .string()
       .refine(date => !isNaN(Date.parse(date)), { message: 'Invalid date' })
@@ -48,10 +127,210 @@ export const MetadataSchema = z.object({
 // Workflow Schema for createWorkflow
 export const WorkflowSchema = z.object({
   name: z.string().min(1, 'Workflow name is required').optional(),
+  template: z.string().min(1, 'Workflow template name is required').optional(),
   reviewers: z.array(z.string().email('Invalid reviewer email')).optional(),
   approver: z.array(z.string().email('Invalid approver email')).optional(),
+  steps: z.array(WorkflowStepSchema).optional(),
+  stepDueDate: z
+    .string()
+    .refine(date => !isNaN(Date.parse(date)), { message: 'Invalid date' })
+    .optional(),
+});
+
+// Workflow Template Schema for workflowTemplateService
+export const WorkflowTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(100),
+  description: z.string().optional(),
+  steps: z.array(WorkflowStepSchema).min(1, 'At least one workflow step is required'),
+  approver: z.array(z.string().email('Invalid approver email')).optional(),
+});
+
+// Template name from the route, for workflow template lookups
+export const WorkflowTemplateNameSchema = z.string().trim().min(1, 'Template name is required');
+
+// Case-insensitive regular expression used by the rule matchers
+const PatternSchema = (message: string) =>
+  z.string().refine(
+    pattern => {
+      try {
+        new RegExp(pattern, 'i');
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message },
+  );
+
+// Group Rule Schema for groupRuleService; a rule applies when every given criterion matches
+export const GroupRuleSchema = z.object({
+  name: z.string().trim().min(1, 'Rule name is required'),
+  match: z
+    .object({
+      // Case-insensitive regular expressions the proof name must all match
+      namePatterns: z.array(PatternSchema('Invalid name pattern')).default([]),
+      tags: z.array(z.string().min(1)).default([]),
+      collectionNames: z.array(z.string().min(1)).default([]),
+      documentTypes: z.array(z.enum(['markups', 'drafts', 'translated'])).default([]),
+    })
+    .default({}),
+  actions: z.object({
+    lock: z.boolean().default(false),
+    aggregate: z.enum(['approved_or_todos', 'exact', 'per_proof']).default('approved_or_todos'),
+    nextStage: z.string().min(1).nullable().default(null),
+  }),
+});
+
+// Ordered list of group rules; the first matching rule wins
+export const GroupRulesSchema = z
+  .array(GroupRuleSchema)
+  .refine(
+    rules => new Set(rules.map(rule => rule.name.toLowerCase())).size === rules.length,
+    { message: 'Rule names must be unique' },
+  );
+
+// PowerApps Route Schema for powerAppsRoutingService; a route applies when every given
+// criterion matches, and every matching route's destinations receive the event
+export const PowerAppsRouteSchema = z.object({
+  name: z.string().trim().min(1, 'Route name is required'),
+  match: z
+    .object({
+      statuses: z.array(z.string().min(1)).default([]),
+      reasons: z.array(z.string().min(1)).default([]),
+      // Case-insensitive regular expressions, any of which the collection name may match
+      collectionPatterns: z.array(PatternSchema('Invalid collection pattern')).default([]),
+      documentTypes: z.array(z.enum(['markups', 'drafts', 'translated'])).default([]),
+    })
+    .default({}),
+  destinations: z
+    .array(z.string().trim().min(1))
+    .min(1, 'At least one destination is required'),
+});
+
+// List of PowerApps routes; events fan out to the destinations of all matching routes
+export const PowerAppsRoutesSchema = z
+  .array(PowerAppsRouteSchema)
+  .refine(
+    routes => new Set(routes.map(route => route.name.toLowerCase())).size === routes.length,
+    { message: 'Route names must be unique' },
+  );
+
+// Version of the PowerApps event contract; bump when a change is not backwards compatible
+export const POWERAPPS_EVENT_SCHEMA_VERSION = 1;
+
+const PowerAppsEventBaseSchema = z.object({
+  schemaVersion: z.literal(POWERAPPS_EVENT_SCHEMA_VERSION),
+  groupName: z.string().nullable(),
+  status: z.string().min(1),
+  reason: z.string().min(1),
+});
+
+// Sent when every proof in a collection reached the evaluated status
+export const GroupStatusEventSchema = PowerAppsEventBaseSchema.extend({
+  eventType: z.literal('group_status'),
+  proofIds: z.array(z.string().min(1)).min(1),
+  proofNames: z.array(z.string()),
+  locked: z.boolean().nullable(),
+  submitToNextStage: z.string().min(1).optional(),
+});
+
+// Sent for the triggering proof when the rest of its collection has not caught up yet
+export const ProofLockedEventSchema = PowerAppsEventBaseSchema.extend({
+  eventType: z.literal('proof_locked'),
+  locked: z.boolean(),
+  lockedProofId: z.string().min(1),
+  lockedProofName: z.string(),
+});
+
+// Sent per proof when its group rule bypasses collection evaluation
+export const ProofReviewedEventSchema = PowerAppsEventBaseSchema.extend({
+  eventType: z.literal('proof_reviewed'),
+  reason: z.enum(['request_rework', 'approve']),
+  proofIds: z.array(z.string().min(1)).length(1),
+  proofNames: z.array(z.string()).length(1),
+  email: z.string(),
 });
 
+// Sent when a proof enters proofing and is not overdue
+export const ProofInProofingEventSchema = PowerAppsEventBaseSchema.extend({
+  eventType: z.literal('proof_in_proofing'),
+  reason: z.literal('in_proofing'),
+  proofIds: z.array(z.string().min(1)).length(1),
+  proofNames: z.array(z.string()).length(1),
+  email: z.string(),
+  dueDate: z.string().nullable(),
+});
+
+// Sent once per lead time and proof version as a proof's due date approaches
+export const DueSoonEventSchema = PowerAppsEventBaseSchema.extend({
+  eventType: z.literal('due_soon'),
+  reason: z.literal('due_soon'),
+  proofIds: z.array(z.string().min(1)).length(1),
+  proofNames: z.array(z.string()).length(1),
+  proofVersion: z.number().int().nullable(),
+  dueDate: z.string(),
+  leadTimeHours: z.number().positive(),
+  // Reviewers in the current workflow step who have not made a decision yet
+  pendingReviewers: z.array(z.object({ email: z.string(), role: z.string().nullable() })),
+});
+
+// Proof activity forwarded from PageProof webhooks; email is whoever triggered it
+const ProofActivityEventSchema = PowerAppsEventBaseSchema.extend({
+  proofIds: z.array(z.string().min(1)).length(1),
+  proofNames: z.array(z.string()).length(1),
+  email: z.string(),
+});
+
+export const CommentCreatedEventSchema = ProofActivityEventSchema.extend({
+  eventType: z.literal('comment_created'),
+  reason: z.literal('comment_created'),
+  commentId: z.string().min(1),
+  text: z.string().nullable(),
+  isTodo: z.boolean(),
+});
+
+export const DecisionMadeEventSchema = ProofActivityEventSchema.extend({
+  eventType: z.literal('decision_made'),
+  reason: z.literal('decision_made'),
+  decision: z.string().min(1),
+  stepId: z.string().nullable(),
+});
+
+export const VersionCreatedEventSchema = ProofActivityEventSchema.extend({
+  eventType: z.literal('version_created'),
+  reason: z.literal('version_created'),
+  version: z.number().int().nullable(),
+  previousProofId: z.string().nullable(),
+});
+
+export const StepCompletedEventSchema = ProofActivityEventSchema.extend({
+  eventType: z.literal('step_completed'),
+  reason: z.literal('step_completed'),
+  stepId: z.string().min(1),
+  stepName: z.string().nullable(),
+});
+
+export const OwnerChangedEventSchema = ProofActivityEventSchema.extend({
+  eventType: z.literal('owner_changed'),
+  reason: z.literal('owner_changed'),
+  ownersAdded: z.array(z.string()),
+  ownersRemoved: z.array(z.string()),
+});
+
+// Every event sent to PowerApps, discriminated by eventType
+export const PowerAppsEventSchema = z.discriminatedUnion('eventType', [
+  GroupStatusEventSchema,
+  ProofLockedEventSchema,
+  ProofReviewedEventSchema,
+  ProofInProofingEventSchema,
+  DueSoonEventSchema,
+  CommentCreatedEventSchema,
+  DecisionMadeEventSchema,
+  VersionCreatedEventSchema,
+  StepCompletedEventSchema,
+  OwnerChangedEventSchema,
+]);
+
 // ProofData Schema for PageProofService.createProofs
 export const ProofDataSchema = z.object({
   proofName: z.string().min(1, 'Proof name is required'),
@@ -82,9 +361,29 @@ export const ProofIdsSchema = z
 // ProofId Schema for loadDecisions, lockProofService, loadProofDetails, getGroupNameById
 export const ProofIdSchema = z.string().min(1, 'Proof ID is required');
 
+// Comma-separated proof IDs from the query string, for the batch proof query
+export const ProofIdsQuerySchema = z
+  .string({ required_error: 'proofIds query parameter is required' })
+  .transform(value =>
+    value
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean),
+  )
+  .pipe(ProofIdsSchema.max(100, 'At most 100 proof IDs can be queried at once'));
+
+// Export format for the decisions and comments export
+export const ExportFormatSchema = z.enum(['json', 'csv']).default('json');
+
+// JobId Schema for the async job status endpoint
+export const JobIdSchema = z.string().uuid('Invalid job ID');
+
 // OwnerEmail Schema for addOwners
 export const OwnerEmailSchema = z.string().email('Invalid owner email');
 
+// Optional email of whoever asked for a lock, unlock, archive or restore, kept in the proof history
+export const TriggerEmailSchema = z.string().email('Invalid trigger email').optional();
+
 // ExistingProofData Schema for updateProofVersion
 export const ExistingProofDataSchema = z.object({
   name: z.string().min(1, 'Proof name is required'),
@@ -106,12 +405,121 @@ export const DueDateUpdateSchema = z.array(
 // CollectionName Schema for ensureCollectionExists
 export const CollectionNameSchema = z.string().min(1, 'Collection name is required');
 
+// GroupId Schema for the collection endpoints
+export const GroupIdSchema = z.string().trim().min(1, 'Group ID is required');
+
+// RenameCollection Schema for renameCollection
+export const RenameCollectionSchema = z.object({
+  name: CollectionNameSchema,
+});
+
+// MoveProofs Schema for moveProofs; a null target only removes the proofs from their collection
+export const MoveProofsSchema = z.object({
+  proofIds: ProofIdsSchema,
+  targetGroupId: GroupIdSchema.nullable(),
+});
+
+// Condition query for the collection status preview
+export const GroupConditionSchema = z.enum(['approved', 'todos_requested', 'overdue']).optional();
+
+// Webhook event ID for the webhook event admin endpoints
+export const WebhookEventIdSchema = z.string().uuid('Invalid webhook event ID');
+
+// Proof activity webhooks that can be forwarded to PowerApps
+export const ProofActivityTypeSchema = z.enum([
+  'commentCreated',
+  'decisionMade',
+  'versionCreated',
+  'stepCompleted',
+  'ownerChanged',
+]);
+
+// Webhook event type from the URL, or the type a stored event was recorded under
+export const WebhookEventTypeSchema = z
+  .string()
+  .regex(/^[A-Za-z][\w.-]{0,63}$/, 'Invalid webhook event type');
+
+const IsoDateSchema = z.string().refine(date => !isNaN(Date.parse(date)), {
+  message: 'Invalid date',
+});
+
+// Query for listing stored webhook events
+// Latest outcome of a stored webhook event; pending if it was never processed
+const WebhookEventStatusSchema = z.enum([
+  'processed',
+  'failed',
+  'rejected',
+  'ignored',
+  'unhandled',
+  'pending',
+]);
+
+export const WebhookEventQuerySchema = z.object({
+  from: IsoDateSchema.optional(),
+  to: IsoDateSchema.optional(),
+  type: WebhookEventTypeSchema.optional(),
+  status: WebhookEventStatusSchema.optional(),
+  limit: z.coerce.number().int().positive().max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Time range of stored webhook events to replay; only failed and pending events by default
+export const WebhookReplayRangeSchema = z
+  .object({
+    from: IsoDateSchema,
+    to: IsoDateSchema,
+    type: WebhookEventTypeSchema.optional(),
+    statuses: z.array(WebhookEventStatusSchema).min(1).optional(),
+  })
+  .refine(range => Date.parse(range.from) <= Date.parse(range.to), {
+    message: 'from must not be after to',
+  });
+
+// Outbox message ID for the PowerApps dead-letter endpoints
+export const OutboxMessageIdSchema = z.string().uuid('Invalid outbox message ID');
+
+// Manual overdue sweep; dryRun defaults to the configured mode
+export const OverdueSweepRequestSchema = z.object({ dryRun: z.boolean().optional() }).strict();
+
+// Event in the Azure Event Grid schema
+export const EventGridEventSchema = z.object({
+  id: z.string().min(1),
+  eventType: z.string().min(1),
+  subject: z.string().optional(),
+  eventTime: z.string().optional(),
+  topic: z.string().optional(),
+  dataVersion: z.string().optional(),
+  data: z.unknown().optional(),
+});
+
+// Event in the CloudEvents 1.0 schema, structured mode
+export const CloudEventSchema = z.object({
+  specversion: z.literal('1.0'),
+  id: z.string().min(1),
+  type: z.string().min(1),
+  source: z.string().min(1),
+  subject: z.string().optional(),
+  time: z.string().optional(),
+  datacontenttype: z.string().optional(),
+  data: z.unknown().optional(),
+});
+
+// Event Grid delivers one event or a batch in either schema
+export const EventGridDeliverySchema = z
+  .union([
+    z.array(z.union([CloudEventSchema, EventGridEventSchema])).min(1),
+    CloudEventSchema,
+    EventGridEventSchema,
+  ])
+  .transform(delivery => (Array.isArray(delivery) ? delivery : [delivery]));
+
 // FileUpload Schema for uploadFiles
 export const FileUploadSchema = z.object({
   fileName: z.string().min(1, 'File name is required'),
   fileBuffer: z.instanceof(Buffer, { message: 'File buffer must be a Buffer instance' }),
 });
 
+// ReplaceApprover Schema for replaceApprover
 export const ReplaceApproverSchema = z.object({
   proofId: z.string().min(1),
   newApproverEmail: z.string().email(),
@@ -123,14 +531,53 @@ export const ArchiveProofSchema = z.union([
   z.array(z.string().min(1, 'Proof ID is required')).min(1, 'At least one proof ID is required'),
 ]);
 
+// Force flag for unlockProof, overriding the fully-approved group guard
+export const ForceFlagSchema = z.boolean().optional().default(false);
+
+// Partial proof metadata for updateMetadata; at least one field must be given
+export const ProofMetadataChangesSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Proof name cannot be empty').optional(),
+    tags: z.array(z.string().trim().min(1, 'Tags cannot be empty')).optional(),
+    messageToReviewers: z.string().optional(),
+    dueDate: z
+      .string()
+      .refine(date => !isNaN(Date.parse(date)), { message: 'Invalid date' })
+      .optional(),
+    // Full list of owner emails; owners not listed are removed
+    owners: z
+      .array(z.string().email('Invalid owner email'))
+      .min(1, 'A proof needs at least one owner')
+      .optional(),
+  })
+  .strict()
+  .refine(changes => Object.values(changes).some(value => value !== undefined), {
+    message: 'At least one metadata field to update is required',
+  });
+
+// UpdateMetadata Schema for updateMetadata
+export const UpdateMetadataSchema = z.object({
+  proofIds: ProofIdsSchema,
+  changes: ProofMetadataChangesSchema,
+});
+
 // TypeScript Types
 export type Metadata = z.infer<typeof MetadataSchema>;
 export type ProofData = z.infer<typeof ProofDataSchema>;
 export type FileUpload = z.infer<typeof FileUploadSchema>;
 export type Workflow = z.infer<typeof WorkflowSchema>;
+export type WorkflowStep = z.infer<typeof WorkflowStepSchema>;
+export type WorkflowTemplate = z.infer<typeof WorkflowTemplateSchema>;
+export type GroupRule = z.infer<typeof GroupRuleSchema>;
+export type PowerAppsRoute = z.infer<typeof PowerAppsRouteSchema>;
+export type PowerAppsEvent = z.infer<typeof PowerAppsEventSchema>;
 export type ExistingProofData = z.infer<typeof ExistingProofDataSchema>;
 export type ReplaceApproverSchema = z.infer<typeof ReplaceApproverSchema>;
 export type ProofWebhookSchema = z.infer<typeof ProofWebhookSchema>;
 export type OverdueWebhookSchema = z.infer<typeof OverdueWebhookSchema>;
+export type ProofActivityType = z.infer<typeof ProofActivityTypeSchema>;
+export type EventGridEvent = z.infer<typeof EventGridEventSchema>;
+export type CloudEvent = z.infer<typeof CloudEventSchema>;
 export type DueDateUpdateSchema = z.infer<typeof DueDateUpdateSchema>;
 export type ArchiveProofSchema = z.infer<typeof ArchiveProofSchema>;
+export type ProofMetadataChanges = z.infer<typeof ProofMetadataChangesSchema>;
@@ -0,0 +1,268 @@
+import { loggerService } from '../utils/logger';
+import { ErrorHandler } from '../utils/errorHandler';
+import config, { CircuitBreakerConfig } from '../config';
+
+import { performanceService } from './performanceService';
+
+// #region Types
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export type CircuitBreakerSettings = CircuitBreakerConfig;
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  calls: number;
+  failures: number;
+  failureRate: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  lastTransitionAt: string | null;
+  lastError: string | null;
+}
+
+// Decides whether an error means the dependency is unhealthy rather than the request was bad
+export type FailureClassifier = (error: unknown) => boolean;
+
+// #endregion
+
+export const CIRCUIT_OPEN_CODE = 'CIRCUIT_OPEN';
+
+// Network errors, timeouts, 5xx and 429 count against the dependency; other 4xx do not
+const isDependencyFailure: FailureClassifier = error => {
+  const err = error as any;
+  const status = err?.response?.status ?? err?.status ?? err?.statusCode;
+  return !(typeof status === 'number' && status < 500 && status !== 429);
+};
+
+export const isCircuitOpenError = (error: unknown): boolean =>
+  (error as any)?.code === CIRCUIT_OPEN_CODE;
+
+/**
+ * Circuit breaker for one downstream dependency. Closed, it lets calls through and tracks
+ * their outcomes over a rolling window; once enough calls fail it opens and rejects calls
+ * straight away with a 503. After the cool-down it goes half-open and lets a few trial calls
+ * through: a success closes it again, a failure reopens it.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: { at: number; failed: boolean }[] = [];
+  private openedAt: number | null = null;
+  private lastTransitionAt: number | null = null;
+  private lastError: string | null = null;
+  private halfOpenInFlight = 0;
+
+  constructor(
+    public readonly name: string,
+    private readonly settings: CircuitBreakerSettings,
+  ) {}
+
+  // #region State
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    if (from === to) return;
+
+    this.state = to;
+    this.lastTransitionAt = Date.now();
+    this.halfOpenInFlight = 0;
+    if (to === 'open') this.openedAt = Date.now();
+    if (to === 'closed') {
+      this.openedAt = null;
+      this.outcomes = [];
+    }
+
+    performanceService.recordMetric('circuit_breaker.transition', 1, 'count', {
+      breaker: this.name,
+      from,
+      to,
+    });
+    const log = to === 'closed' ? loggerService.logger.info : loggerService.logger.warn;
+    log.call(loggerService.logger, `Circuit breaker ${this.name} ${from} -> ${to}`, {
+      breaker: this.name,
+      lastError: this.lastError,
+    });
+  }
+
+  private getWindow(now: number = Date.now()): { at: number; failed: boolean }[] {
+    this.outcomes = this.outcomes.filter(outcome => now - outcome.at <= this.settings.windowMs);
+    return this.outcomes;
+  }
+
+  public getState(): CircuitState {
+    if (
+      this.state === 'open' &&
+      this.openedAt !== null &&
+      Date.now() - this.openedAt >= this.settings.coolDownMs
+    ) {
+      this.transition('half_open');
+    }
+    return this.state;
+  }
+
+  // When an open breaker will next let a trial call through
+  public getRetryAt(): number | null {
+    return this.state === 'open' && this.openedAt !== null
+      ? this.openedAt + this.settings.coolDownMs
+      : null;
+  }
+
+  // #endregion
+
+  // #region Outcomes
+
+  /**
+   * Reserves a call. Open breakers refuse; half-open breakers allow only a few trial calls.
+   * @returns false if the call must not be made
+   */
+  public tryAcquire(): boolean {
+    const state = this.getState();
+    if (state === 'open') return false;
+    if (state === 'half_open') {
+      if (this.halfOpenInFlight >= this.settings.halfOpenMaxCalls) return false;
+      this.halfOpenInFlight++;
+    }
+    return true;
+  }
+
+  public recordSuccess(): void {
+    if (this.state === 'half_open') {
+      this.transition('closed');
+      return;
+    }
+    this.getWindow().push({ at: Date.now(), failed: false });
+  }
+
+  public recordFailure(error: unknown): void {
+    this.lastError = error instanceof Error ? error.message : String(error);
+    if (this.state === 'half_open') {
+      this.transition('open');
+      return;
+    }
+
+    const window = this.getWindow();
+    window.push({ at: Date.now(), failed: true });
+    const failures = window.filter(outcome => outcome.failed).length;
+    if (
+      window.length >= this.settings.minimumCalls &&
+      failures / window.length >= this.settings.failureRateThreshold
+    ) {
+      this.transition('open');
+    }
+  }
+
+  // Error returned to callers while the breaker is open
+  public createOpenError(): Error {
+    const retryAt = this.getRetryAt();
+    const retryIn = retryAt ? Math.max(0, Math.ceil((retryAt - Date.now()) / 1000)) : null;
+    const error = ErrorHandler.createError(
+      503,
+      `${this.name} is temporarily unavailable${retryIn !== null ? `, retry in ${retryIn}s` : ''}`,
+      CIRCUIT_OPEN_CODE,
+    );
+    (error as any).retryAfter = retryIn;
+    return error;
+  }
+
+  /**
+   * Runs a call through the breaker.
+   * @param fn Call to the dependency
+   * @param isFailure Which errors count against the dependency
+   * @throws 503 CIRCUIT_OPEN without calling fn while the breaker is open
+   */
+  public async execute<T>(
+    fn: () => Promise<T>,
+    isFailure: FailureClassifier = isDependencyFailure,
+  ): Promise<T> {
+    if (!this.tryAcquire()) throw this.createOpenError();
+
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      this.recordError(error, isFailure);
+      throw error;
+    }
+  }
+
+  private recordError(error: unknown, isFailure: FailureClassifier): void {
+    if (isFailure(error)) this.recordFailure(error);
+    else this.recordSuccess();
+  }
+
+  /**
+   * Wraps an API client so every method call on its asynchronous namespaces, such as
+   * client.proofs.load, goes through the breaker. Other properties, including synchronous
+   * helpers on the client itself, are passed through untouched.
+   * @param namespaces Client properties whose methods all return promises
+   */
+  public wrap<T extends object>(target: T, namespaces: string[]): T {
+    return new Proxy(target, {
+      get: (obj, prop, receiver) => {
+        const value = Reflect.get(obj, prop, receiver);
+        if (typeof prop !== 'string' || !namespaces.includes(prop)) return value;
+        return value && typeof value === 'object' ? this.guardMethods(value) : value;
+      },
+    });
+  }
+
+  private guardMethods<T extends object>(namespace: T): T {
+    return new Proxy(namespace, {
+      get: (obj, prop, receiver) => {
+        const value = Reflect.get(obj, prop, receiver);
+        if (typeof value !== 'function') return value;
+        return (...args: unknown[]) => this.execute(() => value.apply(obj, args));
+      },
+    });
+  }
+
+  // #endregion
+
+  public snapshot(): CircuitBreakerSnapshot {
+    const state = this.getState();
+    const window = this.getWindow();
+    const failures = window.filter(outcome => outcome.failed).length;
+    const retryAt = this.getRetryAt();
+    return {
+      name: this.name,
+      state,
+      calls: window.length,
+      failures,
+      failureRate: window.length ? failures / window.length : 0,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retryAt: retryAt ? new Date(retryAt).toISOString() : null,
+      lastTransitionAt: this.lastTransitionAt
+        ? new Date(this.lastTransitionAt).toISOString()
+        : null,
+      lastError: this.lastError,
+    };
+  }
+}
+
+/**
+ * Registry holding one circuit breaker per downstream dependency, e.g. "pageproof" or
+ * "powerapps:<destination>", so their state can be reported in one place.
+ */
+class CircuitBreakerService {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  public get(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, config.circuitBreaker);
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  public getSnapshots(): CircuitBreakerSnapshot[] {
+    return [...this.breakers.values()]
+      .map(breaker => breaker.snapshot())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+export const circuitBreakerService = new CircuitBreakerService();
+export default circuitBreakerService;
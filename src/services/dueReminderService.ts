@@ -0,0 +1,166 @@
+import Proof from '@pageproof/sdk/lib/models/Proof';
+
+import { loggerService } from '../utils/logger';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { POWERAPPS_EVENT_SCHEMA_VERSION, PowerAppsEvent } from '../schema/zodSchemas';
+import config from '../config';
+
+import PageProofService, { ProofSummary } from './proofService';
+import { PowerAppsService } from './powerAppsService';
+import { groupRuleService } from './groupRuleService';
+
+// #region Types
+
+export interface PendingReviewer {
+  email: string;
+  role: string | null;
+}
+
+export interface DueReminder {
+  proofId: string;
+  proofName: string;
+  proofVersion: number | null;
+  collectionId: string;
+  collectionName: string | null;
+  dueDate: string;
+  leadTimeHours: number;
+  pendingReviewers: PendingReviewer[];
+  outcome: 'sent' | 'dry_run' | 'failed';
+  error: string | null;
+}
+
+interface ReminderRecord {
+  proofId: string;
+  proofVersion: number | null;
+  leadTimeHours: number;
+  dueDate: string;
+  sentAt: string;
+}
+
+// #endregion
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Sends due_soon events to PowerApps as a proof's due date approaches, once for each
+ * configured lead time and proof version. Sent reminders are kept in data/due-reminders.json
+ * so a restart does not repeat them. The overdue sweeper calls this for every proof still
+ * under review on each pass.
+ */
+class DueReminderService {
+  private records = new JsonFileStore<ReminderRecord>('due-reminders.json');
+
+  private getKey(proofId: string, proofVersion: number | null, leadTimeHours: number): string {
+    return `${proofId}:v${proofVersion ?? 0}:${leadTimeHours}h`;
+  }
+
+  // Lead times, shortest first, whose window the due date has entered
+  private getReachedLeadTimes(dueDate: Date | string | null, now: number): number[] {
+    const msLeft = dueDate ? new Date(dueDate).getTime() - now : NaN;
+    if (isNaN(msLeft) || msLeft <= 0) return [];
+    return [...config.dueReminders.leadTimes]
+      .sort((a, b) => a - b)
+      .filter(hours => msLeft <= hours * HOUR_MS);
+  }
+
+  // Reviewers of the first unfinished workflow step who have not decided yet
+  private getPendingReviewers(summary: ProofSummary): PendingReviewer[] {
+    const step = [...summary.workflow.steps]
+      .sort((a, b) => a.position - b.position)
+      .find(candidate => !candidate.completeDate);
+    return (step?.users ?? [])
+      .filter(user => !user.decisionDate)
+      .map(user => ({ email: user.email, role: user.role }));
+  }
+
+  /**
+   * Sends a reminder for a proof if its due date entered a lead time it has not been reminded
+   * for. When several lead times are reached at once only the shortest is sent.
+   * @param proof SDK proof from the collection listing
+   * @param collection Collection the proof belongs to
+   * @param dryRun Report the reminder without sending or recording it
+   * @returns The reminder, or null if none is due
+   */
+  public async remind(
+    proof: Pick<Proof, 'id' | 'name' | 'dueDate'>,
+    collection: { id: string; name: string | null },
+    dryRun: boolean,
+    now: number = Date.now(),
+  ): Promise<DueReminder | null> {
+    const reached = this.getReachedLeadTimes(proof.dueDate ?? null, now);
+    if (!reached.length) return null;
+
+    // The summary carries the due date as an ISO string, as the due_soon event requires
+    const summary = await PageProofService.getProofSummary(proof.id);
+    if (!summary?.dueDate) return null;
+
+    const leadTimeHours = reached[0];
+    if (await this.records.get(this.getKey(proof.id, summary.version, leadTimeHours))) {
+      return null;
+    }
+
+    const reminder: DueReminder = {
+      proofId: proof.id,
+      proofName: summary.name ?? proof.name ?? 'N/A',
+      proofVersion: summary.version,
+      collectionId: collection.id,
+      collectionName: collection.name ?? null,
+      dueDate: summary.dueDate,
+      leadTimeHours,
+      pendingReviewers: this.getPendingReviewers(summary),
+      outcome: 'dry_run',
+      error: null,
+    };
+    if (dryRun) return reminder;
+
+    const event: PowerAppsEvent = {
+      eventType: 'due_soon',
+      schemaVersion: POWERAPPS_EVENT_SCHEMA_VERSION,
+      groupName: reminder.collectionName,
+      status: summary.status,
+      reason: 'due_soon',
+      proofIds: [reminder.proofId],
+      proofNames: [reminder.proofName],
+      proofVersion: reminder.proofVersion,
+      dueDate: reminder.dueDate,
+      leadTimeHours,
+      pendingReviewers: reminder.pendingReviewers,
+    };
+    const sent = await PowerAppsService.sendToPowerApps(event, {
+      documentType: await groupRuleService.getDocumentType(proof.id),
+    });
+    if (!sent.success) {
+      reminder.outcome = 'failed';
+      reminder.error = sent.error ?? 'Failed to queue due_soon event';
+      loggerService.logger.error('Due date reminder failed', {
+        proofId: proof.id,
+        leadTimeHours,
+        error: reminder.error,
+      });
+      return reminder;
+    }
+
+    // Longer lead times reached at the same time are covered by this reminder
+    const sentAt = new Date().toISOString();
+    for (const hours of reached) {
+      await this.records.set(this.getKey(proof.id, summary.version, hours), {
+        proofId: proof.id,
+        proofVersion: summary.version,
+        leadTimeHours: hours,
+        dueDate: reminder.dueDate,
+        sentAt,
+      });
+    }
+    reminder.outcome = 'sent';
+    loggerService.logger.info('Due date reminder sent', {
+      proofId: proof.id,
+      proofVersion: summary.version,
+      leadTimeHours,
+      pendingReviewers: reminder.pendingReviewers.length,
+    });
+    return reminder;
+  }
+}
+
+export const dueReminderService = new DueReminderService();
+export default dueReminderService;
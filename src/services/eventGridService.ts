@@ -0,0 +1,277 @@
+import { loggerService } from '../utils/logger';
+import { ErrorHandler } from '../utils/errorHandler';
+import { CloudEvent, EventGridDeliverySchema, EventGridEvent } from '../schema/zodSchemas';
+
+import { webhookEventService } from './webhookEventService';
+import { webhookGuardService } from './webhookGuardService';
+import { webhookHandlerService } from './webhookHandlerService';
+import { isCircuitOpenError } from './circuitBreakerService';
+import { performanceService } from './performanceService';
+
+// #region Types
+
+// What Event Grid does with a delivery after receiving the response
+export type EventGridOutcome = 'delivered' | 'retry' | 'dead_letter';
+
+export interface ReceivedEvent {
+  id: string;
+  type: string;
+  schema: 'eventgrid' | 'cloudevents';
+  data: unknown;
+}
+
+export interface EventResult {
+  id: string;
+  type: string;
+  handler: string | null;
+  statusCode: number;
+  message: string | null;
+  error: string | null;
+}
+
+export interface EventGridDelivery {
+  statusCode: number;
+  outcome: EventGridOutcome;
+  // Set when the delivery was the subscription validation handshake
+  validationResponse?: string;
+  events: EventResult[];
+}
+
+// Runs before each received event, e.g. eventGridTestUtils failing events outside production
+export interface EventGridSimulationHook {
+  isEnabled(): boolean;
+  // Throws to fail the event with the error's status code
+  simulate(eventType: string): Promise<void>;
+  getStats(): unknown;
+}
+
+// #endregion
+
+export const SUBSCRIPTION_VALIDATION_EVENT = 'Microsoft.EventGrid.SubscriptionValidationEvent';
+
+// Event Grid event types and the webhook handler each one is processed by
+const EVENT_TYPE_HANDLERS: Record<string, string> = {
+  'PageProof.ProofStatusChanged': 'proof-status',
+  'PageProof.ProofOverdue': 'overdue',
+  'PageProof.CommentCreated': 'comment-created',
+  'PageProof.DecisionMade': 'decision-made',
+  'PageProof.VersionCreated': 'version-created',
+  'PageProof.StepCompleted': 'step-completed',
+  'PageProof.OwnerChanged': 'owner-changed',
+};
+
+// Event Grid dead-letters these without retrying; every other failure is retried
+const DEAD_LETTER_STATUSES = [400, 403, 413];
+
+export const toEventGridOutcome = (statusCode: number): EventGridOutcome => {
+  if (statusCode >= 200 && statusCode < 300) return 'delivered';
+  return DEAD_LETTER_STATUSES.includes(statusCode) ? 'dead_letter' : 'retry';
+};
+
+// Failures that may succeed later; other 4xx, such as a proof without a collection, never will
+const isTransient = (statusCode: number): boolean =>
+  statusCode >= 500 || statusCode === 408 || statusCode === 429;
+
+const isCloudEvent = (event: CloudEvent | EventGridEvent): event is CloudEvent =>
+  'specversion' in event;
+
+/**
+ * Receives Azure Event Grid deliveries in the Event Grid or CloudEvents 1.0 schema and runs
+ * each event through the webhook handler mapped to its type, storing it like a PageProof
+ * webhook. The response status tells Event Grid what to do with the delivery: transient
+ * failures (5xx, timeouts, open circuit breakers) are retried, events that can never be
+ * processed are answered with 400 so they are dead-lettered, and event types without a
+ * handler are stored as unhandled and acknowledged.
+ */
+class EventGridService {
+  private counters = { deliveries: 0, delivered: 0, retried: 0, deadLettered: 0, unhandled: 0 };
+  private simulation: EventGridSimulationHook | null = null;
+  private lastDeliveryAt: string | null = null;
+
+  // #region Parsing
+
+  /**
+   * Normalises a delivery body into its events.
+   * @throws 400 if the body is not an Event Grid or CloudEvents event or batch
+   */
+  public parse(body: unknown): ReceivedEvent[] {
+    const parsed = EventGridDeliverySchema.safeParse(body);
+    if (!parsed.success) {
+      throw ErrorHandler.createError(400, 'Invalid Event Grid delivery', 'INVALID_EVENT');
+    }
+    return parsed.data.map(event =>
+      isCloudEvent(event)
+        ? { id: event.id, type: event.type, schema: 'cloudevents', data: event.data }
+        : { id: event.id, type: event.eventType, schema: 'eventgrid', data: event.data },
+    );
+  }
+
+  // Validation code of a subscription validation handshake, or null for normal deliveries
+  private getValidationCode(events: ReceivedEvent[]): string | null {
+    const validation = events.find(event => event.type === SUBSCRIPTION_VALIDATION_EVENT);
+    const code = (validation?.data as { validationCode?: unknown } | undefined)?.validationCode;
+    return typeof code === 'string' ? code : null;
+  }
+
+  // #endregion
+
+  // #region Delivery
+
+  /**
+   * Handles one delivery, answering the validation handshake or processing each event.
+   * @param body Parsed request body
+   * @param headers Request headers, stored with each event
+   * @throws 400 if the body is not a valid delivery
+   */
+  public async receive(
+    body: unknown,
+    headers: Record<string, unknown>,
+  ): Promise<EventGridDelivery> {
+    const events = this.parse(body);
+
+    const validationCode = this.getValidationCode(events);
+    if (validationCode) {
+      loggerService.logger.info('Event Grid subscription validation received');
+      return {
+        statusCode: 200,
+        outcome: 'delivered',
+        validationResponse: validationCode,
+        events: [],
+      };
+    }
+
+    const results: EventResult[] = [];
+    for (const event of events) {
+      results.push(await this.processEvent(event, headers));
+    }
+
+    const statusCode = this.getDeliveryStatus(results);
+    const outcome = toEventGridOutcome(statusCode);
+    this.count(outcome);
+    performanceService.recordMetric('eventgrid.delivery', 1, 'count', {
+      outcome,
+      statusCode: statusCode.toString(),
+    });
+    return { statusCode, outcome, events: results };
+  }
+
+  /**
+   * One status for the whole delivery: a transient failure retries the batch (events already
+   * processed are then dropped as duplicates), any other failure dead-letters it with a 400.
+   */
+  private getDeliveryStatus(results: EventResult[]): number {
+    const transient = results.find(result => isTransient(result.statusCode));
+    if (transient) return transient.statusCode;
+    return results.some(result => result.statusCode >= 300) ? 400 : 200;
+  }
+
+  private count(outcome: EventGridOutcome): void {
+    this.counters.deliveries++;
+    if (outcome === 'delivered') this.counters.delivered++;
+    if (outcome === 'retry') this.counters.retried++;
+    if (outcome === 'dead_letter') this.counters.deadLettered++;
+    this.lastDeliveryAt = new Date().toISOString();
+  }
+
+  private async processEvent(
+    event: ReceivedEvent,
+    headers: Record<string, unknown>,
+  ): Promise<EventResult> {
+    const result: EventResult = {
+      id: event.id,
+      type: event.type,
+      handler: null,
+      statusCode: 200,
+      message: null,
+      error: null,
+    };
+    let eventId: string | null = null;
+    let deliveryKey: string | null = null;
+
+    try {
+      if (this.simulation?.isEnabled()) await this.simulation.simulate(event.type);
+
+      const handler = webhookHandlerService.get(EVENT_TYPE_HANDLERS[event.type]);
+      const rawBody = JSON.stringify(event.data ?? null);
+      const parsed = handler?.schema.safeParse(event.data);
+      // Authenticated by the subscription key rather than a PageProof signature
+      eventId = await webhookEventService.recordReceived(
+        handler?.name ?? event.type,
+        rawBody,
+        headers,
+        {
+          signatureValid: true,
+          bodyValid: !parsed || parsed.success,
+          errors: parsed && !parsed.success ? parsed.error.errors.map(e => e.message) : [],
+        },
+      );
+
+      if (!handler) {
+        this.counters.unhandled++;
+        result.message = `No handler for Event Grid event type ${event.type}, event stored`;
+        await webhookEventService.recordOutcome(eventId, 202, null, { unhandled: true });
+        return result;
+      }
+      result.handler = handler.name;
+      if (!parsed!.success) {
+        result.statusCode = 400;
+        result.error = 'Invalid event data';
+        await webhookEventService.recordOutcome(eventId, 400, result.error);
+        return result;
+      }
+
+      // Event Grid redelivers with the same event ID
+      const proof = (event.data as any)?.proof;
+      const verdict = await webhookGuardService.screen(
+        `eventgrid:${event.id}`,
+        proof?.id,
+        proof?.status,
+        handler.recordStatus,
+      );
+      if (verdict.action !== 'process') {
+        result.message =
+          verdict.action === 'duplicate' ? 'Duplicate delivery ignored' : 'Stale status ignored';
+        await webhookEventService.recordOutcome(eventId, 200, result.message, { ignored: true });
+        return result;
+      }
+      deliveryKey = verdict.deliveryKey;
+
+      const processed = await handler.process(event.data);
+      result.statusCode = processed.status;
+      result.message = processed.message ?? null;
+      result.error = processed.error;
+      await webhookEventService.recordOutcome(eventId, processed.status, processed.error);
+      await webhookGuardService.completeDelivery(deliveryKey, processed.status);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      result.statusCode = isCircuitOpenError(err) ? 503 : ((err as any).statusCode ?? 500);
+      result.error = err.message;
+      await webhookEventService.recordOutcome(eventId, result.statusCode, result.error);
+      if (deliveryKey) await webhookGuardService.completeDelivery(deliveryKey, result.statusCode);
+    }
+
+    if (result.statusCode >= 300) {
+      loggerService.logger.warn('Event Grid event failed', { ...result });
+    }
+    return result;
+  }
+
+  // #endregion
+
+  // Installs, or removes with null, the hook run before each received event
+  public setSimulation(hook: EventGridSimulationHook | null): void {
+    this.simulation = hook;
+  }
+
+  public getStatus() {
+    return {
+      ...this.counters,
+      lastDeliveryAt: this.lastDeliveryAt,
+      eventTypes: EVENT_TYPE_HANDLERS,
+      simulation: this.simulation?.isEnabled() ? this.simulation.getStats() : null,
+    };
+  }
+}
+
+export const eventGridService = new EventGridService();
+export default eventGridService;
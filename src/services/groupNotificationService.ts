@@ -0,0 +1,79 @@
+import { loggerService } from '../utils/logger';
+import { JsonFileStore } from '../utils/jsonFileStore';
+
+import { powerAppsOutboxService } from './powerAppsOutboxService';
+
+export interface GroupNotification {
+  groupId: string;
+  groupName: string | null;
+  proofIds: string[];
+  sentAt: string;
+}
+
+// Approval event still in the outbox, with the IDs of its messages
+interface PendingNotification extends Omit<GroupNotification, 'sentAt'> {
+  messageIds: string[];
+}
+
+/**
+ * Remembers which collections have been reported to PowerApps as fully approved,
+ * so later operations (e.g. unlocking) can tell the downstream flow has already moved on.
+ * A collection only counts as reported once the outbox delivers one of its messages; an
+ * event that is still queued or dead-lettered does not.
+ */
+class GroupNotificationService {
+  private approvedGroups = new JsonFileStore<GroupNotification>('approved-groups.json');
+  private pendingGroups = new JsonFileStore<PendingNotification>('pending-approved-groups.json');
+
+  constructor() {
+    powerAppsOutboxService.onDelivered(message => this.confirmDelivered(message.id));
+  }
+
+  /**
+   * Holds a fully approved collection until the outbox delivers its event. A newer approval
+   * of the same collection replaces one still waiting.
+   * @param messageIds Outbox message IDs returned by PowerAppsService.sendToPowerApps
+   */
+  public async recordFullyApproved(
+    groupId: string,
+    groupName: string | null,
+    proofIds: string[],
+    messageIds: string[],
+  ): Promise<void> {
+    try {
+      await this.pendingGroups.set(groupId, { groupId, groupName, proofIds, messageIds });
+    } catch (error) {
+      loggerService.logger.error('Failed to record approved group notification', {
+        groupId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  // Marks the collection whose approval event was delivered as reported
+  private async confirmDelivered(messageId: string): Promise<void> {
+    const pending = (await this.pendingGroups.values()).find(notification =>
+      notification.messageIds.includes(messageId),
+    );
+    if (!pending) return;
+
+    const { messageIds, ...notification } = pending;
+    await this.approvedGroups.set(pending.groupId, {
+      ...notification,
+      sentAt: new Date().toISOString(),
+    });
+    await this.pendingGroups.delete(pending.groupId);
+    loggerService.logger.info('Approved group notification delivered', {
+      groupId: pending.groupId,
+      messageId,
+      messages: messageIds.length,
+    });
+  }
+
+  public async getFullyApproved(groupId: string): Promise<GroupNotification | null> {
+    return this.approvedGroups.get(groupId);
+  }
+}
+
+export const groupNotificationService = new GroupNotificationService();
+export default groupNotificationService;
@@ -0,0 +1,137 @@
+import { loggerService } from '../utils/logger';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { GroupRule, GroupRulesSchema } from '../schema/zodSchemas';
+
+// What is known about a proof when its rule is resolved
+export interface RuleContext {
+  proofName: string;
+  tags?: string[];
+  collectionName?: string | null;
+  documentType?: string | null;
+}
+
+interface StoredRules {
+  rules: GroupRule[];
+  updatedAt: string;
+}
+
+const DEFAULT_NEXT_STAGE = 'pv_team_review';
+
+// Mirrors the original behavior: only "markups & reference" proofs drive group evaluation
+const DEFAULT_RULES: GroupRule[] = GroupRulesSchema.parse([
+  {
+    name: 'markups-and-reference',
+    match: { namePatterns: ['markups', 'reference'] },
+    actions: { lock: true, aggregate: 'approved_or_todos', nextStage: DEFAULT_NEXT_STAGE },
+  },
+  {
+    name: 'default',
+    actions: { lock: true, aggregate: 'per_proof', nextStage: DEFAULT_NEXT_STAGE },
+  },
+]);
+
+// Used when no configured rule matches, including a configured list without a catch-all
+const FALLBACK_RULE = DEFAULT_RULES[DEFAULT_RULES.length - 1];
+
+/**
+ * Declarative rules deciding, per proof, whether webhook events lock it, how its collection
+ * is evaluated and which next stage is sent to PowerApps. Rules are kept in
+ * data/group-rules.json and can be edited there or through the group rules endpoint.
+ */
+class GroupRuleService {
+  private store = new JsonFileStore<StoredRules>('group-rules.json');
+  // Document types are not stored in PageProof, so they are remembered at creation time
+  private documentTypes = new JsonFileStore<string>('proof-document-types.json');
+
+  // #region Rule Configuration
+
+  public async getRules(): Promise<{ rules: GroupRule[]; source: 'configured' | 'default' }> {
+    const stored = await this.store.get('rules');
+    return stored
+      ? { rules: stored.rules, source: 'configured' }
+      : { rules: DEFAULT_RULES, source: 'default' };
+  }
+
+  /**
+   * Replaces the configured rules.
+   * @param rules Ordered rules; the first matching rule wins
+   */
+  public async setRules(rules: GroupRule[]): Promise<GroupRule[]> {
+    const parsed = GroupRulesSchema.parse(rules);
+    await this.store.set('rules', { rules: parsed, updatedAt: new Date().toISOString() });
+    loggerService.logger.info('Group rules updated', { rules: parsed.map(rule => rule.name) });
+    return parsed;
+  }
+
+  // Drops the configured rules so the defaults apply again
+  public async resetRules(): Promise<void> {
+    await this.store.delete('rules');
+    loggerService.logger.info('Group rules reset to defaults');
+  }
+
+  // #endregion
+
+  // #region Rule Resolution
+
+  private matches(rule: GroupRule, context: RuleContext): boolean {
+    const { namePatterns, tags, collectionNames, documentTypes } = rule.match;
+    const lower = (values: string[]) => values.map(value => value.toLowerCase());
+
+    if (!namePatterns.every(pattern => new RegExp(pattern, 'i').test(context.proofName))) {
+      return false;
+    }
+    if (tags.length) {
+      const proofTags = lower(context.tags ?? []);
+      if (!lower(tags).some(tag => proofTags.includes(tag))) return false;
+    }
+    if (collectionNames.length) {
+      const collection = context.collectionName?.trim().toLowerCase();
+      if (!collection || !lower(collectionNames).includes(collection)) return false;
+    }
+    if (documentTypes.length) {
+      if (!context.documentType || !(documentTypes as string[]).includes(context.documentType)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Finds the first rule matching a proof, falling back to the default behavior.
+   * @param context Proof name, tags, collection name and document type
+   */
+  public async resolveRule(context: RuleContext): Promise<GroupRule> {
+    const { rules } = await this.getRules();
+    const rule = rules.find(candidate => this.matches(candidate, context)) ?? FALLBACK_RULE;
+    loggerService.logger.debug('Group rule resolved', {
+      proofName: context.proofName,
+      rule: rule.name,
+    });
+    return rule;
+  }
+
+  // #endregion
+
+  // #region Document Types
+
+  public async recordDocumentType(proofId: string, documentType: string): Promise<void> {
+    try {
+      await this.documentTypes.set(proofId, documentType);
+    } catch (error) {
+      loggerService.logger.error('Failed to record proof document type', {
+        proofId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  public async getDocumentType(proofId: string): Promise<string | null> {
+    return this.documentTypes.get(proofId);
+  }
+
+  // #endregion
+}
+
+export { DEFAULT_NEXT_STAGE };
+export const groupRuleService = new GroupRuleService();
+export default groupRuleService;
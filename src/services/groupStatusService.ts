@@ -0,0 +1,230 @@
+import { GroupRule, POWERAPPS_EVENT_SCHEMA_VERSION, PowerAppsEvent } from '../schema/zodSchemas';
+
+import PageProofService from './proofService';
+import { DEFAULT_NEXT_STAGE, groupRuleService } from './groupRuleService';
+
+export enum ProofStatus {
+  Approved = 'approved',
+  TodosRequested = 'todos_requested',
+  InProofing = 'in_proofing',
+  WithApprover = 'with_approver',
+  New = 'new',
+  Active = 'active',
+  Overdue = 'overdue',
+  Locked = 'locked',
+  Archived = 'archived',
+}
+
+// Spellings PageProof has sent for a status besides the enum value
+const STATUS_ALIASES: Record<string, ProofStatus> = {
+  'todos-requested': ProofStatus.TodosRequested,
+};
+
+export type GroupCondition = ProofStatus | 'approved_or_todos';
+
+export interface TriggeringProof {
+  id: string;
+  name: string;
+  reason: string;
+  locked: boolean;
+}
+
+// How a group is evaluated, taken from the proof's group rule
+export interface EvaluationOptions {
+  // Only match groups whose proofs all have the condition, never a mix of approved and todos
+  exact?: boolean;
+  nextStage?: string | null;
+}
+
+export interface GroupProofStatus {
+  proofId: string;
+  proofName: string;
+  status: string;
+  effectiveStatus: string;
+  dueDate: string | null;
+}
+
+export interface GroupStatusEvaluation {
+  groupId: string;
+  groupName: string | null;
+  condition: GroupCondition;
+  proofs: GroupProofStatus[];
+  allMatch: boolean;
+  matchStatus: GroupCondition;
+  allApproved: boolean;
+  // Payload for PowerApps, or null when the group state does not warrant an event
+  event: PowerAppsEvent | null;
+}
+
+export const isOverdue = (dueDate: string | null | undefined): boolean =>
+  !!dueDate && !isNaN(new Date(dueDate).getTime()) && new Date(dueDate).getTime() < Date.now();
+
+// Maps alternative spellings onto their ProofStatus value; other statuses pass through
+export const normalizeProofStatus = (status: string | null | undefined): string | undefined =>
+  status ? (STATUS_ALIASES[status] ?? status) : undefined;
+
+// Matching mode and next stage a group rule sets for group evaluations
+export const toEvaluationOptions = (rule: GroupRule): EvaluationOptions => ({
+  exact: rule.actions.aggregate === 'exact',
+  nextStage: rule.actions.nextStage,
+});
+
+const isTodos = (status: string): boolean =>
+  normalizeProofStatus(status) === ProofStatus.TodosRequested;
+
+/**
+ * Decides whether the proofs of a collection together meet a status condition and which
+ * PowerApps event that implies. Shared by the webhook flow, which sends the event, and the
+ * collection status endpoint, which only reports it.
+ */
+class GroupStatusService {
+  // Proofs still in review past their due date count as overdue
+  public getEffectiveStatus(proof: any): string {
+    if (
+      (proof.state === ProofStatus.InProofing || proof.state === ProofStatus.Active) &&
+      isOverdue(proof.dueDate)
+    )
+      return ProofStatus.Overdue;
+    return proof.state;
+  }
+
+  /**
+   * Evaluates already loaded proofs of a collection against a condition.
+   * @param groupId Group ID
+   * @param groupName Group name sent to PowerApps
+   * @param proofs Proofs in the group
+   * @param condition Condition raised by the triggering proof
+   * @param triggeringProof Proof whose change prompted the evaluation; needed for the mixed event
+   * @param options Matching mode and next stage from the group rule
+   */
+  public evaluate(
+    groupId: string,
+    groupName: string | null,
+    proofs: any[],
+    condition: GroupCondition,
+    triggeringProof?: TriggeringProof,
+    options: EvaluationOptions = {},
+  ): GroupStatusEvaluation {
+    const nextStage = options.nextStage === undefined ? DEFAULT_NEXT_STAGE : options.nextStage;
+    const proofStatuses: GroupProofStatus[] = proofs.map(p => ({
+      proofId: p.id,
+      proofName: p.name,
+      status: p.state,
+      effectiveStatus: this.getEffectiveStatus(p),
+      dueDate: p.dueDate ?? null,
+    }));
+    const statuses = proofStatuses.map(p => p.effectiveStatus);
+
+    let allMatch = false;
+    let matchStatus: GroupCondition = condition;
+
+    if (!statuses.length) {
+      // An empty group never matches
+    } else if (condition === ProofStatus.Overdue) {
+      allMatch = statuses.every(s => s === ProofStatus.Overdue);
+    } else if (!options.exact && statuses.every(s => s === ProofStatus.Approved || isTodos(s))) {
+      allMatch = true;
+      matchStatus = 'approved_or_todos';
+    } else if (condition === ProofStatus.Approved) {
+      allMatch = statuses.every(s => s === ProofStatus.Approved);
+    } else if (condition === ProofStatus.TodosRequested) {
+      allMatch = statuses.every(isTodos);
+    }
+
+    let event: PowerAppsEvent | null = null;
+    if (allMatch) {
+      event = {
+        eventType: 'group_status',
+        schemaVersion: POWERAPPS_EVENT_SCHEMA_VERSION,
+        groupName,
+        status: matchStatus,
+        proofIds: proofStatuses.map(p => p.proofId),
+        proofNames: proofStatuses.map(p => p.proofName),
+        locked: triggeringProof?.locked ?? null,
+        reason: `All proofs are ${matchStatus}`,
+        ...(nextStage ? { submitToNextStage: nextStage } : {}),
+      };
+    } else if (triggeringProof) {
+      event = {
+        eventType: 'proof_locked',
+        schemaVersion: POWERAPPS_EVENT_SCHEMA_VERSION,
+        groupName,
+        status: condition,
+        locked: triggeringProof.locked,
+        lockedProofId: triggeringProof.id,
+        lockedProofName: triggeringProof.name,
+        reason: triggeringProof.reason,
+      };
+    }
+
+    return {
+      groupId,
+      groupName,
+      condition,
+      proofs: proofStatuses,
+      allMatch,
+      matchStatus,
+      allApproved: !!statuses.length && statuses.every(s => s === ProofStatus.Approved),
+      event,
+    };
+  }
+
+  /**
+   * Loads the proofs in a group and evaluates them against a condition.
+   * @returns The evaluation, or null if the group has no proofs
+   */
+  public async evaluateGroup(
+    groupId: string,
+    groupName: string | null,
+    condition: GroupCondition,
+    triggeringProof?: TriggeringProof,
+    options: EvaluationOptions = {},
+  ): Promise<GroupStatusEvaluation | null> {
+    const proofsInGroup = await PageProofService.getProofsInGroup(groupId);
+    if (!proofsInGroup?.length) return null;
+    return this.evaluate(groupId, groupName, proofsInGroup, condition, triggeringProof, options);
+  }
+
+  /**
+   * Evaluates a collection on demand, with the group rule a webhook for its first proof would
+   * resolve. Without an explicit condition, a group whose proofs are all overdue is checked
+   * for overdue and any other group for approval.
+   * @param groupId Group ID
+   * @param condition Condition to check, as a webhook for that status would
+   * @returns The evaluation, or null if the group was not found
+   */
+  public async getCollectionStatus(
+    groupId: string,
+    condition?: GroupCondition,
+  ): Promise<GroupStatusEvaluation | null> {
+    const group = await PageProofService.getGroupById(groupId);
+    if (!group) return null;
+
+    const proofs: any[] = Array.isArray(group.proofs) ? group.proofs : [];
+    const effective =
+      condition ??
+      (proofs.length && proofs.every(p => this.getEffectiveStatus(p) === ProofStatus.Overdue)
+        ? ProofStatus.Overdue
+        : ProofStatus.Approved);
+
+    const [first] = proofs;
+    const rule = await groupRuleService.resolveRule({
+      proofName: first?.name ?? '',
+      tags: first?.tags ?? [],
+      collectionName: group.name ?? null,
+      documentType: first?.id ? await groupRuleService.getDocumentType(first.id) : null,
+    });
+
+    return this.evaluate(
+      group.id ?? groupId,
+      group.name ?? null,
+      proofs,
+      effective,
+      undefined,
+      toEvaluationOptions(rule),
+    );
+  }
+}
+
+export const groupStatusService = new GroupStatusService();
+export default groupStatusService;
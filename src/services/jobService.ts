@@ -0,0 +1,300 @@
+import { randomUUID } from 'crypto';
+
+import { loggerService } from '../utils/logger';
+import { JsonFileStore } from '../utils/jsonFileStore';
+
+// #region Types
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type JobStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+export type JobStepName =
+  | 'upload'
+  | 'collection'
+  | 'workflow'
+  | 'proofCreation'
+  | 'owners'
+  | 'message';
+
+export interface JobStep {
+  name: JobStepName;
+  status: JobStepStatus;
+  startedAt: string | null;
+  completedAt: string | null;
+  error: string | null;
+}
+
+export interface Job {
+  id: string;
+  type: string;
+  status: JobStatus;
+  steps: JobStep[];
+  result: unknown;
+  error: { statusCode: number; message: string } | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+/**
+ * Wraps a unit of work so its step state is reported on the owning job.
+ * Used by the proof services; without a job the work simply runs.
+ */
+export type StepTracker = <T>(step: JobStepName, work: () => Promise<T>) => Promise<T>;
+
+export const untracked: StepTracker = (_step, work) => work();
+
+export interface JobStore {
+  get(id: string): Promise<Job | null>;
+  save(job: Job): Promise<void>;
+  deleteCompletedBefore(cutoff: number): Promise<number>;
+}
+
+// #endregion
+
+// #region Job Stores
+
+class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, Job>();
+
+  public async get(id: string): Promise<Job | null> {
+    return this.jobs.get(id) ?? null;
+  }
+
+  public async save(job: Job): Promise<void> {
+    this.jobs.set(job.id, job);
+  }
+
+  public async deleteCompletedBefore(cutoff: number): Promise<number> {
+    let removed = 0;
+    for (const [id, job] of this.jobs) {
+      if (job.completedAt && Date.parse(job.completedAt) < cutoff) {
+        this.jobs.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+class FileJobStore implements JobStore {
+  private store = new JsonFileStore<Job>('jobs.json');
+  private recovery: Promise<void> | null = null;
+
+  // Jobs a previous process left queued or running will never finish; fail them on first use
+  private recover(): Promise<void> {
+    this.recovery ??= this.failInterrupted();
+    return this.recovery;
+  }
+
+  private async failInterrupted(): Promise<void> {
+    const interrupted = (await this.store.values()).filter(
+      job => job.status === 'queued' || job.status === 'running',
+    );
+    const now = new Date().toISOString();
+
+    for (const job of interrupted) {
+      job.status = 'failed';
+      job.error = { statusCode: 500, message: 'Job interrupted by restart' };
+      job.completedAt = now;
+      job.updatedAt = now;
+      job.steps.forEach(step => {
+        if (step.status === 'pending') step.status = 'skipped';
+        if (step.status === 'running') {
+          step.status = 'failed';
+          step.error = 'Interrupted by restart';
+          step.completedAt = now;
+        }
+      });
+      await this.store.set(job.id, job);
+    }
+    if (interrupted.length) {
+      loggerService.logger.warn('JobService: marked jobs interrupted by restart as failed', {
+        jobIds: interrupted.map(job => job.id),
+      });
+    }
+  }
+
+  public async get(id: string): Promise<Job | null> {
+    await this.recover();
+    return this.store.get(id);
+  }
+
+  public async save(job: Job): Promise<void> {
+    await this.recover();
+    await this.store.set(job.id, job);
+  }
+
+  public async deleteCompletedBefore(cutoff: number): Promise<number> {
+    await this.recover();
+    return this.store.deleteWhere(
+      job => !!job.completedAt && Date.parse(job.completedAt) < cutoff,
+    );
+  }
+}
+
+// #endregion
+
+// #region Job Service
+
+class JobService {
+  private readonly JOB_RETENTION_MS = Number(
+    process.env.JOB_RETENTION_MS ?? 24 * 60 * 60 * 1000,
+  ); // 24 hours default
+
+  constructor(private store: JobStore) {}
+
+  private now(): string {
+    return new Date().toISOString();
+  }
+
+  // Applies a change to a job and persists it; later updates win
+  private async update(id: string, change: (job: Job) => void): Promise<void> {
+    const job = await this.store.get(id);
+    if (!job) return;
+    change(job);
+    job.updatedAt = this.now();
+    await this.store.save(job);
+  }
+
+  /**
+   * Registers a new queued job with all steps pending.
+   * @param type Job type, e.g. createProof
+   * @param steps Steps the job is expected to go through, in order
+   */
+  public async createJob(type: string, steps: JobStepName[]): Promise<Job> {
+    const now = this.now();
+    const job: Job = {
+      id: randomUUID(),
+      type,
+      status: 'queued',
+      steps: steps.map((name): JobStep => ({
+        name,
+        status: 'pending',
+        startedAt: null,
+        completedAt: null,
+        error: null,
+      })),
+      result: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+
+    await this.store.save(job);
+    this.store
+      .deleteCompletedBefore(Date.now() - this.JOB_RETENTION_MS)
+      .catch(error =>
+        loggerService.logger.warn('JobService: failed to prune old jobs', {
+          error: (error as Error).message,
+        }),
+      );
+    return job;
+  }
+
+  public async getJob(id: string): Promise<Job | null> {
+    return this.store.get(id);
+  }
+
+  // Builds a tracker that keeps a step running while any call for it is still in flight
+  private createTracker(jobId: string): StepTracker {
+    const inFlight = new Map<JobStepName, number>();
+    const failed = new Set<JobStepName>();
+
+    const setStep = (name: JobStepName, change: (step: JobStep) => void) =>
+      this.update(jobId, job => {
+        const step = job.steps.find(s => s.name === name);
+        if (step) change(step);
+      });
+
+    return async (name, work) => {
+      inFlight.set(name, (inFlight.get(name) ?? 0) + 1);
+      await setStep(name, step => {
+        if (step.status !== 'failed') step.status = 'running';
+        step.startedAt = step.startedAt ?? this.now();
+      });
+
+      try {
+        const result = await work();
+        inFlight.set(name, inFlight.get(name)! - 1);
+        if (inFlight.get(name) === 0 && !failed.has(name)) {
+          await setStep(name, step => {
+            step.status = 'completed';
+            step.completedAt = this.now();
+          });
+        }
+        return result;
+      } catch (error) {
+        inFlight.set(name, inFlight.get(name)! - 1);
+        failed.add(name);
+        await setStep(name, step => {
+          step.status = 'failed';
+          step.completedAt = this.now();
+          step.error = (error as Error).message;
+        });
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Runs the job's work in the background. Steps that never started are marked
+   * skipped once the job finishes. Never rejects; failures are recorded on the job.
+   * @param jobId Job ID returned by createJob
+   * @param work Work to run, reporting progress through the given tracker
+   */
+  public async run(jobId: string, work: (track: StepTracker) => Promise<unknown>): Promise<void> {
+    const start = Date.now();
+    try {
+      await this.update(jobId, job => {
+        job.status = 'running';
+      });
+
+      const result = await work(this.createTracker(jobId));
+
+      await this.update(jobId, job => {
+        job.status = 'succeeded';
+        job.result = result;
+        job.completedAt = this.now();
+        job.steps.forEach(step => {
+          if (step.status === 'pending') step.status = 'skipped';
+        });
+      });
+      loggerService.logger.info('JobService: job succeeded', {
+        jobId,
+        elapsedMs: Date.now() - start,
+      });
+    } catch (error) {
+      loggerService.logger.error('JobService: job failed', {
+        jobId,
+        error: (error as Error).message,
+        elapsedMs: Date.now() - start,
+      });
+      await this.update(jobId, job => {
+        job.status = 'failed';
+        job.error = {
+          statusCode: (error as any).statusCode || 500,
+          message: (error as Error).message,
+        };
+        job.completedAt = this.now();
+        job.steps.forEach(step => {
+          if (step.status === 'pending') step.status = 'skipped';
+        });
+      }).catch(updateError =>
+        loggerService.logger.error('JobService: failed to record job failure', {
+          jobId,
+          error: (updateError as Error).message,
+        }),
+      );
+    }
+  }
+}
+
+// #endregion
+
+const createJobStore = (): JobStore =>
+  process.env.JOB_STORE === 'file' ? new FileJobStore() : new MemoryJobStore();
+
+export const jobService = new JobService(createJobStore());
+export { JobService, MemoryJobStore, FileJobStore };
+export default jobService;
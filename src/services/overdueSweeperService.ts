@@ -0,0 +1,278 @@
+import Proof from '@pageproof/sdk/lib/models/Proof';
+import SdkProofStatus from '@pageproof/sdk/lib/enum/ProofStatus';
+
+import { loggerService } from '../utils/logger';
+import { ErrorHandler } from '../utils/errorHandler';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { Helper } from '../utils/helper';
+import config from '../config';
+
+import PageProofService from './proofService';
+import { WebhookService } from './webhookService';
+import { ProofStatus } from './groupStatusService';
+import { DueReminder, dueReminderService } from './dueReminderService';
+
+// #region Types
+
+export interface SweptProof {
+  proofId: string;
+  proofName: string;
+  collectionId: string;
+  collectionName: string | null;
+  dueDate: string;
+  // processed: locked (if its rule allows) and notified; dry_run: would have been
+  outcome: 'processed' | 'dry_run' | 'failed';
+  locked: boolean;
+  error: string | null;
+}
+
+export interface SweepSummary {
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  collectionsScanned: number;
+  proofsScanned: number;
+  proofs: SweptProof[];
+  reminders: DueReminder[];
+  failedCollections: { collectionId: string; error: string }[];
+}
+
+// Remembers which due date a proof was swept for, so it is handled once per due date
+interface SweepRecord {
+  proofId: string;
+  dueDate: string;
+  sweptAt: string;
+  locked: boolean;
+}
+
+// #endregion
+
+/**
+ * Numeric SDK statuses of proofs still under review, with the webhook status the overdue
+ * handler expects for each. The SDK's computed `state` is already `overdue` for these proofs
+ * once their due date passes, so it cannot tell them apart from other overdue proofs.
+ */
+const SWEEPABLE_STATUSES: Record<number, ProofStatus> = {
+  [SdkProofStatus.PROOFING]: ProofStatus.InProofing,
+  [SdkProofStatus.FINAL_APPROVING]: ProofStatus.WithApprover,
+};
+
+/**
+ * Scheduled sweep for overdue proofs. PageProof does not always send the overdue webhook and
+ * proofs nobody touches never send an in_proofing event after their due date, so such proofs
+ * were never locked. The sweeper scans the dashboard collections on an interval and runs every
+ * unlocked proof past its due date through the overdue handler, which locks it and evaluates
+ * its collection exactly as the webhook would. Proofs not yet due get their due date
+ * reminders in the same pass.
+ */
+class OverdueSweeperService {
+  private records = new JsonFileStore<SweepRecord>('overdue-sweeps.json');
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<SweepSummary> | null = null;
+  private lastRun: SweepSummary | null = null;
+
+  // #region Scheduler
+
+  public start(): void {
+    const { enabled, interval, dryRun } = config.overdueSweeper;
+    if (this.timer || !enabled) return;
+
+    this.timer = setInterval(() => {
+      void this.runScheduled();
+    }, interval);
+    loggerService.logger.info('Overdue sweeper started', { intervalMs: interval, dryRun });
+  }
+
+  public stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+    loggerService.logger.info('Overdue sweeper stopped');
+  }
+
+  private async runScheduled(): Promise<void> {
+    if (this.running) {
+      loggerService.logger.warn('Overdue sweep skipped, previous sweep still running');
+      return;
+    }
+    try {
+      await this.sweep();
+    } catch (error) {
+      loggerService.logger.error('Scheduled overdue sweep failed', {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  public getStatus() {
+    const { enabled, interval, dryRun } = config.overdueSweeper;
+    return {
+      enabled,
+      scheduled: !!this.timer,
+      intervalMs: interval,
+      dryRun,
+      running: !!this.running,
+      lastRun: this.lastRun,
+    };
+  }
+
+  // #endregion
+
+  // #region Sweep
+
+  /**
+   * Scans every dashboard collection for overdue proofs and processes them.
+   * @param dryRun Only report what would be processed; defaults to the configured mode
+   * @throws 409 if a sweep is already running
+   */
+  public async sweep(dryRun: boolean = config.overdueSweeper.dryRun): Promise<SweepSummary> {
+    if (this.running) {
+      throw ErrorHandler.createError(409, 'An overdue sweep is already running', 'SWEEP_RUNNING');
+    }
+
+    this.running = this.runSweep(dryRun).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async runSweep(dryRun: boolean): Promise<SweepSummary> {
+    const summary: SweepSummary = {
+      dryRun,
+      startedAt: new Date().toISOString(),
+      finishedAt: '',
+      collectionsScanned: 0,
+      proofsScanned: 0,
+      proofs: [],
+      reminders: [],
+      failedCollections: [],
+    };
+
+    const collections = (await PageProofService.listCollections()).filter(c => !c.isArchived);
+    for (const collection of collections) {
+      try {
+        const proofs = await PageProofService.getProofsInGroup(collection.id);
+        summary.collectionsScanned++;
+        summary.proofsScanned += proofs.length;
+
+        for (const proof of proofs) {
+          if (!this.isUnderReview(proof)) continue;
+          if (proof.isOverdue) {
+            if (await this.isDue(proof)) {
+              summary.proofs.push(await this.processProof(proof, collection, dryRun));
+            }
+            continue;
+          }
+          const reminder = await this.remind(proof, collection, dryRun);
+          if (reminder) summary.reminders.push(reminder);
+        }
+      } catch (error) {
+        summary.failedCollections.push({
+          collectionId: collection.id,
+          error: (error as Error).message,
+        });
+        loggerService.logger.error('Overdue sweep failed for collection', {
+          collectionId: collection.id,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    summary.finishedAt = new Date().toISOString();
+    this.lastRun = summary;
+    loggerService.logger.info('Overdue sweep complete', {
+      dryRun,
+      collectionsScanned: summary.collectionsScanned,
+      proofsScanned: summary.proofsScanned,
+      overdue: summary.proofs.length,
+      reminders: summary.reminders.length,
+      failedCollections: summary.failedCollections.length,
+    });
+    return summary;
+  }
+
+  private isUnderReview(proof: Proof): boolean {
+    return !!proof?.id && !proof.isLocked && proof.status in SWEEPABLE_STATUSES;
+  }
+
+  // Overdue proofs are swept once per due date
+  private async isDue(proof: Proof): Promise<boolean> {
+    const record = await this.records.get(proof.id);
+    return record?.dueDate !== Helper.toIsoDate(proof.dueDate);
+  }
+
+  // A failed reminder is retried on the next pass, so it never fails the collection
+  private async remind(
+    proof: Proof,
+    collection: { id: string; name: string | null },
+    dryRun: boolean,
+  ): Promise<DueReminder | null> {
+    try {
+      return await dueReminderService.remind(proof, collection, dryRun);
+    } catch (error) {
+      loggerService.logger.error('Due date reminder check failed', {
+        proofId: proof.id,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  }
+
+  private async processProof(
+    proof: Proof,
+    collection: { id: string; name: string | null },
+    dryRun: boolean,
+  ): Promise<SweptProof> {
+    // Overdue proofs always have a due date
+    const dueDate = Helper.toIsoDate(proof.dueDate)!;
+    const swept: SweptProof = {
+      proofId: proof.id,
+      proofName: proof.name ?? 'N/A',
+      collectionId: collection.id,
+      collectionName: collection.name ?? null,
+      dueDate,
+      outcome: 'dry_run',
+      locked: false,
+      error: null,
+    };
+    if (dryRun) return swept;
+
+    try {
+      const result = await WebhookService.handleProofOverdue(
+        {
+          proof: {
+            id: proof.id,
+            name: proof.name,
+            status: SWEEPABLE_STATUSES[proof.status],
+            dueDate,
+          },
+          trigger: { email: 'overdue-sweeper' },
+        },
+        'sweeper',
+      );
+      if (result.status !== 200) throw new Error(result.error ?? 'Overdue handler failed');
+
+      swept.outcome = 'processed';
+      swept.locked = !!result.overdueData?.locked;
+      await this.records.set(proof.id, {
+        proofId: proof.id,
+        dueDate,
+        sweptAt: new Date().toISOString(),
+        locked: swept.locked,
+      });
+    } catch (error) {
+      swept.outcome = 'failed';
+      swept.error = (error as Error).message;
+      loggerService.logger.error('Overdue sweep failed for proof', {
+        proofId: proof.id,
+        error: swept.error,
+      });
+    }
+    return swept;
+  }
+
+  // #endregion
+}
+
+export const overdueSweeperService = new OverdueSweeperService();
+export default overdueSweeperService;
@@ -14,6 +14,9 @@ import { ErrorHandler } from '../utils/errorHandler';
 
 import { getSecretFromKeyVault } from './keyVaultService';
 
+// Runs one login attempt; retries happen outside it
+export type LoginGuard = <T>(attempt: () => Promise<T>) => Promise<T>;
+
 class PageProofAuthService {
   // #region Config and Constants
 
@@ -208,15 +211,18 @@ class PageProofAuthService {
 
   /**
    * Logs in to PageProof, returning a cached client if available.
+   * @param guard Runs each login attempt, e.g. through a circuit breaker
    * @returns The PageProof client instance
    */
-  public static async loginToPageProof(): Promise<PageProof> {
+  public static async loginToPageProof(
+    guard: LoginGuard = attempt => attempt(),
+  ): Promise<PageProof> {
     if (this.clientPromise) {
       loggerService.logger.info('PageProofAuthService: Using cached client instance');
       return this.clientPromise;
     }
 
-    this.clientPromise = this.initializeClient().catch(error => {
+    this.clientPromise = this.initializeClient(guard).catch(error => {
       loggerService.logger.error('PageProofAuthService: Client init failed', { error });
       this.clientPromise = null;
       throw error;
@@ -225,7 +231,7 @@ class PageProofAuthService {
     return this.clientPromise;
   }
 
-  private static async initializeClient(): Promise<PageProof> {
+  private static async initializeClient(guard: LoginGuard): Promise<PageProof> {
     loggerService.logger.info('PageProofAuthService: Starting client initialization');
 
     const applicationId = 'fortunebrands-sdk';
@@ -250,7 +256,7 @@ class PageProofAuthService {
       if (!session) {
         loggerService.logger.info('PageProofAuthService: No valid session found (or credentials changed), logging in');
         session = await this.retryWithBackoff(
-          () => client.accounts.login(email, password),
+          () => guard(() => client.accounts.login(email, password)),
           'login',
         );
         client.setSession(session);
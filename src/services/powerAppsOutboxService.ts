@@ -0,0 +1,404 @@
+import { randomUUID } from 'crypto';
+
+import axios, { AxiosError } from 'axios';
+
+import { loggerService } from '../utils/logger';
+import { ErrorHandler } from '../utils/errorHandler';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { signPowerAppsPayload } from '../utils/powerAppsSignature';
+import config from '../config';
+
+import { getSecretFromKeyVault } from './keyVaultService';
+import { circuitBreakerService, isCircuitOpenError } from './circuitBreakerService';
+import { PowerAppsDestination, powerAppsRoutingService } from './powerAppsRoutingService';
+
+// #region Types
+
+export interface OutboxMessage {
+  id: string;
+  destination: string;
+  payload: unknown;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string;
+  lastAttemptAt: string | null;
+  lastError: string | null;
+}
+
+export interface DeadLetter extends OutboxMessage {
+  deadLetteredAt: string;
+}
+
+export interface DispatchSummary {
+  delivered: number;
+  retrying: number;
+  deadLettered: number;
+  // Held back without using an attempt because the destination's circuit breaker is open
+  deferred: number;
+  // Held back without using an attempt because no signing secret is configured
+  held: number;
+}
+
+// Called after a message is delivered, e.g. to record what PowerApps has been told
+export type DeliveryListener = (message: OutboxMessage) => Promise<void> | void;
+
+// Thrown for failures that retrying will not fix, such as a missing destination or a 4xx response
+class PermanentDeliveryError extends Error {}
+
+// #endregion
+
+/**
+ * Persistent outbox for PowerApps notifications. Events are written to disk, one message per
+ * destination, before any delivery is attempted and a background dispatcher sends them with
+ * exponential backoff using each destination's retry policy.
+ * Messages that exhaust their attempts, or fail permanently, move to the dead-letter list
+ * where an operator can retry or discard them. Without a signing secret nothing is sent and
+ * messages wait in the outbox, attempts untouched, until one is configured.
+ */
+class PowerAppsOutboxService {
+  private outbox = new JsonFileStore<OutboxMessage>('powerapps-outbox.json');
+  private deadLetters = new JsonFileStore<DeadLetter>('powerapps-dead-letters.json');
+  private timer: NodeJS.Timeout | null = null;
+  private dispatching: Promise<DispatchSummary> | null = null;
+  private deliveryListeners: DeliveryListener[] = [];
+  // Whether the last lookup found no signing secret, so the error is logged once, not every pass
+  private secretMissing = false;
+
+  // #region Dispatcher
+
+  public start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.dispatchDue();
+    }, config.powerApps.dispatchInterval);
+    loggerService.logger.info('PowerApps outbox dispatcher started', {
+      intervalMs: config.powerApps.dispatchInterval,
+    });
+    // Reports a missing signing secret at startup rather than on the first event
+    void this.getSigningSecret().then(() => this.dispatchDue());
+  }
+
+  public stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+    loggerService.logger.info('PowerApps outbox dispatcher stopped');
+  }
+
+  // Registers a listener run after each delivery; its failures are logged, never retried
+  public onDelivered(listener: DeliveryListener): void {
+    this.deliveryListeners.push(listener);
+  }
+
+  private async notifyDelivered(message: OutboxMessage): Promise<void> {
+    for (const listener of this.deliveryListeners) {
+      try {
+        await listener(message);
+      } catch (error) {
+        loggerService.logger.error('PowerApps delivery listener failed', {
+          messageId: message.id,
+          error: (error as Error).message,
+        });
+      }
+    }
+  }
+
+  /**
+   * Writes an event to the outbox. Delivery happens on the next dispatcher pass.
+   * @param payload Event body sent to PowerApps
+   * @param destination Name of the destination that receives it
+   */
+  public async enqueue(payload: unknown, destination: string): Promise<OutboxMessage> {
+    const now = new Date().toISOString();
+    const message: OutboxMessage = {
+      id: randomUUID(),
+      destination,
+      payload,
+      attempts: 0,
+      createdAt: now,
+      nextAttemptAt: now,
+      lastAttemptAt: null,
+      lastError: null,
+    };
+    await this.outbox.set(message.id, message);
+    loggerService.logger.info('PowerApps event added to outbox', {
+      messageId: message.id,
+      destination,
+    });
+
+    if (this.timer) void this.dispatchDue();
+    return message;
+  }
+
+  /**
+   * Delivers every message whose next attempt is due. Overlapping calls share the pass
+   * already in progress so a message is never sent twice at once.
+   * @param now Reference time, mainly for tests
+   */
+  public async dispatchDue(now: number = Date.now()): Promise<DispatchSummary> {
+    if (this.dispatching) return this.dispatching;
+
+    this.dispatching = this.runDispatch(now).finally(() => {
+      this.dispatching = null;
+    });
+    return this.dispatching;
+  }
+
+  private async runDispatch(now: number): Promise<DispatchSummary> {
+    const summary: DispatchSummary = {
+      delivered: 0,
+      retrying: 0,
+      deadLettered: 0,
+      deferred: 0,
+      held: 0,
+    };
+    const due = (await this.outbox.values())
+      .filter(message => Date.parse(message.nextAttemptAt) <= now)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const secret = due.length ? await this.getSigningSecret() : null;
+
+    for (const message of due) {
+      const outcome = secret ? await this.attempt(message, secret) : await this.hold(message);
+      summary[outcome]++;
+    }
+
+    if (due.length) loggerService.logger.info('PowerApps outbox dispatch complete', summary);
+    return summary;
+  }
+
+  private async attempt(message: OutboxMessage, secret: string): Promise<keyof DispatchSummary> {
+    const destination = powerAppsRoutingService.getDestination(message.destination);
+    const maxAttempts = destination?.retryAttempts ?? config.powerApps.retryAttempts;
+    const attempt: OutboxMessage = {
+      ...message,
+      attempts: message.attempts + 1,
+      lastAttemptAt: new Date().toISOString(),
+    };
+
+    try {
+      await this.post(attempt, destination, secret);
+      await this.outbox.delete(message.id);
+      await this.notifyDelivered(attempt);
+      return 'delivered';
+    } catch (error) {
+      if (isCircuitOpenError(error)) return this.defer(message);
+      attempt.lastError = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      if (error instanceof PermanentDeliveryError || attempt.attempts >= maxAttempts) {
+        await this.deadLetters.set(attempt.id, {
+          ...attempt,
+          deadLetteredAt: new Date().toISOString(),
+        });
+        await this.outbox.delete(attempt.id);
+        loggerService.logger.error('PowerApps event moved to dead letters', {
+          messageId: attempt.id,
+          destination: attempt.destination,
+          attempts: attempt.attempts,
+          error: attempt.lastError,
+        });
+        return 'deadLettered';
+      }
+
+      const delay = this.getBackoffDelay(attempt.attempts, destination!);
+      attempt.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      await this.outbox.set(attempt.id, attempt);
+      loggerService.logger.warn('PowerApps delivery failed, retrying', {
+        messageId: attempt.id,
+        destination: attempt.destination,
+        attempt: `${attempt.attempts}/${maxAttempts}`,
+        retryInMs: delay,
+        error: attempt.lastError,
+      });
+      return 'retrying';
+    }
+  }
+
+  // Postpones a message until its destination's circuit breaker lets a trial call through
+  private async defer(message: OutboxMessage): Promise<'deferred'> {
+    const retryAt =
+      this.getBreaker(message.destination).getRetryAt() ??
+      Date.now() + config.powerApps.dispatchInterval;
+    await this.outbox.set(message.id, {
+      ...message,
+      nextAttemptAt: new Date(retryAt).toISOString(),
+    });
+    loggerService.logger.warn('PowerApps destination unavailable, delivery deferred', {
+      messageId: message.id,
+      destination: message.destination,
+      retryAt: new Date(retryAt).toISOString(),
+    });
+    return 'deferred';
+  }
+
+  // Keeps a message for the next pass; signing is a configuration problem retries cannot fix
+  private async hold(message: OutboxMessage): Promise<'held'> {
+    await this.outbox.set(message.id, {
+      ...message,
+      lastError: 'No PowerApps signing secret is configured',
+    });
+    return 'held';
+  }
+
+  // Exponential backoff capped at maxRetryDelay, with up to half the delay randomised
+  private getBackoffDelay(attempts: number, destination: PowerAppsDestination): number {
+    const { retryDelay, maxRetryDelay } = destination;
+    const delay = Math.min(retryDelay * 2 ** (attempts - 1), maxRetryDelay);
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  }
+
+  // #endregion
+
+  // #region Delivery
+
+  private getBreaker(destination: string) {
+    return circuitBreakerService.get(`powerapps:${destination}`);
+  }
+
+  /**
+   * Looks up the signing secret, at least 32 characters, from Key Vault or
+   * POWERAPPS_SIGNING_SECRET. Key Vault caches the secret itself, so a rotated or newly added
+   * key is picked up without a restart.
+   * @returns The secret, or null when neither source has one
+   */
+  private async getSigningSecret(): Promise<string | null> {
+    let secret: string | null = null;
+    try {
+      const vaultSecret = await getSecretFromKeyVault('powerapps-signing-secret');
+      if (vaultSecret && vaultSecret.length >= 32) secret = vaultSecret;
+    } catch (error) {
+      loggerService.logger.debug('PowerApps signing secret not available from Key Vault', {
+        error: (error as Error).message,
+      });
+    }
+
+    const envSecret = process.env.POWERAPPS_SIGNING_SECRET;
+    if (!secret && envSecret && envSecret.length >= 32) secret = envSecret;
+
+    if (!secret && !this.secretMissing) {
+      loggerService.logger.error(
+        'PowerApps signing secret is not configured: set powerapps-signing-secret in Key Vault ' +
+          'or POWERAPPS_SIGNING_SECRET (32+ characters). Deliveries are held until it is set.',
+      );
+    } else if (secret && this.secretMissing) {
+      loggerService.logger.info('PowerApps signing secret found, resuming deliveries');
+    }
+    this.secretMissing = !secret;
+    return secret;
+  }
+
+  private async post(
+    message: OutboxMessage,
+    destination: PowerAppsDestination | null,
+    secret: string,
+  ): Promise<void> {
+    if (!destination) {
+      throw new PermanentDeliveryError(
+        `PowerApps destination ${message.destination} is not configured.`,
+      );
+    }
+
+    // Sign the exact bytes that are sent; the message ID doubles as the delivery ID
+    const rawBody = JSON.stringify(message.payload);
+    const signatureHeaders = signPowerAppsPayload(secret, rawBody, message.id);
+
+    try {
+      const response = await this.getBreaker(destination.name).execute(() =>
+        axios.post(destination.url, rawBody, {
+          headers: {
+            'Content-Type': 'application/json',
+            ...signatureHeaders,
+            ...(destination.authHeader
+              ? { [destination.authHeader.name]: destination.authHeader.value }
+              : {}),
+          },
+          timeout: destination.timeout,
+        }),
+      );
+
+      loggerService.logger.info('Successfully sent to PowerApps:', {
+        messageId: message.id,
+        destination: destination.name,
+        attempt: message.attempts,
+        statusCode: response.status,
+        data: response.data,
+      });
+    } catch (error) {
+      if (isCircuitOpenError(error)) throw error;
+      this.handleError(error);
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      if (status && status >= 400 && status < 500 && status !== 408 && status !== 429) {
+        throw new PermanentDeliveryError(`PowerApps rejected the event with status ${status}`);
+      }
+      throw error;
+    }
+  }
+
+  // Handle error when sending data to PowerApps
+  private handleError(error: unknown): void {
+    if (axios.isAxiosError(error)) {
+      const axiosError = error as AxiosError;
+      loggerService.logger.error(
+        'Axios error while sending to PowerApps:',
+        axiosError.response?.data || axiosError.message,
+      );
+    } else {
+      loggerService.logger.error('Unexpected error while sending to PowerApps:', error);
+    }
+  }
+
+  // #endregion
+
+  // #region Outbox & Dead Letters
+
+  public async listPending(): Promise<OutboxMessage[]> {
+    const messages = await this.outbox.values();
+    return messages.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  public async listDeadLetters(): Promise<DeadLetter[]> {
+    const messages = await this.deadLetters.values();
+    return messages.sort((a, b) => b.deadLetteredAt.localeCompare(a.deadLetteredAt));
+  }
+
+  public async getDeadLetter(messageId: string): Promise<DeadLetter | null> {
+    return this.deadLetters.get(messageId);
+  }
+
+  /**
+   * Moves a dead letter back into the outbox with a fresh attempt budget.
+   * @param messageId Dead letter id
+   * @throws 404 if the dead letter does not exist
+   */
+  public async retryDeadLetter(messageId: string): Promise<OutboxMessage> {
+    const deadLetter = await this.getDeadLetter(messageId);
+    if (!deadLetter) throw ErrorHandler.createError(404, `Dead letter ${messageId} not found`);
+
+    const requeued: OutboxMessage = {
+      id: deadLetter.id,
+      destination: deadLetter.destination,
+      payload: deadLetter.payload,
+      attempts: 0,
+      createdAt: deadLetter.createdAt,
+      nextAttemptAt: new Date().toISOString(),
+      lastAttemptAt: deadLetter.lastAttemptAt,
+      lastError: deadLetter.lastError,
+    };
+    await this.outbox.set(requeued.id, requeued);
+    await this.deadLetters.delete(messageId);
+    loggerService.logger.info('PowerApps dead letter requeued', { messageId });
+
+    if (this.timer) void this.dispatchDue();
+    return requeued;
+  }
+
+  public async discardDeadLetter(messageId: string): Promise<boolean> {
+    const deleted = await this.deadLetters.delete(messageId);
+    if (deleted) loggerService.logger.info('PowerApps dead letter discarded', { messageId });
+    return deleted;
+  }
+
+  // #endregion
+}
+
+export const powerAppsOutboxService = new PowerAppsOutboxService();
+export default powerAppsOutboxService;
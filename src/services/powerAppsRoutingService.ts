@@ -0,0 +1,178 @@
+import { loggerService } from '../utils/logger';
+import { ErrorHandler } from '../utils/errorHandler';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import { PowerAppsRoute, PowerAppsRoutesSchema } from '../schema/zodSchemas';
+import config, { PowerAppsDestinationConfig } from '../config';
+
+// #region Types
+
+// A destination with every delivery setting resolved
+export interface PowerAppsDestination {
+  name: string;
+  url: string;
+  timeout: number;
+  retryAttempts: number;
+  retryDelay: number;
+  maxRetryDelay: number;
+  authHeader: PowerAppsDestinationConfig['authHeader'] | null;
+}
+
+// What is known about an event beyond its payload when its destinations are resolved
+export interface RoutingContext {
+  documentType?: string | null;
+}
+
+interface StoredRoutes {
+  routes: PowerAppsRoute[];
+  updatedAt: string;
+}
+
+// #endregion
+
+// Receives events no route claims; backed by the legacy single endpoint unless configured
+const DEFAULT_DESTINATION = 'default';
+
+/**
+ * Decides which PowerApps flows receive an event. Destinations come from configuration
+ * because they carry credentials; routes are kept in data/powerapps-routes.json and can be
+ * edited through the PowerApps admin endpoint. With no routes configured every event goes to
+ * the default destination, as before.
+ */
+class PowerAppsRoutingService {
+  private store = new JsonFileStore<StoredRoutes>('powerapps-routes.json');
+
+  // #region Destinations
+
+  private toDestination(destination: PowerAppsDestinationConfig): PowerAppsDestination {
+    const defaults = config.powerApps;
+    return {
+      name: destination.name,
+      url: destination.url,
+      timeout: destination.timeout ?? defaults.timeout,
+      retryAttempts: destination.retryAttempts ?? defaults.retryAttempts,
+      retryDelay: destination.retryDelay ?? defaults.retryDelay,
+      maxRetryDelay: destination.maxRetryDelay ?? defaults.maxRetryDelay,
+      authHeader: destination.authHeader ?? null,
+    };
+  }
+
+  /**
+   * Lists the configured destinations. The legacy pageProofApprovedEndpoint is exposed as the
+   * default destination unless a configured destination already uses that name.
+   */
+  public getDestinations(): PowerAppsDestination[] {
+    const { destinations, pageProofApprovedEndpoint } = config.powerApps;
+    const resolved = destinations.map(destination => this.toDestination(destination));
+    if (pageProofApprovedEndpoint && !resolved.some(d => d.name === DEFAULT_DESTINATION)) {
+      resolved.unshift(
+        this.toDestination({ name: DEFAULT_DESTINATION, url: pageProofApprovedEndpoint }),
+      );
+    }
+    return resolved;
+  }
+
+  public getDestination(name: string): PowerAppsDestination | null {
+    return this.getDestinations().find(destination => destination.name === name) ?? null;
+  }
+
+  // #endregion
+
+  // #region Route Configuration
+
+  public async getRoutes(): Promise<{
+    routes: PowerAppsRoute[];
+    source: 'configured' | 'default';
+  }> {
+    const stored = await this.store.get('routes');
+    return stored
+      ? { routes: stored.routes, source: 'configured' }
+      : { routes: [], source: 'default' };
+  }
+
+  /**
+   * Replaces the configured routes.
+   * @param routes Routes; every matching route's destinations receive the event
+   * @throws 400 if a route names a destination that is not configured
+   */
+  public async setRoutes(routes: PowerAppsRoute[]): Promise<PowerAppsRoute[]> {
+    const parsed = PowerAppsRoutesSchema.parse(routes);
+
+    const known = new Set(this.getDestinations().map(destination => destination.name));
+    const unknown = [
+      ...new Set(parsed.flatMap(route => route.destinations).filter(name => !known.has(name))),
+    ];
+    if (unknown.length) {
+      throw ErrorHandler.createError(400, `Unknown PowerApps destinations: ${unknown.join(', ')}`);
+    }
+
+    await this.store.set('routes', { routes: parsed, updatedAt: new Date().toISOString() });
+    loggerService.logger.info('PowerApps routes updated', {
+      routes: parsed.map(route => route.name),
+    });
+    return parsed;
+  }
+
+  // Drops the configured routes so every event goes to the default destination again
+  public async resetRoutes(): Promise<void> {
+    await this.store.delete('routes');
+    loggerService.logger.info('PowerApps routes reset to defaults');
+  }
+
+  // #endregion
+
+  // #region Route Resolution
+
+  private matches(
+    route: PowerAppsRoute,
+    event: Record<string, unknown>,
+    context: RoutingContext,
+  ): boolean {
+    const { statuses, reasons, collectionPatterns, documentTypes } = route.match;
+    const includes = (values: string[], value: unknown) =>
+      typeof value === 'string' &&
+      values.some(candidate => candidate.toLowerCase() === value.toLowerCase());
+
+    if (statuses.length && !includes(statuses, event.status)) return false;
+    if (reasons.length && !includes(reasons, event.reason)) return false;
+    if (collectionPatterns.length) {
+      const collection = typeof event.groupName === 'string' ? event.groupName : null;
+      if (!collection || !collectionPatterns.some(p => new RegExp(p, 'i').test(collection))) {
+        return false;
+      }
+    }
+    if (documentTypes.length) {
+      if (!context.documentType || !(documentTypes as string[]).includes(context.documentType)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Finds every destination an event should be delivered to.
+   * @param event PowerApps payload; its status, reason and groupName are matched
+   * @param context Details not carried in the payload, such as the proof's document type
+   * @returns Destination names, falling back to the default destination when no route matches
+   */
+  public async resolveDestinations(
+    event: Record<string, unknown>,
+    context: RoutingContext = {},
+  ): Promise<string[]> {
+    const { routes } = await this.getRoutes();
+    const matched = routes.filter(route => this.matches(route, event, context));
+    const destinations = [...new Set(matched.flatMap(route => route.destinations))];
+
+    loggerService.logger.debug('PowerApps destinations resolved', {
+      status: event.status,
+      routes: matched.map(route => route.name),
+      destinations,
+    });
+    return destinations.length ? destinations : [DEFAULT_DESTINATION];
+  }
+
+  // #endregion
+}
+
+export { DEFAULT_DESTINATION };
+export const powerAppsRoutingService = new PowerAppsRoutingService();
+export default powerAppsRoutingService;
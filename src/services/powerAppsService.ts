@@ -1,72 +1,60 @@
-import axios, { AxiosError } from 'axios';
+import { zodToJsonSchema } from 'zod-to-json-schema';
 
 import { loggerService } from '../utils/logger';
-import config from '../config';
+import {
+  POWERAPPS_EVENT_SCHEMA_VERSION,
+  PowerAppsEvent,
+  PowerAppsEventSchema,
+} from '../schema/zodSchemas';
+
+import { powerAppsOutboxService } from './powerAppsOutboxService';
+import { RoutingContext, powerAppsRoutingService } from './powerAppsRoutingService';
 
 class PowerAppsService {
-  // Send data to PowerApps endpoint with retry logic
+  /**
+   * Queues an event for every PowerApps destination its routes select. The event is checked
+   * against the published contract first; each copy is then persisted to the outbox and
+   * delivered by the background dispatcher, so success means the event is safely stored,
+   * not yet received.
+   * @param eventData PowerApps event
+   * @param context Routing details not carried in the event, such as the document type
+   */
   public static async sendToPowerApps(
-    eventData: any,
-  ): Promise<{ success: boolean; error?: string }> {
-    if (!config.powerApps.pageProofApprovedEndpoint) {
-      const error = 'PowerApps endpoint is not defined.';
-      loggerService.logger.error(error);
-      return { success: false, error };
+    eventData: PowerAppsEvent,
+    context: RoutingContext = {},
+  ): Promise<{ success: boolean; messageIds?: string[]; error?: string }> {
+    const parsed = PowerAppsEventSchema.safeParse(eventData);
+    if (!parsed.success) {
+      loggerService.logger.error('PowerApps event does not match the event contract', {
+        eventType: eventData.eventType,
+        errors: parsed.error.errors,
+      });
+      return { success: false, error: `Invalid PowerApps event: ${parsed.error.message}` };
     }
 
-    for (let attempt = 1; attempt <= config.powerApps.retryAttempts; attempt++) {
-      try {
-        const response = await axios.post(config.powerApps.pageProofApprovedEndpoint, eventData, {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          timeout: config.powerApps.timeout,
-        });
-
-        loggerService.logger.info('Successfully sent to PowerApps:', {
-          attempt,
-          statusCode: response.status,
-          data: response.data,
-        });
-
-        return { success: true };
-      } catch (error) {
-        const isLastAttempt = attempt === config.powerApps.retryAttempts;
-
-        if (isLastAttempt) {
-          PowerAppsService.handleError(error);
-          return {
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error occurred',
-          };
-        }
-
-        loggerService.logger.warn(
-          `PowerApps request failed, retrying... (attempt ${attempt}/${config.powerApps.retryAttempts})`,
-          {
-            error: error instanceof Error ? error.message : 'Unknown error',
-          },
-        );
-
-        // Wait before retrying
-        await new Promise(resolve => setTimeout(resolve, config.powerApps.retryDelay * attempt));
-      }
+    try {
+      const event = parsed.data;
+      const destinations = await powerAppsRoutingService.resolveDestinations(event, context);
+      const messages = await Promise.all(
+        destinations.map(destination => powerAppsOutboxService.enqueue(event, destination)),
+      );
+      return { success: true, messageIds: messages.map(message => message.id) };
+    } catch (error) {
+      loggerService.logger.error('Failed to write PowerApps event to outbox', { error });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
     }
-
-    return { success: false, error: 'All retry attempts failed' };
   }
 
-  // Handle error when sending data to PowerApps
-  private static handleError(error: unknown): void {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      loggerService.logger.error(
-        'Axios error while sending to PowerApps:',
-        axiosError.response?.data || axiosError.message,
-      );
-    } else {
-      loggerService.logger.error('Unexpected error while sending to PowerApps:', error);
-    }
+  // JSON Schema document of the event contract, published for the PowerApps team
+  public static getEventJsonSchema(): Record<string, unknown> {
+    return {
+      ...zodToJsonSchema(PowerAppsEventSchema, { $refStrategy: 'none' }),
+      title: 'PowerAppsEvent',
+      description: `PowerApps event contract, schema version ${POWERAPPS_EVENT_SCHEMA_VERSION}`,
+    };
   }
 }
 
@@ -0,0 +1,176 @@
+import { z } from 'zod';
+
+import { loggerService } from '../utils/logger';
+import {
+  CommentWebhookSchema,
+  DecisionWebhookSchema,
+  OwnerChangedWebhookSchema,
+  POWERAPPS_EVENT_SCHEMA_VERSION,
+  PowerAppsEvent,
+  ProofActivityType,
+  StepCompletedWebhookSchema,
+  VersionCreatedWebhookSchema,
+} from '../schema/zodSchemas';
+import config from '../config';
+
+import PageProofService from './proofService';
+import { PowerAppsService } from './powerAppsService';
+import { groupRuleService } from './groupRuleService';
+
+// #region Types
+
+export interface ProofActivityResult {
+  status: number;
+  error: string | null;
+  message: string;
+  forwarded: boolean;
+}
+
+type ActivityBody = Pick<z.infer<typeof CommentWebhookSchema>, 'proof' | 'trigger'>;
+
+// Fields every forwarded activity event carries, before its own details are added
+interface ActivityEventBase {
+  schemaVersion: typeof POWERAPPS_EVENT_SCHEMA_VERSION;
+  groupName: string | null;
+  status: string;
+  proofIds: string[];
+  proofNames: string[];
+  email: string;
+}
+
+// #endregion
+
+/**
+ * Handles PageProof proof activity webhooks: new comments, reviewer decisions, new versions,
+ * completed workflow steps and owner changes. None of them change the proof's status, so
+ * they do not lock proofs or evaluate collections; each is forwarded to PowerApps as its own
+ * event type when listed in PAGEPROOF_FORWARD_EVENTS.
+ */
+class ProofActivityService {
+  // #region Forwarding
+
+  public isForwarded(type: ProofActivityType): boolean {
+    return (config.pageProofEvents.forward as string[]).includes(type);
+  }
+
+  // Current status, name and collection of the proof, which the webhook does not always carry
+  private async getEventBase(body: ActivityBody): Promise<ActivityEventBase> {
+    const details = await PageProofService.loadProofDetails(body.proof.id);
+    const groupId = details?.groupId || details?.collectionId || null;
+    const group = groupId ? await PageProofService.getGroupById(groupId) : null;
+
+    return {
+      schemaVersion: POWERAPPS_EVENT_SCHEMA_VERSION,
+      groupName: group?.name ?? null,
+      status: details?.state ?? details?.status ?? body.proof.status ?? 'unknown',
+      proofIds: [body.proof.id],
+      proofNames: [body.proof.name ?? details?.name ?? 'N/A'],
+      email: body.trigger?.email ?? 'N/A',
+    };
+  }
+
+  private async forward(
+    type: ProofActivityType,
+    body: ActivityBody,
+    buildEvent: (base: ActivityEventBase) => PowerAppsEvent,
+  ): Promise<ProofActivityResult> {
+    const proofId = body.proof.id;
+    if (!this.isForwarded(type)) {
+      loggerService.logger.info('Proof activity received, forwarding disabled', { type, proofId });
+      return { status: 200, error: null, message: `${type} received`, forwarded: false };
+    }
+
+    const event = buildEvent(await this.getEventBase(body));
+    const sent = await PowerAppsService.sendToPowerApps(event, {
+      documentType: await groupRuleService.getDocumentType(proofId),
+    });
+    if (!sent.success) {
+      loggerService.logger.error('Failed to forward proof activity', {
+        type,
+        proofId,
+        error: sent.error,
+      });
+      return {
+        status: 500,
+        error: sent.error ?? 'Failed to forward to PowerApps',
+        message: `${type} could not be forwarded`,
+        forwarded: false,
+      };
+    }
+
+    loggerService.logger.info('Proof activity forwarded to PowerApps', { type, proofId });
+    return { status: 200, error: null, message: `${type} forwarded`, forwarded: true };
+  }
+
+  // #endregion
+
+  // #region Handlers
+
+  public async handleCommentCreated(
+    body: z.infer<typeof CommentWebhookSchema>,
+  ): Promise<ProofActivityResult> {
+    return this.forward('commentCreated', body, base => ({
+      ...base,
+      eventType: 'comment_created',
+      reason: 'comment_created',
+      commentId: body.comment.id,
+      text: body.comment.text ?? null,
+      isTodo: !!body.comment.isTodo,
+    }));
+  }
+
+  public async handleDecisionMade(
+    body: z.infer<typeof DecisionWebhookSchema>,
+  ): Promise<ProofActivityResult> {
+    return this.forward('decisionMade', body, base => ({
+      ...base,
+      eventType: 'decision_made',
+      reason: 'decision_made',
+      // The reviewer who decided rather than the webhook trigger
+      email: body.decision.email,
+      decision: body.decision.decision,
+      stepId: body.decision.stepId ?? null,
+    }));
+  }
+
+  public async handleVersionCreated(
+    body: z.infer<typeof VersionCreatedWebhookSchema>,
+  ): Promise<ProofActivityResult> {
+    return this.forward('versionCreated', body, base => ({
+      ...base,
+      eventType: 'version_created',
+      reason: 'version_created',
+      version: body.proof.version ?? null,
+      previousProofId: body.previousProof?.id ?? null,
+    }));
+  }
+
+  public async handleStepCompleted(
+    body: z.infer<typeof StepCompletedWebhookSchema>,
+  ): Promise<ProofActivityResult> {
+    return this.forward('stepCompleted', body, base => ({
+      ...base,
+      eventType: 'step_completed',
+      reason: 'step_completed',
+      stepId: body.step.id,
+      stepName: body.step.name ?? null,
+    }));
+  }
+
+  public async handleOwnerChanged(
+    body: z.infer<typeof OwnerChangedWebhookSchema>,
+  ): Promise<ProofActivityResult> {
+    return this.forward('ownerChanged', body, base => ({
+      ...base,
+      eventType: 'owner_changed',
+      reason: 'owner_changed',
+      ownersAdded: body.owners.added ?? [],
+      ownersRemoved: body.owners.removed ?? [],
+    }));
+  }
+
+  // #endregion
+}
+
+export const proofActivityService = new ProofActivityService();
+export default proofActivityService;
@@ -15,13 +15,119 @@ import {
   ExistingProofDataSchema,
   DueDateUpdateSchema,
   ArchiveProofSchema,
+  ReplaceApproverSchema,
+  WorkflowStep,
+  ProofIdsSchema,
+  ProofMetadataChanges,
+  GroupIdSchema,
+  ProofMetadataChangesSchema,
 } from '../schema/zodSchemas';
 import { Helper } from '../utils/helper';
 
 import { PageProofAuthService } from './pageProofAuthService';
+import { StepTracker, untracked } from './jobService';
+import { groupNotificationService } from './groupNotificationService';
+import { workflowTemplateService } from './workflowTemplateService';
+import { groupRuleService } from './groupRuleService';
+import { circuitBreakerService, isCircuitOpenError } from './circuitBreakerService';
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// SDK client namespaces that call the PageProof API; only their methods go through the breaker
+const PAGEPROOF_API_NAMESPACES = [
+  'accounts',
+  'comments',
+  'dashboard',
+  'files',
+  'proofs',
+  'workflows',
+];
+
+export interface WorkflowStepSummary {
+  id: string;
+  name: string | null;
+  position: number;
+  dueDate: string | null;
+  completeDate: string | null;
+  users: { email: string; role: string | null; decisionDate: string | null }[];
+}
+
+export interface ProofSummary {
+  proofId: string;
+  name: string;
+  status: string;
+  version: number | null;
+  dueDate: string | null;
+  approvedDate: string | null;
+  isLocked: boolean;
+  isArchived: boolean;
+  isOverdue: boolean;
+  collection: { id: string | null; name: string | null };
+  tags: string[];
+  owners: string[];
+  workflow: { id: string | null; steps: WorkflowStepSummary[] };
+  comments: { total: number; todo: number; done: number };
+  shareLink: string;
+}
+
+export interface CommentSummary {
+  commentId: string;
+  author: { email: string | null; name: string | null };
+  pageNumber: number | null;
+  timecode: string | null;
+  status: 'todo' | 'done' | 'unmarked';
+  text: string;
+  createdDate: string | null;
+}
+
+export interface ProofFeedback {
+  proofId: string;
+  proofName: string | null;
+  decisions: { email: string | null; name: string | null; decision: string | null }[];
+  threads: (CommentSummary & { replies: CommentSummary[] })[];
+}
+
+export interface CollectionSummary {
+  id: string;
+  name: string;
+  proofCount: number;
+  isArchived: boolean;
+}
+
+// Proof counts per status for a collection; status is the shared status or 'mixed'
+export interface CollectionStatusSummary {
+  status: string;
+  total: number;
+  overdue: number;
+  counts: Record<string, number>;
+}
+
+export interface MoveProofResult {
+  proofId: string;
+  success: boolean;
+  fromGroupId?: string | null;
+  toGroupId?: string | null;
+  message?: string;
+  error?: string;
+}
+
+export type MetadataField = keyof ProofMetadataChanges;
+
+export interface MetadataUpdateResult {
+  proofId: string;
+  success: boolean;
+  diff?: Partial<Record<MetadataField, { old: unknown; new: unknown }>>;
+  message?: string;
+  error?: string;
+}
+
+// Formats a media time in seconds as hh:mm:ss.mmm
+const toTimecode = (seconds: number | null | undefined): string | null => {
+  if (seconds === null || seconds === undefined || isNaN(seconds)) return null;
+  const date = new Date(Math.round(seconds * 1000));
+  return date.toISOString().substring(11, 23);
+};
+
 class PageProofService {
   // #region Class Variables
   private pageProofClientPromise: Promise<any> | null = null;
@@ -44,14 +150,21 @@ class PageProofService {
     return name.trim().toLowerCase();
   }
   // #region Client Initialization
+  // Login and every client call go through the PageProof circuit breaker
   private async getClient(): Promise<any> {
     const start = Date.now();
     if (!this.pageProofClientPromise) {
-      this.pageProofClientPromise = PageProofAuthService.loginToPageProof().catch(err => {
-        this.pageProofClientPromise = null;
-        this.logError('Client initialization failed', err);
-        throw ErrorHandler.createError(500, 'Failed to initialize PageProof client');
-      });
+      const breaker = circuitBreakerService.get('pageproof');
+      // Each login attempt goes through the breaker, so an open breaker stops the retries
+      this.pageProofClientPromise = PageProofAuthService.loginToPageProof(attempt =>
+        breaker.execute(attempt),
+      )
+        .then(client => breaker.wrap(client, PAGEPROOF_API_NAMESPACES))
+        .catch(err => {
+          this.pageProofClientPromise = null;
+          this.logError('Client initialization failed', err);
+          throw this.toServiceError(err, 'Failed to initialize PageProof client');
+        });
     }
     const client = await this.pageProofClientPromise;
     loggerService.logger.info('getClient completed', { elapsedMs: Date.now() - start });
@@ -76,6 +189,13 @@ class PageProofService {
       ...extra,
     });
   }
+
+  // Keeps the 503 from an open circuit breaker so callers can fail fast; anything else is a 500
+  private toServiceError(error: unknown, message: string): Error {
+    return isCircuitOpenError(error)
+      ? (error as Error)
+      : ErrorHandler.createError(500, message);
+  }
   // #endregion
 
   // #region Upload Files
@@ -232,7 +352,7 @@ class PageProofService {
       } catch (error) {
         this.collectionCache.delete(name);
         this.logError('Collection fetch/create failed', error, { collectionName: name });
-        throw ErrorHandler.createError(500, `Failed to fetch or create collection: ${name}`);
+        throw this.toServiceError(error, `Failed to fetch or create collection: ${name}`);
       }
     })();
 
@@ -243,74 +363,77 @@ class PageProofService {
   // #endregion
 
   // #region Workflow Creation
+  // Maps workflow steps to PageProof step definitions with roles and absolute due dates
+  private toWorkflowStepDefinitions(steps: WorkflowStep[]): any[] {
+    return steps.map(step => {
+      const dueDate = step.dueDate
+        ? new Date(step.dueDate)
+        : step.dueInDays
+          ? new Date(Date.now() + step.dueInDays * 24 * 60 * 60 * 1000)
+          : null;
+
+      return {
+        ...(step.name ? { name: step.name } : {}),
+        ...(dueDate ? { dueDate } : {}),
+        users: [
+          ...step.reviewers.map(email => ({
+            email,
+            ...(step.mandatory ? { role: 'mandatory' } : {}),
+            permissions: { inviter: true },
+          })),
+          ...step.gatekeepers.map(email => ({ email, role: 'gatekeeper' })),
+        ],
+      };
+    });
+  }
+
+  /**
+   * Creates a single-use workflow with every step applied in order. Steps come from the
+   * inline `steps`, a referenced template, or the inline reviewers as a single step.
+   * @param workflow Workflow definition
+   * @param documentType Drafts make single-step inline reviewers mandatory
+   * @returns The created workflow
+   */
   private async createWorkflow(
     workflow: ProofData['workflow'],
     documentType?: string,
   ): Promise<any> {
     const start = Date.now();
+    const parsed = this.validate(WorkflowSchema, workflow, 'Workflow');
+    const { steps, approver } = await workflowTemplateService.resolveWorkflow(
+      parsed,
+      documentType,
+    );
 
     try {
-      const parsed = this.validate(WorkflowSchema, workflow, 'Workflow');
       const client = await this.getClient();
 
-      const reviewers =
-        Array.isArray(parsed.reviewers) && parsed.reviewers.length > 0
-          ? parsed.reviewers.map(email => ({
-              email,
-              permissions: {
-                inviter: true,
-              },
-              ...(documentType === 'drafts'
-                ? {
-                    role: 'mandatory',
-                    permissions: {
-                      inviter: true,
-                    },
-                  }
-                : {}),
-            }))
-          : [];
-
-      const approver =
-        Array.isArray(parsed.approver) && parsed.approver.length > 0
-          ? parsed.approver.map(email => ({ email }))
-          : [];
-
       const workflowCreateStart = Date.now();
       const workflowInstance = await client.workflows.create({
-        reviewers,
-        approver,
+        steps: this.toWorkflowStepDefinitions(steps),
+        approver: approver.map(email => ({ email })),
       });
       loggerService.logger.info('Workflow created', {
+        steps: steps.length,
         elapsedMs: Date.now() - workflowCreateStart,
       });
 
-      // Only set the first step's due date if stepDueDate is present in the workflow metadata
-      if (workflow && Object.prototype.hasOwnProperty.call(workflow, 'stepDueDate')) {
-        const loadStart = Date.now();
+      // Without reviewer steps, stepDueDate applies to the first (approver) step
+      if (!steps.length && parsed.stepDueDate) {
         const loadedWorkflow = await client.workflows.load(workflowInstance.id);
-        loggerService.logger.info('Workflow loaded', { elapsedMs: Date.now() - loadStart });
-        if (
-          loadedWorkflow &&
-          Array.isArray(loadedWorkflow.steps) &&
-          loadedWorkflow.steps.length > 0
-        ) {
-          const dueDate = new Date(
-            Date.now() + Number(process.env.WORKFLOW_STEP_DUE_DATE_OFFSET) * 24 * 60 * 60 * 1000,
-          ); // +5 days
-          const firstStep = loadedWorkflow.steps[0];
-          const stepUpdateStart = Date.now();
-          await client.workflows.steps.update(firstStep.id, { dueDate });
-          loggerService.logger.info('Workflow step due date set', {
-            elapsedMs: Date.now() - stepUpdateStart,
+        const firstStep = loadedWorkflow?.steps?.[0];
+        if (firstStep) {
+          await client.workflows.steps.update(firstStep.id, {
+            dueDate: new Date(parsed.stepDueDate),
           });
+          loggerService.logger.info('Workflow step due date set', { stepId: firstStep.id });
         }
       }
       loggerService.logger.info('createWorkflow completed', { elapsedMs: Date.now() - start });
       return workflowInstance;
     } catch (error) {
       this.logError('Workflow creation failed', error);
-      throw ErrorHandler.createError(500, 'Workflow creation failed');
+      throw this.toServiceError(error, 'Workflow creation failed');
     }
   }
   // #endregion
@@ -319,9 +442,13 @@ class PageProofService {
   /**
    * Creates proofs for the given proof data. Uses Promise.allSettled for robust error handling.
    * @param proofData ProofData object
+   * @param track Optional step tracker used to report progress on an async job
    * @returns Array of created proofs and their file names
    */
-  public async createProofs(proofData: ProofData): Promise<{ proof: any; fileNames: string[] }[]> {
+  public async createProofs(
+    proofData: ProofData,
+    track: StepTracker = untracked,
+  ): Promise<{ proof: any; fileNames: string[] }[]> {
     const totalStart = Date.now();
     loggerService.logger.info('Creating proof(s)', { proofName: proofData.proofName });
 
@@ -334,13 +461,14 @@ class PageProofService {
       fileIds,
       workflow,
       owners,
+      documentType,
     } = this.validate(ProofDataSchema, proofData, 'Proof data');
 
     const fetchStart = Date.now();
     const [client, collection, workflowInstance] = await Promise.all([
       this.getClient(),
       collectionName ? this.ensureCollectionExists(collectionName) : Promise.resolve(null),
-      this.createWorkflow(workflow, proofData.documentType),
+      track('workflow', () => this.createWorkflow(workflow, proofData.documentType)),
     ]);
     loggerService.logger.info('Fetched client, collection, workflow', {
       elapsedMs: Date.now() - fetchStart,
@@ -349,22 +477,29 @@ class PageProofService {
     const createTasks = fileIds.map(async ({ fileId, fileNames }) => {
       const proofStart = Date.now();
       try {
-        const proof = await client.proofs.create({
-          name: proofName,
-          tags,
-          workflow: { id: workflowInstance.id },
-          messageToReviewers,
-          dueDate: new Date(dueDate),
-          file: { id: fileId },
-        });
+        const proof = await track<any>('proofCreation', () =>
+          client.proofs.create({
+            name: proofName,
+            tags,
+            workflow: { id: workflowInstance.id },
+            messageToReviewers,
+            dueDate: new Date(dueDate),
+            file: { id: fileId },
+          }),
+        );
         loggerService.logger.info('Proof created', { fileId, elapsedMs: Date.now() - proofStart });
 
         const groupOwnerStart = Date.now();
         await Promise.all([
-          collection?.id ? client.proofs.groups.addProof(collection.id, proof.id) : null,
+          collection?.id
+            ? track('collection', () => client.proofs.groups.addProof(collection.id, proof.id))
+            : null,
           owners?.length
-            ? Promise.all(owners.map(email => client.proofs.owners.add(proof.id, { email })))
+            ? track('owners', () =>
+                Promise.all(owners.map(email => client.proofs.owners.add(proof.id, { email }))),
+              )
             : null,
+          groupRuleService.recordDocumentType(proof.id, documentType),
         ]);
         loggerService.logger.info('Group/owner assignment done', {
           fileId,
@@ -393,18 +528,23 @@ class PageProofService {
 
     const approverStart = Date.now();
     try {
-      if (workflow.approver.length > 1) {
-        await client.workflows.setApprover(
-          workflowInstance.id,
-          workflow.approver.map(email => ({ email })),
+      const approvers = workflow.approver ?? [];
+      if (approvers.length > 1) {
+        await track('workflow', () =>
+          client.workflows.setApprover(
+            workflowInstance.id,
+            approvers.map(email => ({ email })),
+          ),
+        );
+      } else if (approvers.length === 1) {
+        await track('workflow', () =>
+          client.workflows.setApprover(workflowInstance.id, { email: approvers[0] }),
         );
-      } else if (workflow.approver.length === 1) {
-        await client.workflows.setApprover(workflowInstance.id, { email: workflow.approver[0] });
       }
       loggerService.logger.info('Approver(s) set', { elapsedMs: Date.now() - approverStart });
     } catch (error) {
       this.logError('Failed to set approvers', error, { workflowId: workflowInstance.id });
-      throw ErrorHandler.createError(500, 'Failed to set workflow approvers');
+      throw this.toServiceError(error, 'Failed to set workflow approvers');
     }
 
     loggerService.logger.info('Proof creation completed', {
@@ -455,6 +595,194 @@ class PageProofService {
   }
   // #endregion
 
+  // #region Proof Summaries
+  /**
+   * Loads a workflow by ID.
+   * @param workflowId Workflow ID
+   * @returns The workflow or null
+   */
+  public async loadWorkflow(workflowId: string): Promise<any | null> {
+    const client = await this.getClient();
+
+    try {
+      return await client.workflows.load(workflowId);
+    } catch (error) {
+      this.logError('Failed to load workflow', error, { workflowId });
+      return null;
+    }
+  }
+
+  private toWorkflowSteps(workflow: any): WorkflowStepSummary[] {
+    if (!workflow) return [];
+    const steps: any[] =
+      typeof workflow.getOrderedSteps === 'function'
+        ? workflow.getOrderedSteps()
+        : Array.isArray(workflow.steps)
+          ? [...workflow.steps].sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+          : [];
+
+    return steps.map(step => ({
+      id: step.id,
+      name: step.name ?? null,
+      position: step.position ?? 0,
+      dueDate: Helper.toIsoDate(step.dueDate),
+      completeDate: Helper.toIsoDate(step.completeDate),
+      users: (step.users || []).map((user: any) => ({
+        email: user.email,
+        role: user.role ?? null,
+        decisionDate: Helper.toIsoDate(user.decisionDate),
+      })),
+    }));
+  }
+
+  private toProofSummary(proof: any, workflow: any): ProofSummary {
+    return {
+      proofId: proof.id,
+      name: proof.name,
+      status: proof.state ?? proof.status ?? 'unknown',
+      version: proof.version ?? null,
+      dueDate: Helper.toIsoDate(proof.dueDate),
+      approvedDate: Helper.toIsoDate(proof.approvedDate),
+      isLocked: !!proof.isLocked,
+      isArchived: !!proof.isArchived,
+      isOverdue: !!proof.isOverdue,
+      collection: { id: proof.groupId ?? null, name: proof.groupName ?? null },
+      tags: proof.tags ?? [],
+      owners: (proof.owners || []).map((owner: { email: string }) => owner.email),
+      workflow: { id: proof.workflowId ?? null, steps: this.toWorkflowSteps(workflow) },
+      comments: {
+        total: proof.commentCount ?? 0,
+        todo: proof.todoCommentCount ?? 0,
+        done: proof.doneCommentCount ?? 0,
+      },
+      // generateProofUrl only looks at the extension to pick the static/video viewer
+      shareLink: Helper.generateProofUrl(proof.id, `${proof.name}.${proof.fileExtension ?? ''}`),
+    };
+  }
+
+  /**
+   * Loads a proof and its workflow and returns a normalized summary.
+   * @param proofId Proof ID
+   * @returns The proof summary or null if the proof could not be loaded
+   */
+  public async getProofSummary(proofId: string): Promise<ProofSummary | null> {
+    const details = await this.loadProofDetails(proofId);
+    if (!details) return null;
+
+    const workflow = details.workflowId ? await this.loadWorkflow(details.workflowId) : null;
+    return this.toProofSummary(details, workflow);
+  }
+
+  /**
+   * Loads normalized summaries for every proof in a collection.
+   * @param groupId Group ID
+   * @returns The collection and its proof summaries, or null if the group was not found
+   */
+  public async getCollectionProofSummaries(
+    groupId: string,
+  ): Promise<{ id: string; name: string | null; proofs: ProofSummary[] } | null> {
+    const group = await this.getGroupById(groupId);
+    if (!group) return null;
+
+    const proofs: any[] = Array.isArray(group.proofs) ? group.proofs : [];
+    const summaries = await Promise.all(proofs.map(proof => this.getProofSummary(proof.id)));
+
+    return {
+      id: group.id ?? groupId,
+      name: group.name ?? null,
+      proofs: summaries.filter((s): s is ProofSummary => !!s),
+    };
+  }
+  // #endregion
+
+  // #region Decisions & Comments
+  /**
+   * Loads every reviewer decision made on a proof.
+   * @param proofId Proof ID
+   * @returns Array of reviewer decisions
+   */
+  public async loadDecisions(proofId: string): Promise<any[]> {
+    const id = this.validate(ProofIdSchema, proofId, 'Proof ID');
+    const client = await this.getClient();
+
+    try {
+      return (await client.proofs.decisions.load(id)) ?? [];
+    } catch (error) {
+      this.logError('Failed to load decisions', error, { proofId: id });
+      throw this.toServiceError(error, 'Failed to load proof decisions');
+    }
+  }
+
+  /**
+   * Loads and decrypts every comment (including replies) on a proof.
+   * @param proofId Proof ID
+   * @returns Array of comments
+   */
+  public async loadComments(proofId: string): Promise<any[]> {
+    const id = this.validate(ProofIdSchema, proofId, 'Proof ID');
+    const client = await this.getClient();
+
+    try {
+      return (await client.comments.load({ proofId: id })) ?? [];
+    } catch (error) {
+      this.logError('Failed to load comments', error, { proofId: id });
+      throw this.toServiceError(error, 'Failed to load proof comments');
+    }
+  }
+
+  private toCommentSummary(comment: any): CommentSummary {
+    const text =
+      typeof comment.raw === 'string'
+        ? comment.raw
+        : (comment.tokens?.blocks || []).map((block: any) => block.value).join('\n');
+
+    return {
+      commentId: comment.id,
+      author: { email: comment.user?.email ?? null, name: comment.user?.name ?? null },
+      pageNumber: comment.pageNumber ?? null,
+      timecode: toTimecode(comment.mediaTime ?? comment.pin?.time),
+      status: comment.state === 'todo' || comment.state === 'done' ? comment.state : 'unmarked',
+      text,
+      createdDate: Helper.toIsoDate(comment.createdDate),
+    };
+  }
+
+  /**
+   * Loads decisions and comment threads for a proof, with replies nested under their parent.
+   * @param proofId Proof ID
+   * @returns The proof feedback or null if the proof could not be loaded
+   */
+  public async getProofFeedback(proofId: string): Promise<ProofFeedback | null> {
+    const details = await this.loadProofDetails(proofId);
+    if (!details) return null;
+
+    const [decisions, comments] = await Promise.all([
+      this.loadDecisions(proofId),
+      this.loadComments(proofId),
+    ]);
+
+    const threads = comments
+      .filter(comment => !comment.parentCommentId)
+      .map(comment => ({
+        ...this.toCommentSummary(comment),
+        replies: comments
+          .filter(reply => reply.parentCommentId === comment.id)
+          .map(reply => this.toCommentSummary(reply)),
+      }));
+
+    return {
+      proofId: details.id,
+      proofName: details.name ?? null,
+      decisions: decisions.map(d => ({
+        email: d.user?.email ?? null,
+        name: d.user?.name ?? null,
+        decision: d.decision?.name ?? null,
+      })),
+      threads,
+    };
+  }
+  // #endregion
+
   // #region Lock Proof
   /**
    * Locks a proof in PageProof.
@@ -495,6 +823,8 @@ class PageProofService {
       return [];
     } catch (error) {
       this.logError('Failed to fetch proofs in group', error, { groupId: id });
+      // An open breaker must not look like an empty group to group evaluation or the sweeper
+      if (isCircuitOpenError(error)) throw error;
       return [];
     }
   }
@@ -514,11 +844,201 @@ class PageProofService {
       return group || null;
     } catch (error) {
       this.logError('Failed to fetch group by id', error, { groupId: id });
+      if (isCircuitOpenError(error)) throw error;
       return null;
     }
   }
   // #endregion
 
+  // #region Collection Management
+  /**
+   * Drops all cached collection lookups so the next ensureCollectionExists call
+   * sees the current groups in PageProof.
+   */
+  public invalidateCollectionCache(): void {
+    this.collectionCache.clear();
+  }
+
+  /**
+   * Lists the collections currently shown on the dashboard.
+   * @returns Collections sorted by name
+   */
+  public async listCollections(): Promise<CollectionSummary[]> {
+    this.invalidateCollectionCache();
+    const client = await this.getClient();
+
+    try {
+      const groups: any[] = (await client.dashboard.groups.current()) || [];
+      return groups
+        .map(group => ({
+          id: group.id,
+          name: group.name,
+          proofCount: Array.isArray(group.proofs) ? group.proofs.length : (group.proofCount ?? 0),
+          isArchived: !!group.isArchived,
+        }))
+        .sort((a, b) => (a.name ?? '').localeCompare(b.name ?? ''));
+    } catch (error) {
+      this.logError('Failed to list collections', error);
+      throw this.toServiceError(error, 'Failed to list collections');
+    }
+  }
+
+  /**
+   * Counts the proofs in a collection per status, treating overdue proofs as overdue.
+   * @param proofs Proof summaries of the collection
+   */
+  public summarizeCollectionStatus(proofs: ProofSummary[]): CollectionStatusSummary {
+    const counts: Record<string, number> = {};
+    proofs.forEach(proof => {
+      const status = proof.isOverdue ? 'overdue' : proof.status;
+      counts[status] = (counts[status] ?? 0) + 1;
+    });
+
+    const statuses = Object.keys(counts);
+    return {
+      status: statuses.length === 1 ? statuses[0] : statuses.length ? 'mixed' : 'empty',
+      total: proofs.length,
+      overdue: counts.overdue ?? 0,
+      counts,
+    };
+  }
+
+  /**
+   * Loads a collection with the summaries of its proofs and their aggregated status.
+   * @param groupId Group ID
+   * @returns The collection, or null if it was not found
+   */
+  public async getCollection(groupId: string): Promise<
+    | {
+        id: string;
+        name: string | null;
+        proofs: ProofSummary[];
+        status: CollectionStatusSummary;
+      }
+    | null
+  > {
+    const id = this.validate(GroupIdSchema, groupId, 'Group ID');
+    this.invalidateCollectionCache();
+
+    const collection = await this.getCollectionProofSummaries(id);
+    if (!collection) return null;
+
+    return { ...collection, status: this.summarizeCollectionStatus(collection.proofs) };
+  }
+
+  /**
+   * Renames a collection.
+   * @param groupId Group ID
+   * @param newName New collection name
+   * @throws 404 if the collection does not exist, 409 if another collection has the name
+   */
+  public async renameCollection(
+    groupId: string,
+    newName: string,
+  ): Promise<{ id: string; previousName: string | null; name: string }> {
+    const id = this.validate(GroupIdSchema, groupId, 'Group ID');
+    const name = this.validate(CollectionNameSchema, newName, 'Collection name');
+
+    const group = await this.getGroupById(id);
+    if (!group) throw ErrorHandler.createError(404, 'Collection not found');
+
+    const existing = await this.listCollections();
+    const conflict = existing.find(
+      other => other.id !== id && this.normalizeName(other.name) === this.normalizeName(name),
+    );
+    if (conflict) {
+      throw ErrorHandler.createError(409, `A collection named ${conflict.name} already exists`);
+    }
+
+    const client = await this.getClient();
+    try {
+      await client.proofs.groups.update(id, { name });
+    } catch (error) {
+      this.logError('Failed to rename collection', error, { groupId: id });
+      throw this.toServiceError(error, 'Failed to rename collection');
+    } finally {
+      this.invalidateCollectionCache();
+    }
+
+    loggerService.logger.info('Collection renamed', {
+      groupId: id,
+      previousName: group.name ?? null,
+      name,
+    });
+    return { id, previousName: group.name ?? null, name };
+  }
+
+  /**
+   * Moves proofs into a collection, taking them out of their current one first.
+   * @param proofIds Proof IDs to move
+   * @param targetGroupId Destination group ID, or null to take the proofs out of their collection
+   * @returns Per-proof results with the source and destination group
+   * @throws 404 if the destination collection does not exist
+   */
+  public async moveProofs(
+    proofIds: string[],
+    targetGroupId: string | null,
+  ): Promise<MoveProofResult[]> {
+    const ids = this.validate(ProofIdsSchema, proofIds, 'Proof IDs');
+    const target = targetGroupId ? this.validate(GroupIdSchema, targetGroupId, 'Group ID') : null;
+
+    if (target && !(await this.getGroupById(target))) {
+      throw ErrorHandler.createError(404, 'Target collection not found');
+    }
+
+    loggerService.logger.info('PageProofService: moveProofs started', {
+      proofCount: ids.length,
+      targetGroupId: target,
+    });
+
+    const client = await this.getClient();
+
+    // Sequential, so two proofs never race on the same group
+    const results: MoveProofResult[] = [];
+    for (const proofId of ids) {
+      try {
+        const details = await this.loadProofDetails(proofId);
+        if (!details) {
+          results.push({ proofId, success: false, error: 'Proof not found' });
+          continue;
+        }
+
+        const fromGroupId: string | null = details.groupId ?? null;
+        if (fromGroupId === target) {
+          results.push({
+            proofId,
+            success: true,
+            fromGroupId,
+            toGroupId: target,
+            message: 'Proof already in collection',
+          });
+          continue;
+        }
+
+        if (fromGroupId) await client.proofs.groups.removeProof(proofId);
+        if (target) await client.proofs.groups.addProof(target, proofId);
+        results.push({
+          proofId,
+          success: true,
+          fromGroupId,
+          toGroupId: target,
+          message: target ? 'Proof moved successfully' : 'Proof removed from collection',
+        });
+      } catch (err) {
+        this.logError('Failed to move proof', err, { proofId, targetGroupId: target });
+        results.push({ proofId, success: false, error: (err as Error).message });
+      }
+    }
+
+    this.invalidateCollectionCache();
+    loggerService.logger.info('PageProofService: moveProofs completed', {
+      proofCount: results.length,
+      moved: results.filter(r => r.success).length,
+    });
+    return results;
+  }
+  // #endregion
+
   // #region Add Owners to proofs
   /**
    * Gets group details (including name) by groupId
@@ -637,10 +1157,14 @@ class PageProofService {
    * Gets group details (including name) by groupId
    * @param proofId Proof ID
    * @param proofData Existing Proof data
-
+   * @param track Optional step tracker used to report progress on an async job
    * @returns Updated proofs metadata and files
    */
-  public async updateProofVersion(proofId: string, proofData: ExistingProofData): Promise<any[]> {
+  public async updateProofVersion(
+    proofId: string,
+    proofData: ExistingProofData,
+    track: StepTracker = untracked,
+  ): Promise<any[]> {
     const id = this.validate(ProofIdSchema, proofId, 'Proof ID');
     const data = this.validate(ExistingProofDataSchema, proofData, 'Existing proof data');
 
@@ -658,25 +1182,32 @@ class PageProofService {
         throw ErrorHandler.createError(500, 'Failed to load latest proof version');
       }
 
-      const workflowInstance = await client.workflows.duplicate(
-        latestProof.workflowId || data.workflowId,
+      const workflowInstance = await track<any>('workflow', () =>
+        client.workflows.duplicate(latestProof.workflowId || data.workflowId),
       );
+      // New versions get new proof IDs, which need the document type for rules and routing
+      const documentType =
+        (await groupRuleService.getDocumentType(latestVersion.id)) ??
+        (await groupRuleService.getDocumentType(id));
 
       const updateTasks = data.fileIds.map(async ({ fileId, fileNames }) => {
         try {
-          const proof = await client.proofs.create({
-            name: data.name || latestProof.name,
-            groupId: data.groupId || latestProof.groupId,
-            tags: data.tags || latestProof.tags,
-            workflowTemplate: { id: workflowInstance.id },
-            messageToReviewers: data.messageToReviewers || latestProof.messageToReviewers,
-            dueDate: data.dueDate || latestProof.dueDate,
-            file: { id: fileId },
-            previousProof: { id: latestVersion.id },
-          });
+          const proof = await track<any>('proofCreation', () =>
+            client.proofs.create({
+              name: data.name || latestProof.name,
+              groupId: data.groupId || latestProof.groupId,
+              tags: data.tags || latestProof.tags,
+              workflowTemplate: { id: workflowInstance.id },
+              messageToReviewers: data.messageToReviewers || latestProof.messageToReviewers,
+              dueDate: data.dueDate || latestProof.dueDate,
+              file: { id: fileId },
+              previousProof: { id: latestVersion.id },
+            }),
+          );
           if (!proof?.id) {
             throw ErrorHandler.createError(500, 'Proof creation returned invalid proof object');
           }
+          if (documentType) await groupRuleService.recordDocumentType(proof.id, documentType);
           return proof;
         } catch (error) {
           this.logError('Version update failed', error, { proofId: id, fileId });
@@ -877,6 +1408,262 @@ class PageProofService {
     }
   }
   // #endregion
+
+  // #region Replace Approver
+  /**
+   * Swaps the approver on a proof's existing workflow, leaving reviewer steps untouched.
+   * @param proofId Proof ID
+   * @param newApproverEmail Email of the new approver
+   * @returns The workflow ID with the previous and new approver
+   */
+  public async replaceApprover(
+    proofId: string,
+    newApproverEmail: string,
+  ): Promise<{
+    proofId: string;
+    workflowId: string;
+    previousApprover: string[];
+    newApprover: string;
+  }> {
+    const { proofId: id, newApproverEmail: email } = this.validate(
+      ReplaceApproverSchema,
+      { proofId, newApproverEmail },
+      'Replace approver data',
+    );
+
+    const details = await this.loadProofDetails(id);
+    if (!details) throw ErrorHandler.createError(404, 'Proof not found');
+    if (!details.workflowId) {
+      throw ErrorHandler.createError(400, `Workflow ID not found for proof ${id}`);
+    }
+
+    const workflow = await this.loadWorkflow(details.workflowId);
+    if (!workflow) throw ErrorHandler.createError(404, 'Workflow not found');
+
+    const approverStep =
+      typeof workflow.getApproverStep === 'function' ? workflow.getApproverStep() : null;
+    const previousApprover: string[] = (approverStep?.users || []).map((user: any) => user.email);
+
+    const client = await this.getClient();
+
+    try {
+      await client.workflows.setApprover(details.workflowId, { email });
+    } catch (error) {
+      this.logError('Failed to replace approver', error, {
+        proofId: id,
+        workflowId: details.workflowId,
+      });
+      throw this.toServiceError(error, 'Failed to replace approver');
+    }
+
+    loggerService.logger.info('Approver replaced', {
+      proofId: id,
+      workflowId: details.workflowId,
+      previousApprover,
+      newApprover: email,
+    });
+
+    return { proofId: id, workflowId: details.workflowId, previousApprover, newApprover: email };
+  }
+  // #endregion
+
+  // #region Unlock Proofs
+  /**
+   * Unlocks proofs in PageProof. Proofs whose group has already been reported to PowerApps
+   * as fully approved are refused unless `force` is set.
+   * @param proofIdOrIds Single proof ID or array of proof IDs
+   * @param force Unlock even if the group was already sent to PowerApps as fully approved
+   * @returns Array of unlock results
+   */
+  public async unlockProofs(
+    proofIdOrIds: string | string[],
+    force: boolean = false,
+  ): Promise<{ proofId: string; success: boolean; message?: string; error?: string }[]> {
+    const parsedProofIds = this.validate(ArchiveProofSchema, proofIdOrIds, 'Unlock proof data');
+    const proofIds = Array.isArray(parsedProofIds) ? parsedProofIds : [parsedProofIds];
+
+    loggerService.logger.info('PageProofService: unlockProofs started', {
+      proofCount: proofIds.length,
+      force,
+    });
+
+    const client = await this.getClient();
+
+    const results = await Promise.all(
+      proofIds.map(async proofId => {
+        try {
+          const details = await this.loadProofDetails(proofId);
+          if (!details) return { proofId, success: false, error: 'Proof not found' };
+
+          if (!force && details.groupId) {
+            const notification = await groupNotificationService.getFullyApproved(details.groupId);
+            if (notification) {
+              return {
+                proofId,
+                success: false,
+                error: `Group ${notification.groupName ?? details.groupId} was sent to PowerApps as fully approved on ${notification.sentAt}; pass force to unlock anyway`,
+              };
+            }
+          }
+
+          await client.proofs.unlock(proofId);
+          return { proofId, success: true, message: 'Proof unlocked successfully' };
+        } catch (err) {
+          this.logError('Failed to unlock proof', err, { proofId });
+          return { proofId, success: false, error: (err as Error).message };
+        }
+      }),
+    );
+
+    loggerService.logger.info('PageProofService: unlockProofs completed', {
+      proofCount: results.length,
+      unlocked: results.filter(r => r.success).length,
+    });
+    return results;
+  }
+  // #endregion
+
+  // #region Restore Proofs
+  /**
+   * Restores (un-archives) proofs in PageProof so they are visible to their users again.
+   * @param proofIdOrIds Single proof ID or array of proof IDs
+   * @returns Array of restore results
+   */
+  public async restoreProofs(
+    proofIdOrIds: string | string[],
+  ): Promise<{ proofId: string; success: boolean; message?: string; error?: string }[]> {
+    const parsedProofIds = this.validate(ArchiveProofSchema, proofIdOrIds, 'Restore proof data');
+    const proofIds = Array.isArray(parsedProofIds) ? parsedProofIds : [parsedProofIds];
+
+    loggerService.logger.info('PageProofService: restoreProofs started', {
+      proofCount: proofIds.length,
+    });
+
+    const client = await this.getClient();
+
+    const results = await Promise.all(
+      proofIds.map(async proofId => {
+        try {
+          await client.proofs.unarchive(proofId);
+          return { proofId, success: true, message: 'Proof restored successfully' };
+        } catch (err) {
+          this.logError('Failed to restore proof', err, { proofId });
+          return { proofId, success: false, error: (err as Error).message };
+        }
+      }),
+    );
+
+    loggerService.logger.info('PageProofService: restoreProofs completed', {
+      proofCount: results.length,
+      restored: results.filter(r => r.success).length,
+    });
+    return results;
+  }
+  // #endregion
+
+  // #region Update Proof Metadata
+  // Current value of each editable metadata field, normalized for comparison
+  private toMetadataSnapshot(proof: any): Record<MetadataField, unknown> {
+    return {
+      name: proof?.name ?? null,
+      tags: proof?.tags ?? [],
+      messageToReviewers: proof?.messageToReviewers ?? null,
+      dueDate: Helper.toIsoDate(proof?.dueDate),
+      owners: (proof?.owners ?? [])
+        .map((owner: string | { email: string }) =>
+          (typeof owner === 'string' ? owner : owner.email).toLowerCase(),
+        )
+        .sort(),
+    };
+  }
+
+  // Adds the new owners before removing the others, so the proof never runs out of owners
+  private async setOwners(client: any, proofId: string, current: string[], owners: string[]) {
+    const wanted = owners.map(email => email.toLowerCase());
+    for (const email of wanted.filter(owner => !current.includes(owner))) {
+      await client.proofs.owners.add(proofId, { email });
+    }
+    for (const email of current.filter(owner => !wanted.includes(owner))) {
+      await client.proofs.owners.remove(proofId, { email });
+    }
+  }
+
+  /**
+   * Applies the same metadata changes to each proof. Fields already holding the requested
+   * value are left alone; a proof with nothing to change is not updated at all.
+   * @param proofIds Proof IDs to update
+   * @param changes Fields to change (name, tags, messageToReviewers, dueDate, owners)
+   * @returns Per-proof results with the old and new value of every changed field
+   */
+  public async updateProofMetadata(
+    proofIds: string[],
+    changes: ProofMetadataChanges,
+  ): Promise<MetadataUpdateResult[]> {
+    const ids = this.validate(ProofIdsSchema, proofIds, 'Proof IDs');
+    const parsedChanges = this.validate(ProofMetadataChangesSchema, changes, 'Metadata changes');
+    const requested = this.toMetadataSnapshot(parsedChanges);
+    const fields = (Object.keys(parsedChanges) as MetadataField[]).filter(
+      field => parsedChanges[field] !== undefined,
+    );
+
+    loggerService.logger.info('PageProofService: updateProofMetadata started', {
+      proofCount: ids.length,
+      fields,
+    });
+
+    const client = await this.getClient();
+
+    const results = await Promise.all(
+      ids.map(async (proofId): Promise<MetadataUpdateResult> => {
+        try {
+          const details = await this.loadProofDetails(proofId);
+          if (!details) return { proofId, success: false, error: 'Proof not found' };
+
+          const before = this.toMetadataSnapshot(details);
+          const changedFields = fields.filter(
+            field => JSON.stringify(before[field]) !== JSON.stringify(requested[field]),
+          );
+          if (!changedFields.length) {
+            return { proofId, success: true, diff: {}, message: 'Metadata already up to date' };
+          }
+
+          const update: Record<string, unknown> = { id: proofId };
+          changedFields
+            .filter(field => field !== 'owners')
+            .forEach(field => {
+              update[field] =
+                field === 'dueDate' ? new Date(parsedChanges.dueDate!) : parsedChanges[field];
+            });
+          // Owners are changed through the owners API, not the proof update
+          const updated =
+            Object.keys(update).length > 1 ? await client.proofs.update(update) : null;
+          if (changedFields.includes('owners')) {
+            await this.setOwners(client, proofId, before.owners as string[], parsedChanges.owners!);
+          }
+          const after = {
+            ...(updated ? this.toMetadataSnapshot(updated) : requested),
+            owners: requested.owners,
+          };
+
+          const diff: MetadataUpdateResult['diff'] = {};
+          changedFields.forEach(field => {
+            diff[field] = { old: before[field], new: after[field] };
+          });
+          return { proofId, success: true, diff, message: 'Metadata updated successfully' };
+        } catch (err) {
+          this.logError('Failed to update proof metadata', err, { proofId });
+          return { proofId, success: false, error: (err as Error).message };
+        }
+      }),
+    );
+
+    loggerService.logger.info('PageProofService: updateProofMetadata completed', {
+      proofCount: results.length,
+      updated: results.filter(r => r.success).length,
+    });
+    return results;
+  }
+  // #endregion
 }
 
 export default new PageProofService();
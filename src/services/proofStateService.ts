@@ -0,0 +1,333 @@
+import { randomUUID } from 'crypto';
+
+import { Mutex } from 'async-mutex';
+
+import { loggerService } from '../utils/logger';
+import { ErrorHandler } from '../utils/errorHandler';
+import { AppendOnlyLog } from '../utils/appendOnlyLog';
+
+import { normalizeProofStatus, ProofStatus } from './groupStatusService';
+
+// #region Types
+
+// Lifecycle states of a proof; PageProof's `active` is tracked as in_proofing
+export type ProofState = Exclude<ProofStatus, ProofStatus.Active>;
+
+export type TransitionSource = 'webhook' | 'api' | 'sweeper';
+
+export interface ProofTransition {
+  id: string;
+  proofId: string;
+  // Null for the first state recorded for a proof
+  from: ProofState | null;
+  to: ProofState;
+  at: string;
+  triggerEmail: string | null;
+  source: TransitionSource;
+  reason: string | null;
+}
+
+export interface TransitionContext {
+  source: TransitionSource;
+  triggerEmail?: string | null;
+  reason?: string | null;
+}
+
+// #endregion
+
+/**
+ * States a proof may move to from each state. Locked and archived proofs leave those states
+ * through release(), which returns them to the state they were in before. A locked proof
+ * also leaves it when PageProof reports a new status through record(), as it was unlocked
+ * in PageProof itself.
+ */
+const TRANSITIONS: Record<ProofState, ProofState[]> = {
+  [ProofStatus.New]: [
+    ProofStatus.InProofing,
+    ProofStatus.WithApprover,
+    ProofStatus.Locked,
+    ProofStatus.Archived,
+  ],
+  [ProofStatus.InProofing]: [
+    ProofStatus.WithApprover,
+    ProofStatus.Approved,
+    ProofStatus.TodosRequested,
+    ProofStatus.Overdue,
+    ProofStatus.Locked,
+    ProofStatus.Archived,
+  ],
+  [ProofStatus.WithApprover]: [
+    ProofStatus.InProofing,
+    ProofStatus.Approved,
+    ProofStatus.TodosRequested,
+    ProofStatus.Overdue,
+    ProofStatus.Locked,
+    ProofStatus.Archived,
+  ],
+  [ProofStatus.Overdue]: [
+    ProofStatus.InProofing,
+    ProofStatus.WithApprover,
+    ProofStatus.Approved,
+    ProofStatus.TodosRequested,
+    ProofStatus.Locked,
+    ProofStatus.Archived,
+  ],
+  // A new version starts another round of proofing
+  [ProofStatus.TodosRequested]: [
+    ProofStatus.InProofing,
+    ProofStatus.WithApprover,
+    ProofStatus.Locked,
+    ProofStatus.Archived,
+  ],
+  [ProofStatus.Approved]: [ProofStatus.InProofing, ProofStatus.Locked, ProofStatus.Archived],
+  [ProofStatus.Locked]: [ProofStatus.Archived],
+  [ProofStatus.Archived]: [],
+};
+
+// Minimum time between two compactions of the transition log
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Maps a PageProof status onto a proof state.
+ * @returns The state, or null for statuses outside the lifecycle
+ */
+export const toProofState = (status: string | null | undefined): ProofState | null => {
+  const normalized = normalizeProofStatus(status);
+  if (normalized === ProofStatus.Active) return ProofStatus.InProofing;
+  return normalized && normalized in TRANSITIONS ? (normalized as ProofState) : null;
+};
+
+/**
+ * Tracks each proof through its lifecycle (new, in proofing, with approver, approved or
+ * todos requested, locked, archived, plus overdue) and keeps every transition, with its
+ * trigger email and source, in an append-only log. Webhook and sweeper flows use record(),
+ * which never throws, so PageProof events are not blocked by an unexpected transition;
+ * API actions use transition(), which rejects it. The history of a proof is dropped once
+ * its latest transition is older than the retention window.
+ */
+class ProofStateService {
+  private readonly RETENTION_MS = Number(
+    process.env.PROOF_TRANSITION_RETENTION_MS ?? 180 * 24 * 60 * 60 * 1000,
+  ); // 180 days default
+
+  private log = new AppendOnlyLog<ProofTransition>('proof-transitions.jsonl');
+  // First load of the transition log; concurrent callers wait on the same read
+  private loading: Promise<Map<string, ProofTransition[]>> | null = null;
+  private readonly mutex = new Mutex();
+  private lastPrunedAt = 0;
+
+  private load(): Promise<Map<string, ProofTransition[]>> {
+    this.loading ??= this.readHistory().catch(error => {
+      this.loading = null;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async readHistory(): Promise<Map<string, ProofTransition[]>> {
+    const history = new Map<string, ProofTransition[]>();
+    (await this.log.readAll()).forEach(transition => {
+      if (!history.has(transition.proofId)) history.set(transition.proofId, []);
+      history.get(transition.proofId)!.push(transition);
+    });
+    await this.prune(history);
+    return history;
+  }
+
+  // Drops proofs with no transition inside the retention window and compacts the log
+  private async prune(history: Map<string, ProofTransition[]>): Promise<void> {
+    this.lastPrunedAt = Date.now();
+    const cutoff = this.lastPrunedAt - this.RETENTION_MS;
+    for (const [proofId, transitions] of history) {
+      if (Date.parse(transitions[transitions.length - 1].at) < cutoff) history.delete(proofId);
+    }
+
+    // A failed compaction only leaves the log larger; it is retried on the next prune
+    try {
+      const removed = await this.log.compact(transition => history.has(transition.proofId));
+      if (removed > 0) {
+        loggerService.logger.info('Pruned proof transitions', { removed, proofs: history.size });
+      }
+    } catch (error) {
+      loggerService.logger.warn('Failed to compact proof transitions', {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  public canTransition(from: ProofState | null, to: ProofState): boolean {
+    return from === null || from === to || TRANSITIONS[from].includes(to);
+  }
+
+  // #region Queries
+
+  /**
+   * Current state of a proof.
+   * @returns The state, or null if no transition was recorded for the proof
+   */
+  public async getState(proofId: string): Promise<ProofState | null> {
+    const transitions = (await this.load()).get(proofId);
+    return transitions?.[transitions.length - 1].to ?? null;
+  }
+
+  // Transitions of a proof, oldest first
+  public async getHistory(proofId: string): Promise<ProofTransition[]> {
+    return [...((await this.load()).get(proofId) ?? [])];
+  }
+
+  /**
+   * Checks that a proof may move to a state without recording anything.
+   * @throws 409 if the state machine does not allow the transition
+   */
+  public async assertTransition(proofId: string, to: ProofState): Promise<void> {
+    const from = await this.getState(proofId);
+    if (!this.canTransition(from, to)) {
+      throw ErrorHandler.createError(
+        409,
+        `Proof cannot move from ${from} to ${to}`,
+        'INVALID_TRANSITION',
+      );
+    }
+  }
+
+  // #endregion
+
+  // #region Transitions
+
+  /**
+   * Moves a proof to a new state and persists the transition.
+   * @param proofId Proof ID
+   * @param status New status; PageProof spellings are accepted
+   * @param context Source, trigger email and reason stored with the transition
+   * @returns The stored transition, or null if the proof was already in that state
+   * @throws 400 for statuses outside the lifecycle, 409 for transitions that are not allowed
+   */
+  public async transition(
+    proofId: string,
+    status: string,
+    context: TransitionContext,
+  ): Promise<ProofTransition | null> {
+    const to = toProofState(status);
+    if (!to) throw ErrorHandler.createError(400, `Unknown proof state ${status}`, 'INVALID_STATE');
+
+    return this.mutex.runExclusive(async () => {
+      const from = await this.getState(proofId);
+      if (from === to) return null;
+      if (!this.canTransition(from, to)) {
+        throw ErrorHandler.createError(
+          409,
+          `Proof cannot move from ${from} to ${to}`,
+          'INVALID_TRANSITION',
+        );
+      }
+      return this.append(proofId, from, to, context);
+    });
+  }
+
+  /**
+   * Like transition(), but logs instead of throwing and skips statuses outside the lifecycle.
+   * Used for state changes that already happened in PageProof, so a locked proof moves on
+   * to the reported status, with a note in the reason, instead of staying locked.
+   */
+  public async record(
+    proofId: string,
+    status: string | null | undefined,
+    context: TransitionContext,
+  ): Promise<ProofTransition | null> {
+    const to = toProofState(status);
+    if (!to) return null;
+    try {
+      return await this.mutex.runExclusive(async () => {
+        const from = await this.getState(proofId);
+        if (from === to) return null;
+        if (this.canTransition(from, to)) return this.append(proofId, from, to, context);
+        if (from !== ProofStatus.Locked) {
+          throw ErrorHandler.createError(
+            409,
+            `Proof cannot move from ${from} to ${to}`,
+            'INVALID_TRANSITION',
+          );
+        }
+
+        const note = 'Unlocked in PageProof';
+        return this.append(proofId, from, to, {
+          ...context,
+          reason: context.reason ? `${note}: ${context.reason}` : note,
+        });
+      });
+    } catch (error) {
+      loggerService.logger.warn('Proof state transition not recorded', {
+        proofId,
+        status,
+        source: context.source,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Takes a proof out of the locked or archived state, back to the state it had before.
+   * Proofs not in that state are left as they are.
+   * @returns The stored transition, or null if the proof was not in the state
+   */
+  public async release(
+    proofId: string,
+    state: ProofStatus.Locked | ProofStatus.Archived,
+    context: TransitionContext,
+  ): Promise<ProofTransition | null> {
+    // A restored proof may still be locked; an unlocked one goes back to before any lock
+    const skipped: ProofState[] =
+      state === ProofStatus.Locked ? [ProofStatus.Locked, ProofStatus.Archived] : [state];
+
+    return this.mutex.runExclusive(async () => {
+      const transitions = await this.getHistory(proofId);
+      if (transitions[transitions.length - 1]?.to !== state) return null;
+
+      const previous = [...transitions]
+        .reverse()
+        .find(transition => transition.from && !skipped.includes(transition.from));
+      return this.append(proofId, state, previous?.from ?? ProofStatus.InProofing, context);
+    });
+  }
+
+  private async append(
+    proofId: string,
+    from: ProofState | null,
+    to: ProofState,
+    context: TransitionContext,
+  ): Promise<ProofTransition> {
+    const history = await this.load();
+    const transition: ProofTransition = {
+      id: randomUUID(),
+      proofId,
+      from,
+      to,
+      at: new Date().toISOString(),
+      triggerEmail: context.triggerEmail ?? null,
+      source: context.source,
+      reason: context.reason ?? null,
+    };
+
+    // Held before the append so a concurrent compaction keeps the new line
+    if (!history.has(proofId)) history.set(proofId, []);
+    const transitions = history.get(proofId)!;
+    transitions.push(transition);
+    try {
+      await this.log.append(transition);
+    } catch (error) {
+      transitions.pop();
+      if (!transitions.length) history.delete(proofId);
+      throw error;
+    }
+    loggerService.logger.info('Proof state changed', { ...transition });
+
+    if (Date.now() - this.lastPrunedAt >= PRUNE_INTERVAL_MS) await this.prune(history);
+    return transition;
+  }
+
+  // #endregion
+}
+
+export const proofStateService = new ProofStateService();
+export default proofStateService;
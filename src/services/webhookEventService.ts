@@ -0,0 +1,392 @@
+import { randomUUID } from 'crypto';
+
+import { loggerService } from '../utils/logger';
+import { ErrorHandler } from '../utils/errorHandler';
+import { AppendOnlyLog } from '../utils/appendOnlyLog';
+
+import { webhookHandlerService } from './webhookHandlerService';
+import { webhookGuardService } from './webhookGuardService';
+
+// #region Types
+
+// Name of the handler that received the event, or the event type of an unhandled event
+export type WebhookEventType = string;
+export type WebhookOutcomeStatus = 'processed' | 'failed' | 'rejected' | 'ignored' | 'unhandled';
+
+export interface WebhookVerification {
+  signatureValid: boolean;
+  bodyValid: boolean;
+  errors: string[];
+}
+
+export interface WebhookOutcome {
+  status: WebhookOutcomeStatus;
+  statusCode: number;
+  error: string | null;
+  processedAt: string;
+  replay: boolean;
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  receivedAt: string;
+  rawBody: string;
+  headers: Record<string, string>;
+  verification: WebhookVerification;
+  outcomes: WebhookOutcome[];
+}
+
+export interface WebhookEventFilter {
+  from?: string;
+  to?: string;
+  type?: WebhookEventType;
+  status?: WebhookOutcomeStatus | 'pending';
+  limit?: number;
+  offset?: number;
+}
+
+export interface WebhookEventPage {
+  // Events matching the filter, before limit and offset
+  total: number;
+  events: WebhookEvent[];
+}
+
+interface OutcomeOptions {
+  replay?: boolean;
+  ignored?: boolean;
+  unhandled?: boolean;
+}
+
+// Lines in the log: an event when it arrives, then one line per processing attempt
+type WebhookLogRecord =
+  | { kind: 'received'; event: Omit<WebhookEvent, 'outcomes'> }
+  | { kind: 'outcome'; eventId: string; outcome: WebhookOutcome };
+
+// #endregion
+
+// Headers that carry credentials and are never persisted
+const REDACTED_HEADERS = ['authorization', 'cookie', 'x-api-key'];
+
+// Minimum time between two compactions of the log while events are being recorded
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Latest outcomes replayRange() replays unless other statuses are asked for
+const REPLAYED_STATUSES: (WebhookOutcomeStatus | 'pending')[] = ['failed', 'pending'];
+
+const eventIdOf = (record: WebhookLogRecord): string =>
+  record.kind === 'received' ? record.event.id : record.eventId;
+
+/**
+ * Keeps verified inbound PageProof webhooks, with their raw body, headers, verification
+ * result and each processing outcome, in an append-only log so events can be inspected
+ * and replayed through WebhookService after a downstream outage. Events older than the
+ * retention window, and the oldest events beyond the size cap, are pruned.
+ */
+class WebhookEventService {
+  private readonly RETENTION_MS = Number(
+    process.env.WEBHOOK_EVENT_RETENTION_MS ?? 30 * 24 * 60 * 60 * 1000,
+  ); // 30 days default
+  private readonly MAX_EVENTS = Number(process.env.WEBHOOK_EVENT_MAX_EVENTS ?? 10000);
+
+  private log = new AppendOnlyLog<WebhookLogRecord>('webhook-events.jsonl');
+  // Shared by concurrent callers, so the log is read and pruned once
+  private loading: Promise<Map<string, WebhookEvent>> | null = null;
+  private lastPrunedAt = 0;
+
+  private load(): Promise<Map<string, WebhookEvent>> {
+    this.loading ??= this.readEvents().catch(error => {
+      this.loading = null;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async readEvents(): Promise<Map<string, WebhookEvent>> {
+    const events = new Map<string, WebhookEvent>();
+    (await this.log.readAll()).forEach(record => {
+      if (record.kind === 'received') {
+        events.set(record.event.id, { ...record.event, outcomes: [] });
+      } else {
+        events.get(record.eventId)?.outcomes.push(record.outcome);
+      }
+    });
+    await this.prune(events);
+    return events;
+  }
+
+  /**
+   * Drops events past the retention window or beyond the size cap from memory, then
+   * compacts the log to the events that are left. Events are held in the order they were
+   * received, so the oldest come first.
+   */
+  private async prune(events: Map<string, WebhookEvent>): Promise<void> {
+    this.lastPrunedAt = Date.now();
+    const cutoff = this.lastPrunedAt - this.RETENTION_MS;
+    for (const [id, event] of events) {
+      if (Date.parse(event.receivedAt) < cutoff) events.delete(id);
+    }
+    this.evictOverflow(events);
+
+    // A failed compaction only leaves the log larger; it is retried on the next prune
+    try {
+      const removed = await this.log.compact(record => events.has(eventIdOf(record)));
+      if (removed > 0) {
+        loggerService.logger.info('Pruned stored webhook events', { removed, kept: events.size });
+      }
+    } catch (error) {
+      loggerService.logger.warn('Failed to compact stored webhook events', {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  // Drops the oldest events beyond the size cap; the log is compacted on the next prune
+  private evictOverflow(events: Map<string, WebhookEvent>): void {
+    for (const id of events.keys()) {
+      if (events.size <= this.MAX_EVENTS) return;
+      events.delete(id);
+    }
+  }
+
+  private sanitizeHeaders(headers: Record<string, unknown>): Record<string, string> {
+    const sanitized: Record<string, string> = {};
+    Object.entries(headers).forEach(([name, value]) => {
+      if (value === undefined || REDACTED_HEADERS.includes(name.toLowerCase())) return;
+      sanitized[name] = Array.isArray(value) ? value.join(', ') : String(value);
+    });
+    return sanitized;
+  }
+
+  // Whether the event has a handler and its body passes that handler's schema
+  private isReplayable(event: WebhookEvent): boolean {
+    const handler = webhookHandlerService.resolve(event.type);
+    if (!handler || !event.verification.bodyValid) return false;
+    try {
+      return handler.schema.safeParse(JSON.parse(event.rawBody)).success;
+    } catch {
+      return false;
+    }
+  }
+
+  // Latest outcome status, or pending if the event was never processed
+  private statusOf(event: WebhookEvent): WebhookOutcomeStatus | 'pending' {
+    return event.outcomes[event.outcomes.length - 1]?.status ?? 'pending';
+  }
+
+  // #region Recording
+
+  /**
+   * Persists an inbound event before it is processed. Failures are logged, never thrown,
+   * so storage problems do not block webhook handling.
+   * @returns The stored event ID, or null if it could not be stored
+   */
+  public async recordReceived(
+    type: WebhookEventType,
+    rawBody: string,
+    headers: Record<string, unknown>,
+    verification: WebhookVerification,
+  ): Promise<string | null> {
+    const event: Omit<WebhookEvent, 'outcomes'> = {
+      id: randomUUID(),
+      type,
+      receivedAt: new Date().toISOString(),
+      rawBody,
+      headers: this.sanitizeHeaders(headers),
+      verification,
+    };
+
+    let events: Map<string, WebhookEvent> | undefined;
+    try {
+      events = await this.load();
+      // Held before the append so a concurrent compaction keeps the new line
+      events.set(event.id, { ...event, outcomes: [] });
+      await this.log.append({ kind: 'received', event });
+      this.evictOverflow(events);
+      if (Date.now() - this.lastPrunedAt >= PRUNE_INTERVAL_MS) await this.prune(events);
+      return event.id;
+    } catch (error) {
+      events?.delete(event.id);
+      loggerService.logger.error('Failed to store webhook event', {
+        type,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  }
+
+  private toOutcome(
+    statusCode: number,
+    error: string | null,
+    { replay = false, ignored = false, unhandled = false }: OutcomeOptions,
+  ): WebhookOutcome {
+    let status: WebhookOutcomeStatus = statusCode < 400 ? 'processed' : 'failed';
+    if (ignored) status = 'ignored';
+    else if (unhandled) status = 'unhandled';
+    else if (statusCode === 400) status = 'rejected';
+
+    return {
+      status,
+      statusCode,
+      error,
+      processedAt: new Date().toISOString(),
+      replay,
+    };
+  }
+
+  /**
+   * Appends a processing outcome to a stored event. Failures are logged, never thrown.
+   * @param eventId Event ID from recordReceived; nothing is stored when null
+   * @param statusCode HTTP status the processing produced
+   * @param options Whether this was a replay, a delivery the guard chose not to process, or an
+   * event no handler is registered for
+   */
+  public async recordOutcome(
+    eventId: string | null,
+    statusCode: number,
+    error: string | null = null,
+    options: OutcomeOptions = {},
+  ): Promise<WebhookOutcome> {
+    const outcome = this.toOutcome(statusCode, error, options);
+    if (!eventId) return outcome;
+
+    try {
+      const stored = (await this.load()).get(eventId);
+      // Pruned events are not brought back by a late outcome
+      if (!stored) return outcome;
+      await this.log.append({ kind: 'outcome', eventId, outcome });
+      stored.outcomes.push(outcome);
+    } catch (err) {
+      loggerService.logger.error('Failed to store webhook outcome', {
+        eventId,
+        error: (err as Error).message,
+      });
+    }
+    return outcome;
+  }
+
+  // #endregion
+
+  // #region Queries
+
+  /**
+   * Lists a page of stored events, newest first.
+   * @param filter Received time range, event type, latest outcome status, page size and offset
+   */
+  public async listEvents(filter: WebhookEventFilter = {}): Promise<WebhookEventPage> {
+    const events = await this.filterEvents(filter);
+    const offset = filter.offset ?? 0;
+    return {
+      total: events.length,
+      events: events.slice(offset, offset + (filter.limit ?? events.length)),
+    };
+  }
+
+  // Stored events matching the filter's time range, type and status, newest first
+  private async filterEvents(filter: WebhookEventFilter): Promise<WebhookEvent[]> {
+    const from = filter.from ? Date.parse(filter.from) : -Infinity;
+    const to = filter.to ? Date.parse(filter.to) : Infinity;
+
+    const events = [...(await this.load()).values()].filter(event => {
+      const receivedAt = Date.parse(event.receivedAt);
+      return (
+        receivedAt >= from &&
+        receivedAt <= to &&
+        (!filter.type || event.type === filter.type) &&
+        (!filter.status || this.statusOf(event) === filter.status)
+      );
+    });
+
+    return events.sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+  }
+
+  public async getEvent(eventId: string): Promise<WebhookEvent | null> {
+    return (await this.load()).get(eventId) ?? null;
+  }
+
+  // #endregion
+
+  // #region Replay
+
+  /**
+   * Runs a stored event through its handler again and records the outcome. Events stored as
+   * unhandled can be replayed once a handler for their type is registered. Replays are
+   * screened by WebhookGuardService like live deliveries, so a status older than the proof's
+   * last known one is not processed again.
+   * @throws 404 if the event does not exist, 409 if it has no handler or its body never
+   * passed validation
+   */
+  public async replayEvent(eventId: string): Promise<WebhookOutcome> {
+    const event = await this.getEvent(eventId);
+    if (!event) throw ErrorHandler.createError(404, `Webhook event ${eventId} not found`);
+    const handler = webhookHandlerService.resolve(event.type);
+    if (!handler) {
+      throw ErrorHandler.createError(409, `No handler for webhook event type ${event.type}`);
+    }
+    if (!this.isReplayable(event)) {
+      throw ErrorHandler.createError(409, `Webhook event ${eventId} has an invalid body`);
+    }
+    const body = JSON.parse(event.rawBody);
+
+    // Keyed by outcome count, so two replays of the same event at once run only once
+    const proof = body?.proof;
+    const verdict = await webhookGuardService.screen(
+      `replay:${eventId}:${event.outcomes.length}`,
+      typeof proof?.id === 'string' ? proof.id : undefined,
+      typeof proof?.status === 'string' ? proof.status : undefined,
+      handler.recordStatus,
+    );
+    if (verdict.action !== 'process') {
+      const message =
+        verdict.action === 'duplicate'
+          ? 'Replay already in progress'
+          : `Stale status ignored, proof is already ${verdict.previousStatus}`;
+      return this.recordOutcome(eventId, 200, message, { replay: true, ignored: true });
+    }
+
+    let statusCode: number;
+    let error: string | null = null;
+    try {
+      const result = await handler.process(body);
+      statusCode = result.status;
+      error = result.error;
+    } catch (err) {
+      statusCode = 500;
+      error = (err as Error).message;
+    }
+    await webhookGuardService.completeDelivery(verdict.deliveryKey, statusCode);
+
+    loggerService.logger.info('Webhook event replayed', { eventId, type: event.type, statusCode });
+    return this.recordOutcome(eventId, statusCode, error, { replay: true });
+  }
+
+  /**
+   * Replays the valid events received in a time range, oldest first and one at a time.
+   * Only failed and pending events are replayed unless other statuses are listed, so events
+   * already processed are not sent again. Events still without a handler are skipped.
+   * @param filter Received time range, optional event type and latest outcome statuses
+   */
+  public async replayRange(
+    filter: Pick<WebhookEventFilter, 'from' | 'to' | 'type'> & {
+      statuses?: (WebhookOutcomeStatus | 'pending')[];
+    },
+  ): Promise<{ eventId: string; outcome: WebhookOutcome }[]> {
+    const statuses = filter.statuses ?? REPLAYED_STATUSES;
+    const events = (await this.filterEvents(filter))
+      .filter(event => statuses.includes(this.statusOf(event)) && this.isReplayable(event))
+      .reverse();
+
+    loggerService.logger.info('Replaying webhook events', { ...filter, count: events.length });
+
+    const results: { eventId: string; outcome: WebhookOutcome }[] = [];
+    for (const event of events) {
+      results.push({ eventId: event.id, outcome: await this.replayEvent(event.id) });
+    }
+    return results;
+  }
+
+  // #endregion
+}
+
+export const webhookEventService = new WebhookEventService();
+export default webhookEventService;
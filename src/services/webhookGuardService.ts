@@ -0,0 +1,222 @@
+import { createHash } from 'crypto';
+
+import { loggerService } from '../utils/logger';
+import { JsonFileStore } from '../utils/jsonFileStore';
+
+import { cacheService } from './cacheService';
+import { normalizeProofStatus, ProofStatus } from './groupStatusService';
+import PageProofService from './proofService';
+
+// #region Types
+
+export interface ProofStatusRecord {
+  proofId: string;
+  status: string;
+  updatedAt: string;
+}
+
+export type GuardVerdict =
+  | { action: 'process'; deliveryKey: string; flagged: boolean; previousStatus: string | null }
+  | { action: 'duplicate'; deliveryKey: string }
+  | { action: 'regression'; deliveryKey: string; previousStatus: string };
+
+// #endregion
+
+// Lifecycle position of each status; an event ranked below the last known status is stale,
+// unless PageProof confirms the proof went back (reopened or unlocked)
+const STATUS_RANK: Record<string, number> = {
+  [ProofStatus.New]: 0,
+  [ProofStatus.Active]: 1,
+  [ProofStatus.InProofing]: 1,
+  [ProofStatus.WithApprover]: 2,
+  [ProofStatus.TodosRequested]: 3,
+  [ProofStatus.Approved]: 3,
+};
+
+/**
+ * Screens PageProof webhook deliveries before they can lock proofs or notify PowerApps:
+ * retried deliveries within the dedup window are dropped, and status events older than the
+ * proof's last known status are ignored (or only flagged, with WEBHOOK_REGRESSION_MODE=flag).
+ * A lower status is accepted when the proof was unlocked through the API, or when PageProof
+ * reports the proof back at that status after it was reopened.
+ */
+class WebhookGuardService {
+  private readonly DEDUP_WINDOW_MS = Number(
+    process.env.WEBHOOK_DEDUP_WINDOW_MS ?? 10 * 60 * 1000,
+  ); // 10 minutes default
+  private readonly DELIVERY_ID_HEADER = (
+    process.env.WEBHOOK_DELIVERY_ID_HEADER ?? 'x-pageproof-delivery-id'
+  ).toLowerCase();
+  private readonly REGRESSION_MODE: 'ignore' | 'flag' =
+    process.env.WEBHOOK_REGRESSION_MODE === 'flag' ? 'flag' : 'ignore';
+  private readonly CACHE_PREFIX = 'webhook-delivery';
+
+  private statuses = new JsonFileStore<ProofStatusRecord>('proof-status.json');
+  // Deliveries being processed by this instance, so concurrent retries are caught too
+  private inFlight = new Set<string>();
+  // Status each delivery in flight records once it is processed successfully
+  private pendingStatuses = new Map<string, ProofStatusRecord>();
+
+  // #region Delivery Deduplication
+
+  /**
+   * Identifies a delivery by its delivery ID header, or by a hash of the raw body
+   * when PageProof did not send one.
+   */
+  public getDeliveryKey(rawBody: string, headers: Record<string, unknown>): string {
+    const header = headers[this.DELIVERY_ID_HEADER];
+    const deliveryId = Array.isArray(header) ? header[0] : header;
+    if (typeof deliveryId === 'string' && deliveryId.trim()) return `id:${deliveryId.trim()}`;
+    return `sha256:${createHash('sha256').update(rawBody).digest('hex')}`;
+  }
+
+  // Marks a delivery as seen; false if it was already seen within the window
+  private async claimDelivery(deliveryKey: string): Promise<boolean> {
+    if (this.inFlight.has(deliveryKey)) return false;
+    this.inFlight.add(deliveryKey);
+
+    try {
+      const seen = await cacheService.get<string>(deliveryKey, { prefix: this.CACHE_PREFIX });
+      if (seen) {
+        this.inFlight.delete(deliveryKey);
+        return false;
+      }
+      await cacheService.set(deliveryKey, new Date().toISOString(), {
+        prefix: this.CACHE_PREFIX,
+        ttl: this.DEDUP_WINDOW_MS,
+      });
+    } catch (error) {
+      loggerService.logger.warn('Webhook dedup lookup failed', { error: (error as Error).message });
+    }
+    return true;
+  }
+
+  /**
+   * Finishes a claimed delivery. Only a successful one updates the proof's last known status;
+   * deliveries that failed on our side are forgotten, so PageProof's retry is processed
+   * instead of dropped as a duplicate or judged stale.
+   * @param statusCode HTTP status the processing produced
+   */
+  public async completeDelivery(deliveryKey: string, statusCode: number): Promise<void> {
+    const pending = this.pendingStatuses.get(deliveryKey);
+    this.pendingStatuses.delete(deliveryKey);
+    this.inFlight.delete(deliveryKey);
+
+    if (statusCode >= 500) await cacheService.delete(deliveryKey, this.CACHE_PREFIX);
+    if (pending && statusCode < 400) {
+      await this.statuses.set(pending.proofId, {
+        ...pending,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  // #endregion
+
+  // #region Status Regression
+
+  public async getLastStatus(proofId: string): Promise<ProofStatusRecord | null> {
+    return this.statuses.get(proofId);
+  }
+
+  /**
+   * Forgets a proof's last known status, so the statuses it goes through again after being
+   * unlocked or restored are not judged stale.
+   */
+  public async resetStatus(proofId: string): Promise<void> {
+    await this.statuses.delete(proofId);
+  }
+
+  // Whether PageProof reports the proof at or below the event's status, i.e. it was reopened
+  private async isReopened(proofId: string, status: string): Promise<boolean> {
+    let current: unknown;
+    try {
+      const proof = await PageProofService.loadProofDetails(proofId);
+      current = proof?.state ?? proof?.status;
+    } catch {
+      return false;
+    }
+    if (typeof current !== 'string') return false;
+
+    const currentRank = STATUS_RANK[normalizeProofStatus(current)];
+    return currentRank !== undefined && currentRank <= STATUS_RANK[normalizeProofStatus(status)];
+  }
+
+  private isRegression(previous: string, next: string): boolean {
+    const previousRank = STATUS_RANK[normalizeProofStatus(previous)];
+    const nextRank = STATUS_RANK[normalizeProofStatus(next)];
+    return previousRank !== undefined && nextRank !== undefined && nextRank < previousRank;
+  }
+
+  // #endregion
+
+  // #region Screening
+
+  /**
+   * Decides whether a verified delivery should be processed.
+   * @param deliveryKey Key identifying the delivery, from the event type's handler
+   * @param proofId Proof the event is about; events without one are only deduplicated
+   * @param status Proof status carried by the event
+   * @param recordStatus Whether the event, once processed successfully, updates the proof's
+   * last known status
+   */
+  public async screen(
+    deliveryKey: string,
+    proofId: string | undefined,
+    status: string | undefined,
+    recordStatus: boolean,
+  ): Promise<GuardVerdict> {
+    if (!(await this.claimDelivery(deliveryKey))) {
+      loggerService.logger.warn('Duplicate webhook delivery ignored', { proofId, deliveryKey });
+      return { action: 'duplicate', deliveryKey };
+    }
+    if (!proofId) return { action: 'process', deliveryKey, flagged: false, previousStatus: null };
+
+    const previous = await this.getLastStatus(proofId);
+    let regression = !!previous && this.isRegression(previous.status, status);
+    if (regression && (await this.isReopened(proofId, status!))) {
+      loggerService.logger.info('Lower webhook status accepted, proof was reopened', {
+        proofId,
+        status,
+        previousStatus: previous!.status,
+      });
+      regression = false;
+    }
+
+    if (regression && this.REGRESSION_MODE === 'ignore') {
+      loggerService.logger.warn('Stale webhook status ignored', {
+        proofId,
+        status,
+        previousStatus: previous!.status,
+      });
+      await this.completeDelivery(deliveryKey, 200);
+      return { action: 'regression', deliveryKey, previousStatus: previous!.status };
+    }
+    if (regression) {
+      loggerService.logger.warn('Stale webhook status flagged', {
+        proofId,
+        status,
+        previousStatus: previous!.status,
+      });
+    }
+
+    if (recordStatus && status && !regression) {
+      this.pendingStatuses.set(deliveryKey, {
+        proofId,
+        status,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+    return {
+      action: 'process',
+      deliveryKey,
+      flagged: regression,
+      previousStatus: previous?.status ?? null,
+    };
+  }
+
+  // #endregion
+}
+
+export const webhookGuardService = new WebhookGuardService();
+export default webhookGuardService;
@@ -0,0 +1,195 @@
+import { z } from 'zod';
+
+import { loggerService } from '../utils/logger';
+import {
+  ProofWebhookSchema,
+  OverdueWebhookSchema,
+  CommentWebhookSchema,
+  DecisionWebhookSchema,
+  VersionCreatedWebhookSchema,
+  StepCompletedWebhookSchema,
+  OwnerChangedWebhookSchema,
+} from '../schema/zodSchemas';
+
+import { WebhookService } from './webhookService';
+import { proofActivityService, ProofActivityResult } from './proofActivityService';
+import { webhookGuardService } from './webhookGuardService';
+import { ProofStatus } from './groupStatusService';
+
+// #region Types
+
+export interface WebhookDelivery {
+  body: any;
+  rawBody: string;
+  headers: Record<string, unknown>;
+}
+
+export interface WebhookHandlerResult {
+  status: number;
+  error: string | null;
+  message?: string;
+  // Extra fields returned to PageProof alongside the message on success
+  data?: Record<string, unknown>;
+}
+
+export interface WebhookHandler {
+  // Path segment the handler is reached on: POST /api/v1/webhook/<eventType>
+  eventType: string;
+  // Name events are stored under and performance metrics are reported as
+  name: string;
+  schema: z.ZodSchema<any>;
+  // Deliveries without a valid PageProof signature are rejected with 403 and never stored
+  requireSignature: boolean;
+  // Whether an accepted event updates the proof's last known status for regression checks
+  recordStatus: boolean;
+  // Identifies a delivery so retries within the dedup window are dropped
+  getDedupKey: (delivery: WebhookDelivery) => string;
+  process: (body: any) => Promise<WebhookHandlerResult>;
+}
+
+export type WebhookHandlerOptions = Omit<WebhookHandler, 'requireSignature' | 'getDedupKey'> &
+  Partial<Pick<WebhookHandler, 'requireSignature' | 'getDedupKey'>>;
+
+// #endregion
+
+// Delivery ID header, or a hash of the raw body when PageProof did not send one
+export const byDelivery = ({ rawBody, headers }: WebhookDelivery): string =>
+  webhookGuardService.getDeliveryKey(rawBody, headers);
+
+const fromActivity = (result: ProofActivityResult): WebhookHandlerResult => ({
+  status: result.status,
+  error: result.error,
+  message: result.message,
+  data: { forwarded: result.forwarded },
+});
+
+/**
+ * Registry of inbound PageProof webhook handlers behind POST /api/v1/webhook/:eventType.
+ * Each handler declares its body schema, whether a PageProof signature is required, how
+ * deliveries are deduplicated and how the event is processed, so a new event type needs only
+ * a register() call. Events with no handler are stored and acknowledged as unhandled.
+ */
+class WebhookHandlerService {
+  private handlers = new Map<string, WebhookHandler>();
+
+  /**
+   * Adds a handler, replacing any handler registered for the same event type.
+   * Signatures are required and deliveries deduplicated by delivery ID unless overridden.
+   */
+  public register(options: WebhookHandlerOptions): WebhookHandler {
+    const handler: WebhookHandler = {
+      requireSignature: true,
+      getDedupKey: byDelivery,
+      ...options,
+    };
+    if (this.handlers.has(handler.eventType)) {
+      loggerService.logger.warn('Webhook handler replaced', { eventType: handler.eventType });
+    }
+    this.handlers.set(handler.eventType, handler);
+    return handler;
+  }
+
+  public get(eventType: string): WebhookHandler | null {
+    return this.handlers.get(eventType) ?? null;
+  }
+
+  // Handler for a stored event, whose type is a handler name or an unhandled event type
+  public resolve(type: string): WebhookHandler | null {
+    return this.get(type) ?? this.list().find(handler => handler.name === type) ?? null;
+  }
+
+  public list(): WebhookHandler[] {
+    return [...this.handlers.values()];
+  }
+}
+
+export const webhookHandlerService = new WebhookHandlerService();
+
+// #region Built-in Handlers
+
+webhookHandlerService.register({
+  eventType: 'proof-status',
+  name: 'proofStatus',
+  schema: ProofWebhookSchema,
+  recordStatus: true,
+  process: async body => {
+    if (body.proof?.status === ProofStatus.InProofing) {
+      loggerService.logger.info('Inproofing status received', {
+        proofId: body.proof.id,
+        proofName: body.proof.name,
+        dueDate: body.proof.dueDate,
+      });
+    }
+    const result = await WebhookService.handleProofStatus(body);
+    return {
+      status: result.status ?? 200,
+      error: result.error ?? null,
+      message: result.message,
+      data: {
+        proofData: result.proofData,
+        reworkData: result.reworkData,
+        inproofingData: result.inproofingData,
+      },
+    };
+  },
+});
+
+webhookHandlerService.register({
+  eventType: 'overdue',
+  name: 'proofOverdue',
+  schema: OverdueWebhookSchema,
+  recordStatus: false,
+  process: async body => {
+    const result = await WebhookService.handleProofOverdue(body);
+    return {
+      status: result.status ?? 200,
+      error: result.error ?? null,
+      message: result.message,
+      data: { overdueData: result.overdueData },
+    };
+  },
+});
+
+webhookHandlerService.register({
+  eventType: 'comment-created',
+  name: 'commentCreated',
+  schema: CommentWebhookSchema,
+  recordStatus: false,
+  process: async body => fromActivity(await proofActivityService.handleCommentCreated(body)),
+});
+
+webhookHandlerService.register({
+  eventType: 'decision-made',
+  name: 'decisionMade',
+  schema: DecisionWebhookSchema,
+  recordStatus: false,
+  process: async body => fromActivity(await proofActivityService.handleDecisionMade(body)),
+});
+
+webhookHandlerService.register({
+  eventType: 'version-created',
+  name: 'versionCreated',
+  schema: VersionCreatedWebhookSchema,
+  recordStatus: false,
+  process: async body => fromActivity(await proofActivityService.handleVersionCreated(body)),
+});
+
+webhookHandlerService.register({
+  eventType: 'step-completed',
+  name: 'stepCompleted',
+  schema: StepCompletedWebhookSchema,
+  recordStatus: false,
+  process: async body => fromActivity(await proofActivityService.handleStepCompleted(body)),
+});
+
+webhookHandlerService.register({
+  eventType: 'owner-changed',
+  name: 'ownerChanged',
+  schema: OwnerChangedWebhookSchema,
+  recordStatus: false,
+  process: async body => fromActivity(await proofActivityService.handleOwnerChanged(body)),
+});
+
+// #endregion
+
+export default webhookHandlerService;
@@ -1,25 +1,22 @@
 import { loggerService } from '../utils/logger';
+import { GroupRule, POWERAPPS_EVENT_SCHEMA_VERSION, PowerAppsEvent } from '../schema/zodSchemas';
 
 import PageProofService from './proofService';
 import { PowerAppsService } from './powerAppsService';
-
-export enum ProofStatus {
-  Approved = 'approved',
-  TodosRequested = 'todos_requested',
-  Todos_Requested = 'todos-requested',
-  InProofing = 'in_proofing',
-  WithApprover = 'with_approver',
-  New = 'new',
-  Active = 'active',
-  Overdue = 'overdue',
-}
-
-interface TriggeringProof {
-  id: string;
-  name: string;
-  reason: string;
-  locked: boolean;
-}
+import { groupNotificationService } from './groupNotificationService';
+import {
+  GroupCondition,
+  ProofStatus,
+  TriggeringProof,
+  groupStatusService,
+  isOverdue,
+  normalizeProofStatus,
+  toEvaluationOptions,
+} from './groupStatusService';
+import { groupRuleService } from './groupRuleService';
+import { proofStateService, TransitionSource } from './proofStateService';
+
+export { ProofStatus };
 
 interface GroupInfo {
   groupId: string | null;
@@ -40,81 +37,48 @@ interface ProofData {
   email: string;
 }
 
-// Helpers
-const isOverdue = (dueDate: string | null | undefined): boolean =>
-  !!dueDate && !isNaN(new Date(dueDate).getTime()) && new Date(dueDate).getTime() < Date.now();
-
 async function checkGroupStatusAndTriggerPowerApps(
   groupId: string,
   groupName: string | null,
-  condition: ProofStatus | 'approved_or_todos',
+  condition: GroupCondition,
+  rule: GroupRule,
+  documentType: string | null,
   triggeringProof?: TriggeringProof,
 ): Promise<void> {
-  const proofsInGroup = await PageProofService.getProofsInGroup(groupId);
-  if (!proofsInGroup?.length) {
+  const evaluation = await groupStatusService.evaluateGroup(
+    groupId,
+    groupName,
+    condition,
+    triggeringProof,
+    toEvaluationOptions(rule),
+  );
+  if (!evaluation) {
     loggerService.logger.warn('No proofs found in group', { groupId });
     return;
   }
 
-  const statuses = proofsInGroup.map((p: any) => {
-    if (
-      (p.state === ProofStatus.InProofing || p.state === ProofStatus.Active) &&
-      isOverdue(p.dueDate)
-    )
-      return ProofStatus.Overdue;
-    return p.state;
-  });
-
-  let allMatch = false;
-  let matchStatus: ProofStatus | 'approved_or_todos' = condition;
-
-  if (condition === ProofStatus.Overdue) {
-    allMatch = statuses.every(s => s === ProofStatus.Overdue);
-  } else if (
-    statuses.every(
-      s =>
-        s === ProofStatus.Approved ||
-        s === ProofStatus.TodosRequested ||
-        s === ProofStatus.Todos_Requested,
-    )
-  ) {
-    allMatch = true;
-    matchStatus = 'approved_or_todos';
-  } else if (condition === ProofStatus.Approved) {
-    allMatch = statuses.every(s => s === ProofStatus.Approved);
-  } else if (condition === ProofStatus.TodosRequested) {
-    allMatch = statuses.every(
-      s => s === ProofStatus.TodosRequested || s === ProofStatus.Todos_Requested,
-    );
-  }
-
-  const proofIds = proofsInGroup.map((p: any) => p.id);
-  const proofNames = proofsInGroup.map((p: any) => p.name);
-
-  if (allMatch) {
-    loggerService.logger.info('All proofs in group meet condition', { groupId, matchStatus });
-    await PowerAppsService.sendToPowerApps({
-      groupName,
-      status: matchStatus,
-      proofIds,
-      proofNames,
-      locked: triggeringProof?.locked,
-      reason: `All proofs are ${matchStatus}`,
-      submitToNextStage: 'pv_team_review',
+  if (evaluation.allMatch) {
+    loggerService.logger.info('All proofs in group meet condition', {
+      groupId,
+      matchStatus: evaluation.matchStatus,
     });
-  } else if (triggeringProof) {
+    const sent = await PowerAppsService.sendToPowerApps(evaluation.event, { documentType });
+
+    // Remember fully approved groups, once delivered, so their proofs are not unlocked by accident
+    if (sent.success && evaluation.allApproved) {
+      await groupNotificationService.recordFullyApproved(
+        groupId,
+        groupName,
+        evaluation.proofs.map(p => p.proofId),
+        sent.messageIds ?? [],
+      );
+    }
+  } else if (evaluation.event) {
     loggerService.logger.info('Mixed proof statuses in group, sending only locked proof', {
       groupId,
       condition,
     });
-    await PowerAppsService.sendToPowerApps({
-      groupName,
-      status: condition,
-      locked: triggeringProof.locked,
-      lockedProofId: triggeringProof.id,
-      lockedProofName: triggeringProof.name,
-      reason: triggeringProof.reason,
-    });
+    await PowerAppsService.sendToPowerApps(evaluation.event, { documentType });
   } else {
     loggerService.logger.warn('Triggering proof info not available to send mixed status event', {
       groupId,
@@ -123,7 +87,15 @@ async function checkGroupStatusAndTriggerPowerApps(
   }
 }
 
-async function lockProofIfApplicable(proofId: string, reason: string): Promise<boolean> {
+async function lockProofIfApplicable(
+  proofId: string,
+  reason: string,
+  rule: GroupRule,
+): Promise<boolean> {
+  if (!rule.actions.lock) {
+    loggerService.logger.info('Proof lock skipped by group rule', { proofId, rule: rule.name });
+    return false;
+  }
   try {
     await PageProofService.lockProofService(proofId);
     loggerService.logger.info('Proof locked', { proofId, reason });
@@ -157,12 +129,42 @@ const getWithApprover = async (proofId: string): Promise<any> => {
 const extractProofData = (body: any): ProofData => ({
   proofId: body?.proof?.id || 'N/A',
   proofName: body?.proof?.name || 'N/A',
-  proofStatus: body?.proof?.status as ProofStatus,
+  proofStatus: normalizeProofStatus(body?.proof?.status) as ProofStatus,
   approvedDate: body?.proof?.approvedDate || null,
   dueDate: body?.proof?.dueDate || null,
   email: body?.trigger?.email || 'N/A',
 });
 
+// Records the states a webhook moved the proof through, in order, in its transition history
+const recordTransitions = async (
+  proofData: ProofData,
+  states: (ProofStatus | null)[],
+  source: TransitionSource,
+  reason: string,
+): Promise<void> => {
+  const triggerEmail = proofData.email !== 'N/A' ? proofData.email : null;
+  for (const state of states) {
+    if (state) {
+      await proofStateService.record(proofData.proofId, state, { source, triggerEmail, reason });
+    }
+  }
+};
+
+// Picks the group rule for a proof from its name, tags, collection and document type
+const resolveRule = async (
+  proofData: ProofData,
+  groupName: string | null,
+  documentType: string | null,
+): Promise<GroupRule> => {
+  const details = await getWithApprover(proofData.proofId);
+  return groupRuleService.resolveRule({
+    proofName: proofData.proofName,
+    tags: details?.tags ?? [],
+    collectionName: groupName,
+    documentType,
+  });
+};
+
 const getGroupInfo = async (proofId: string): Promise<GroupInfo> => {
   const proofDetails = await getWithApprover(proofId);
   const groupId = proofDetails?.groupId || proofDetails?.collectionId || null;
@@ -176,11 +178,10 @@ async function determineConditionAndLock(
   proofId: string,
   proofName: string,
   email: string,
+  rule: GroupRule,
 ): Promise<ConditionLock | { bypass: true; response: any }> {
-  const hasKeywords = /markups/i.test(proofName) && /reference/i.test(proofName);
-
-  if (!hasKeywords) {
-    if (proofStatus === ProofStatus.TodosRequested || proofStatus === ProofStatus.Todos_Requested) {
+  if (rule.actions.aggregate === 'per_proof') {
+    if (proofStatus === ProofStatus.TodosRequested) {
       return {
         bypass: true,
         response: {
@@ -233,22 +234,19 @@ async function determineConditionAndLock(
   if (proofStatus === ProofStatus.Approved) {
     return {
       condition: ProofStatus.Approved,
-      locked: await lockProofIfApplicable(proofId, `status: ${proofStatus}`),
+      locked: await lockProofIfApplicable(proofId, `status: ${proofStatus}`, rule),
     };
-  } else if (
-    proofStatus === ProofStatus.TodosRequested ||
-    proofStatus === ProofStatus.Todos_Requested
-  ) {
+  } else if (proofStatus === ProofStatus.TodosRequested) {
     return {
       condition: ProofStatus.TodosRequested,
-      locked: await lockProofIfApplicable(proofId, `status: ${proofStatus}`),
+      locked: await lockProofIfApplicable(proofId, `status: ${proofStatus}`, rule),
     };
   } else if (proofStatus === ProofStatus.InProofing) {
     // Handle inproofing status - check if overdue
     if (isOverdue(dueDate)) {
       return {
         condition: ProofStatus.Overdue,
-        locked: await lockProofIfApplicable(proofId, 'overdue in_proofing'),
+        locked: await lockProofIfApplicable(proofId, 'overdue in_proofing', rule),
       };
     } else {
       // Inproofing but not overdue - return bypass response
@@ -279,7 +277,7 @@ export class WebhookService {
    *
    * Supported statuses:
    * - approved: Proof has been approved
-   * - todos_requested/todos-requested: Rework requested
+   * - todos_requested: Rework requested (todos-requested is accepted as an alias)
    * - in_proofing: Proof is currently being reviewed
    * - overdue: Proof is overdue (when in_proofing and past due date)
    *
@@ -288,12 +286,17 @@ export class WebhookService {
    * - Sends notification to PowerApps
    * - Includes dueDate if available
    *
+   * The proof's group rule decides whether it is locked, whether its group is evaluated
+   * and which next stage is sent to PowerApps.
+   *
    * @param body Webhook payload from PageProof
    * @returns Response with appropriate data based on status
    */
   static async handleProofStatus(body: any) {
     const proofData = extractProofData(body);
     const { groupId, groupName } = await getGroupInfo(proofData.proofId);
+    const documentType = await groupRuleService.getDocumentType(proofData.proofId);
+    const rule = await resolveRule(proofData, groupName, documentType);
 
     const result = await determineConditionAndLock(
       proofData.proofStatus,
@@ -301,6 +304,19 @@ export class WebhookService {
       proofData.proofId,
       proofData.proofName,
       proofData.email,
+      rule,
+    );
+
+    const conditionLock = 'bypass' in result ? null : (result as ConditionLock);
+    await recordTransitions(
+      proofData,
+      [
+        proofData.proofStatus,
+        conditionLock?.condition === ProofStatus.Overdue ? ProofStatus.Overdue : null,
+        conditionLock?.locked ? ProofStatus.Locked : null,
+      ],
+      'webhook',
+      `status: ${proofData.proofStatus}`,
     );
 
     if ('bypass' in result && result.bypass) {
@@ -314,15 +330,29 @@ export class WebhookService {
         reason: responseData.reason,
       });
 
-      await PowerAppsService.sendToPowerApps({
-        groupName,
-        status: responseData.status,
-        proofIds: [proofData.proofId],
-        proofNames: [proofData.proofName],
-        reason: responseData.reason,
-        email: responseData.email,
-        dueDate: responseData.dueDate,
-      });
+      const event: PowerAppsEvent = result.response.reworkData
+        ? {
+            eventType: 'proof_reviewed',
+            schemaVersion: POWERAPPS_EVENT_SCHEMA_VERSION,
+            groupName,
+            status: responseData.status,
+            proofIds: [proofData.proofId],
+            proofNames: [proofData.proofName],
+            reason: responseData.reason,
+            email: responseData.email,
+          }
+        : {
+            eventType: 'proof_in_proofing',
+            schemaVersion: POWERAPPS_EVENT_SCHEMA_VERSION,
+            groupName,
+            status: responseData.status,
+            proofIds: [proofData.proofId],
+            proofNames: [proofData.proofName],
+            reason: 'in_proofing',
+            email: responseData.email,
+            dueDate: responseData.dueDate,
+          };
+      await PowerAppsService.sendToPowerApps(event, { documentType });
 
       return result.response;
     }
@@ -330,7 +360,7 @@ export class WebhookService {
     const { condition, locked } = result as ConditionLock;
 
     if (condition && groupId) {
-      await checkGroupStatusAndTriggerPowerApps(groupId, groupName, condition, {
+      await checkGroupStatusAndTriggerPowerApps(groupId, groupName, condition, rule, documentType, {
         id: proofData.proofId,
         name: proofData.proofName,
         reason: `Triggered by ${proofData.proofStatus}`,
@@ -357,26 +387,44 @@ export class WebhookService {
     };
   }
 
-  static async handleProofOverdue(body: any) {
+  /**
+   * Handles an overdue proof, from the PageProof webhook or the overdue sweeper.
+   * @param body Webhook payload from PageProof
+   * @param source Recorded with the proof's state transitions
+   */
+  static async handleProofOverdue(body: any, source: TransitionSource = 'webhook') {
     const overdueData = extractProofData(body);
     const { groupId, groupName } = await getGroupInfo(overdueData.proofId);
+    const documentType = await groupRuleService.getDocumentType(overdueData.proofId);
+    const rule = await resolveRule(overdueData, groupName, documentType);
     let locked = false;
 
     const validStatuses = [ProofStatus.InProofing, ProofStatus.WithApprover, ProofStatus.Active];
-    if (
-      validStatuses.includes(overdueData.proofStatus) &&
-      (await PageProofService.loadProofDetails(overdueData.proofId))
-    ) {
-      locked = await lockProofIfApplicable(overdueData.proofId, 'overdue handler');
+    const inReview = validStatuses.includes(overdueData.proofStatus);
+    if (inReview && (await PageProofService.loadProofDetails(overdueData.proofId))) {
+      locked = await lockProofIfApplicable(overdueData.proofId, 'overdue handler', rule);
     }
+    await recordTransitions(
+      overdueData,
+      [inReview ? ProofStatus.Overdue : null, locked ? ProofStatus.Locked : null],
+      source,
+      'overdue',
+    );
 
     if (groupId) {
-      await checkGroupStatusAndTriggerPowerApps(groupId, groupName, ProofStatus.Overdue, {
-        id: overdueData.proofId,
-        name: overdueData.proofName,
-        reason: `Triggered by ${overdueData.proofStatus}`,
-        locked,
-      });
+      await checkGroupStatusAndTriggerPowerApps(
+        groupId,
+        groupName,
+        ProofStatus.Overdue,
+        rule,
+        documentType,
+        {
+          id: overdueData.proofId,
+          name: overdueData.proofName,
+          reason: `Triggered by ${overdueData.proofStatus}`,
+          locked,
+        },
+      );
     } else {
       loggerService.logger.warn('No groupId/collectionId found in proof details', {
         proofId: overdueData.proofId,
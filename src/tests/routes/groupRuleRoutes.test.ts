@@ -0,0 +1,96 @@
+import request from 'supertest';
+import express from 'express';
+import { createTestApp } from '../setup';
+import groupRuleRoutes from '../../routes/v1/groupRuleRoutes';
+
+const withHmac = (req: request.Test) =>
+  req.set('x-timestamp', Date.now().toString()).set('x-signature', 'test-signature');
+
+describe('Group Rule Routes', () => {
+  let app: express.Application;
+
+  const rules = [
+    {
+      name: 'Packaging',
+      match: { collectionNames: ['Packaging Q3'], documentTypes: ['drafts'] },
+      actions: { lock: true, aggregate: 'exact', nextStage: 'packaging_review' },
+    },
+    {
+      name: 'Catch-all',
+      actions: { aggregate: 'per_proof' },
+    },
+  ];
+
+  beforeEach(() => {
+    app = createTestApp();
+    app.use('/api/v1/group-rules', groupRuleRoutes);
+  });
+
+  afterAll(async () => {
+    await withHmac(request(app).delete('/api/v1/group-rules'));
+  });
+
+  describe('GET /api/v1/group-rules', () => {
+    it('should return the default rules when none are configured', async () => {
+      const response = await withHmac(request(app).get('/api/v1/group-rules'));
+
+      expect(response.status).toBe(200);
+      expect(response.body.source).toBe('default');
+      expect(response.body.rules[0].match.namePatterns).toEqual(['markups', 'reference']);
+    });
+
+    it('should require HMAC headers', async () => {
+      const response = await request(app).get('/api/v1/group-rules');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('PUT /api/v1/group-rules', () => {
+    it('should replace the rules and apply defaults to omitted fields', async () => {
+      const saved = await withHmac(request(app).put('/api/v1/group-rules')).send({ rules });
+
+      expect(saved.status).toBe(200);
+      expect(saved.body.rules[1].actions).toEqual({
+        lock: false,
+        aggregate: 'per_proof',
+        nextStage: null,
+      });
+
+      const fetched = await withHmac(request(app).get('/api/v1/group-rules'));
+
+      expect(fetched.body.source).toBe('configured');
+      expect(fetched.body.rules.map((rule: { name: string }) => rule.name)).toEqual([
+        'Packaging',
+        'Catch-all',
+      ]);
+    });
+
+    it('should reject invalid name patterns', async () => {
+      const response = await withHmac(request(app).put('/api/v1/group-rules')).send({
+        rules: [{ name: 'Broken', match: { namePatterns: ['(unclosed'] }, actions: {} }],
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject duplicate rule names', async () => {
+      const response = await withHmac(request(app).put('/api/v1/group-rules')).send({
+        rules: [rules[0], rules[0]],
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('DELETE /api/v1/group-rules', () => {
+    it('should reset to the default rules', async () => {
+      await withHmac(request(app).put('/api/v1/group-rules')).send({ rules });
+
+      const response = await withHmac(request(app).delete('/api/v1/group-rules'));
+
+      expect(response.status).toBe(200);
+      expect(response.body.source).toBe('default');
+    });
+  });
+});
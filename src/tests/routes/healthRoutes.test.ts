@@ -2,6 +2,8 @@ import request from 'supertest';
 import express from 'express';
 import { createTestApp } from '../setup';
 import healthRoutes from '../../routes/v1/healthRoutes';
+import { circuitBreakerService } from '../../services/circuitBreakerService';
+import { performanceService } from '../../services/performanceService';
 
 describe('Health Routes', () => {
   let app: express.Application;
@@ -184,6 +186,79 @@ describe('Health Routes', () => {
     });
   });
 
+  describe('Circuit breakers', () => {
+    const unavailable = () => Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should open after enough failures and report it in the detailed health check', async () => {
+      const breaker = circuitBreakerService.get('test-open');
+      for (let i = 0; i < 5; i++) breaker.recordFailure(unavailable());
+
+      const response = await request(app).get('/api/v1/health/detailed').expect(200);
+
+      expect(response.body.status).toBe('degraded');
+      const snapshot = response.body.circuitBreakers.find(
+        (b: { name: string }) => b.name === 'test-open',
+      );
+      expect(snapshot).toMatchObject({ state: 'open', failures: 5, lastError: 'socket hang up' });
+      expect(performanceService.recordMetric).toHaveBeenCalledWith(
+        'circuit_breaker.transition',
+        1,
+        'count',
+        { breaker: 'test-open', from: 'closed', to: 'open' },
+      );
+    });
+
+    it('should fail fast with a 503 without calling the dependency while open', async () => {
+      const breaker = circuitBreakerService.get('test-fail-fast');
+      for (let i = 0; i < 5; i++) breaker.recordFailure(unavailable());
+      const client = { proofs: { load: jest.fn().mockResolvedValue({ id: 'proof-1' }) } };
+
+      await expect(breaker.wrap(client, ['proofs']).proofs.load('proof-1')).rejects.toMatchObject({
+        statusCode: 503,
+        code: 'CIRCUIT_OPEN',
+      });
+      expect(client.proofs.load).not.toHaveBeenCalled();
+    });
+
+    it('should leave synchronous client methods outside the breaker', () => {
+      const breaker = circuitBreakerService.get('test-sync-methods');
+      for (let i = 0; i < 5; i++) breaker.recordFailure(unavailable());
+      const client = { proofs: { load: jest.fn() }, getSession: () => 'session-1' };
+
+      expect(breaker.wrap(client, ['proofs']).getSession()).toBe('session-1');
+      expect(breaker.snapshot().state).toBe('open');
+    });
+
+    it('should not count client errors against the dependency', async () => {
+      const breaker = circuitBreakerService.get('test-client-errors');
+      const notFound = Object.assign(new Error('Not found'), { response: { status: 404 } });
+
+      for (let i = 0; i < 5; i++) {
+        await expect(breaker.execute(() => Promise.reject(notFound))).rejects.toBe(notFound);
+      }
+
+      expect(breaker.snapshot()).toMatchObject({ state: 'closed', calls: 5, failures: 0 });
+    });
+
+    it('should let one trial call through after the cool-down and close on success', async () => {
+      const breaker = circuitBreakerService.get('test-recovery');
+      for (let i = 0; i < 5; i++) breaker.recordFailure(unavailable());
+
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + 30000);
+      expect(breaker.getState()).toBe('half_open');
+      expect(breaker.tryAcquire()).toBe(true);
+      expect(breaker.tryAcquire()).toBe(false);
+
+      breaker.recordSuccess();
+      expect(breaker.getState()).toBe('closed');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle invalid endpoints gracefully', async () => {
       const response = await request(app)
@@ -0,0 +1,105 @@
+import request from 'supertest';
+import express from 'express';
+import { createTestApp } from '../setup';
+import jobRoutes from '../../routes/v1/jobRoutes';
+import { FileJobStore, JobService, jobService } from '../../services/jobService';
+
+describe('Job Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = createTestApp();
+    app.use('/api/v1/jobs', jobRoutes);
+  });
+
+  describe('GET /api/v1/jobs/:jobId', () => {
+    it('should report per-step state for a finished job', async () => {
+      const job = await jobService.createJob('createProof', ['upload', 'collection', 'message']);
+      await jobService.run(job.id, async track => {
+        await track('upload', async () => 'uploaded');
+        return { proofs: [] };
+      });
+
+      const response = await request(app)
+        .get(`/api/v1/jobs/${job.id}`)
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature');
+
+      expect(response.status).toBe(200);
+      expect(response.body.job.status).toBe('succeeded');
+      expect(response.body.job.result).toEqual({ proofs: [] });
+      expect(response.body.job.steps.map((s: any) => s.status)).toEqual([
+        'completed',
+        'skipped',
+        'skipped',
+      ]);
+    });
+
+    it('should record the failing step and error', async () => {
+      const job = await jobService.createJob('createProof', ['upload', 'workflow']);
+      await jobService.run(job.id, async track => {
+        await track('upload', async () => 'uploaded');
+        await track('workflow', async () => {
+          throw new Error('Workflow creation failed');
+        });
+      });
+
+      const response = await request(app)
+        .get(`/api/v1/jobs/${job.id}`)
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature');
+
+      expect(response.status).toBe(200);
+      expect(response.body.job.status).toBe('failed');
+      expect(response.body.job.error.message).toBe('Workflow creation failed');
+      expect(response.body.job.steps[1]).toMatchObject({
+        name: 'workflow',
+        status: 'failed',
+        error: 'Workflow creation failed',
+      });
+    });
+
+    it('should return 404 for unknown jobs', async () => {
+      const response = await request(app)
+        .get('/api/v1/jobs/00000000-0000-4000-8000-000000000000')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject malformed job IDs', async () => {
+      const response = await request(app)
+        .get('/api/v1/jobs/not-a-job-id')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should require HMAC headers', async () => {
+      const response = await request(app).get('/api/v1/jobs/00000000-0000-4000-8000-000000000000');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('File job store', () => {
+    it('should fail jobs a previous process left running', async () => {
+      const before = new JobService(new FileJobStore());
+      const job = await before.createJob('createProof', ['upload', 'collection']);
+      void before.run(job.id, track => track('upload', () => new Promise(() => undefined)));
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect((await before.getJob(job.id))?.status).toBe('running');
+
+      // A new store reads the file as a restarted process would
+      const restarted = await new JobService(new FileJobStore()).getJob(job.id);
+
+      expect(restarted).toMatchObject({
+        status: 'failed',
+        error: { statusCode: 500, message: 'Job interrupted by restart' },
+      });
+      expect(restarted?.steps.map(step => step.status)).toEqual(['failed', 'skipped']);
+    });
+  });
+});
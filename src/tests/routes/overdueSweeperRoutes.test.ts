@@ -0,0 +1,274 @@
+import request from 'supertest';
+import express from 'express';
+import { createTestApp } from '../setup';
+import overdueSweeperRoutes from '../../routes/v1/overdueSweeperRoutes';
+import { overdueSweeperService } from '../../services/overdueSweeperService';
+import { PowerAppsEventSchema } from '../../schema/zodSchemas';
+
+const withHmac = (req: request.Test) =>
+  req.set('x-timestamp', Date.now().toString()).set('x-signature', 'test-signature');
+
+const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+const yesterday = () => inHours(-24);
+const tomorrow = () => inHours(24);
+
+// SDK status codes (@pageproof/sdk ProofStatus)
+const PROOFING = 10;
+const FINAL_APPROVING = 30;
+const APPROVED = 70;
+
+// Proof as the SDK lists it: numeric status, Date due date and the state computed from both
+const sdkProof = (
+  id: string,
+  name: string,
+  status: number,
+  dueDate: Date,
+  extra: Record<string, unknown> = {},
+) => {
+  const isOverdue = dueDate.getTime() < Date.now();
+  const state = status === APPROVED ? 'approved' : isOverdue ? 'overdue' : 'active';
+  return { id, name, status, state, dueDate, isOverdue, isLocked: false, ...extra };
+};
+
+describe('Overdue Sweeper Routes', () => {
+  let app: express.Application;
+  const proofService = jest.requireMock('../../services/proofService');
+  const { WebhookService } = jest.requireMock('../../services/webhookService');
+  const { PowerAppsService } = jest.requireMock('../../services/powerAppsService');
+  let proofs: Record<string, unknown>[];
+
+  beforeEach(() => {
+    app = createTestApp();
+    app.use('/api/v1/overdue-sweeper', overdueSweeperRoutes);
+
+    proofs = [
+      sdkProof('overdue-1', 'Cover', PROOFING, yesterday()),
+      sdkProof('not-due', 'Back', PROOFING, tomorrow()),
+      sdkProof('approved', 'Spine', APPROVED, yesterday()),
+      sdkProof('locked', 'Insert', FINAL_APPROVING, yesterday(), { isLocked: true }),
+    ];
+    proofService.listCollections = jest.fn().mockResolvedValue([
+      { id: 'group-1', name: 'Catalogue', proofCount: 4, isArchived: false },
+      { id: 'group-2', name: 'Old', proofCount: 1, isArchived: true },
+    ]);
+    proofService.getProofsInGroup = jest.fn().mockImplementation(async () => proofs);
+    proofService.getProofSummary = jest.fn().mockResolvedValue(null);
+    WebhookService.handleProofOverdue = jest.fn().mockResolvedValue({
+      status: 200,
+      error: null,
+      overdueData: { locked: true },
+    });
+  });
+
+  it('should report overdue proofs without processing them in dry-run mode', async () => {
+    const response = await withHmac(request(app).post('/api/v1/overdue-sweeper/run')).send({
+      dryRun: true,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.summary).toMatchObject({
+      dryRun: true,
+      collectionsScanned: 1,
+      proofsScanned: 4,
+      proofs: [{ proofId: 'overdue-1', collectionName: 'Catalogue', outcome: 'dry_run' }],
+    });
+    expect(proofService.getProofsInGroup).toHaveBeenCalledTimes(1);
+    expect(WebhookService.handleProofOverdue).not.toHaveBeenCalled();
+  });
+
+  it('should run overdue proofs through the overdue handler once per due date', async () => {
+    const first = await withHmac(request(app).post('/api/v1/overdue-sweeper/run')).send({});
+
+    expect(first.body.summary.proofs).toEqual([
+      expect.objectContaining({ proofId: 'overdue-1', outcome: 'processed', locked: true }),
+    ]);
+    expect(WebhookService.handleProofOverdue).toHaveBeenCalledWith(
+      {
+        proof: {
+          id: 'overdue-1',
+          name: 'Cover',
+          status: 'in_proofing',
+          dueDate: (proofs[0].dueDate as Date).toISOString(),
+        },
+        trigger: { email: 'overdue-sweeper' },
+      },
+      'sweeper',
+    );
+
+    const second = await overdueSweeperService.sweep(false);
+    expect(second.proofs).toHaveLength(0);
+
+    // A new due date that passes again makes the proof due for another sweep
+    proofs[0].dueDate = new Date(Date.now() - 60 * 1000);
+    const third = await overdueSweeperService.sweep(false);
+    expect(third.proofs.map(p => p.proofId)).toEqual(['overdue-1']);
+  });
+
+  it('should record proofs the overdue handler could not process as failed', async () => {
+    proofs[0].id = 'overdue-failing';
+    WebhookService.handleProofOverdue.mockResolvedValue({
+      status: 404,
+      error: 'No groupId/collectionId found in proof details',
+    });
+
+    const summary = await overdueSweeperService.sweep(false);
+
+    expect(summary.proofs[0]).toMatchObject({
+      proofId: 'overdue-failing',
+      outcome: 'failed',
+      error: 'No groupId/collectionId found in proof details',
+    });
+  });
+
+  it('should refuse to start a sweep while another one is running', async () => {
+    let release: () => void = () => undefined;
+    proofService.getProofsInGroup = jest.fn().mockImplementation(
+      () =>
+        new Promise(resolve => {
+          release = () => resolve([]);
+        }),
+    );
+
+    const running = overdueSweeperService.sweep(true);
+    const status = await withHmac(request(app).get('/api/v1/overdue-sweeper'));
+    const overlapping = await withHmac(request(app).post('/api/v1/overdue-sweeper/run')).send({});
+    release();
+    await running;
+
+    expect(status.body.running).toBe(true);
+    expect(overlapping.status).toBe(409);
+    expect(overlapping.body.code).toBe('SWEEP_RUNNING');
+  });
+
+  describe('Due date reminders', () => {
+    // getProofSummary returns the due date of the listed proof as an ISO string
+    const summaryFor = (proofId: string, version: number) => ({
+      proofId,
+      name: 'Catalogue cover',
+      status: 'in_proofing',
+      version,
+      dueDate: (proofs.find(p => p.id === proofId)!.dueDate as Date).toISOString(),
+      workflow: {
+        id: 'workflow-1',
+        steps: [
+          {
+            id: 'step-2',
+            position: 2,
+            completeDate: null as string | null,
+            users: [{ email: 'approver@example.com', role: 'approver', decisionDate: null }],
+          },
+          {
+            id: 'step-1',
+            position: 1,
+            completeDate: null as string | null,
+            users: [
+              {
+                email: 'decided@example.com',
+                role: 'reviewer',
+                decisionDate: yesterday().toISOString(),
+              },
+              { email: 'pending@example.com', role: 'reviewer', decisionDate: null },
+            ],
+          },
+        ],
+      },
+    });
+
+    beforeEach(() => {
+      PowerAppsService.sendToPowerApps = jest.fn().mockResolvedValue({ success: true });
+    });
+
+    it('should send the shortest reached lead time once per proof version', async () => {
+      proofs = [sdkProof('due-soon-1', 'Cover', PROOFING, inHours(20))];
+      let version = 1;
+      proofService.getProofSummary = jest
+        .fn()
+        .mockImplementation(async (id: string) => summaryFor(id, version));
+
+      const first = await overdueSweeperService.sweep(false);
+
+      expect(first.reminders).toEqual([
+        expect.objectContaining({
+          proofId: 'due-soon-1',
+          proofVersion: 1,
+          leadTimeHours: 24,
+          outcome: 'sent',
+          pendingReviewers: [{ email: 'pending@example.com', role: 'reviewer' }],
+        }),
+      ]);
+      const [event] = PowerAppsService.sendToPowerApps.mock.calls[0];
+      expect(PowerAppsEventSchema.parse(event)).toMatchObject({
+        eventType: 'due_soon',
+        groupName: 'Catalogue',
+        proofIds: ['due-soon-1'],
+      });
+
+      // Neither lead time fires again for the same version
+      expect((await overdueSweeperService.sweep(false)).reminders).toHaveLength(0);
+
+      version = 2;
+      expect((await overdueSweeperService.sweep(false)).reminders).toHaveLength(1);
+      expect(PowerAppsService.sendToPowerApps).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send the due date of a listed Date as an ISO string', async () => {
+      const dueDate = inHours(5);
+      proofs = [sdkProof('due-soon-date', 'Cover', PROOFING, dueDate)];
+      proofService.getProofSummary = jest
+        .fn()
+        .mockImplementation(async (id: string) => summaryFor(id, 1));
+
+      const summary = await overdueSweeperService.sweep(false);
+
+      expect(summary.reminders).toEqual([
+        expect.objectContaining({ outcome: 'sent', dueDate: dueDate.toISOString() }),
+      ]);
+      const [event] = PowerAppsService.sendToPowerApps.mock.calls[0];
+      expect(PowerAppsEventSchema.parse(event)).toMatchObject({
+        eventType: 'due_soon',
+        dueDate: dueDate.toISOString(),
+      });
+    });
+
+    it('should not send or record reminders in dry-run mode', async () => {
+      proofs = [sdkProof('due-soon-2', 'Back', FINAL_APPROVING, inHours(36))];
+      proofService.getProofSummary = jest
+        .fn()
+        .mockImplementation(async (id: string) => summaryFor(id, 1));
+
+      const dryRun = await overdueSweeperService.sweep(true);
+      expect(dryRun.reminders).toEqual([
+        expect.objectContaining({ leadTimeHours: 48, outcome: 'dry_run' }),
+      ]);
+      expect(PowerAppsService.sendToPowerApps).not.toHaveBeenCalled();
+
+      const live = await overdueSweeperService.sweep(false);
+      expect(live.reminders).toEqual([expect.objectContaining({ outcome: 'sent' })]);
+    });
+
+    it('should retry a reminder that could not be queued on the next pass', async () => {
+      proofs = [sdkProof('due-soon-3', 'Spine', PROOFING, inHours(10))];
+      proofService.getProofSummary = jest
+        .fn()
+        .mockImplementation(async (id: string) => summaryFor(id, 1));
+      PowerAppsService.sendToPowerApps.mockResolvedValueOnce({
+        success: false,
+        error: 'Outbox unavailable',
+      });
+
+      const failed = await overdueSweeperService.sweep(false);
+      expect(failed.reminders[0]).toMatchObject({ outcome: 'failed', error: 'Outbox unavailable' });
+
+      const retried = await overdueSweeperService.sweep(false);
+      expect(retried.reminders[0]).toMatchObject({ outcome: 'sent' });
+    });
+  });
+
+  it('should reject an invalid dryRun option', async () => {
+    const response = await withHmac(request(app).post('/api/v1/overdue-sweeper/run')).send({
+      dryRun: 'yes',
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
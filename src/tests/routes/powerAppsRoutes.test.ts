@@ -0,0 +1,361 @@
+import request from 'supertest';
+import express from 'express';
+import axios from 'axios';
+import { createTestApp } from '../setup';
+import powerAppsRoutes from '../../routes/v1/powerAppsRoutes';
+import { powerAppsOutboxService } from '../../services/powerAppsOutboxService';
+import { powerAppsRoutingService } from '../../services/powerAppsRoutingService';
+import { circuitBreakerService } from '../../services/circuitBreakerService';
+import { groupNotificationService } from '../../services/groupNotificationService';
+import config from '../../config';
+import { POWERAPPS_EVENT_SCHEMA_VERSION } from '../../schema/zodSchemas';
+import {
+  POWERAPPS_DELIVERY_ID_HEADER,
+  verifyPowerAppsSignature,
+} from '../../utils/powerAppsSignature';
+
+const SIGNING_SECRET = 'test-powerapps-signing-secret-0123456789';
+process.env.POWERAPPS_SIGNING_SECRET = SIGNING_SECRET;
+
+const withHmac = (req: request.Test) =>
+  req.set('x-timestamp', Date.now().toString()).set('x-signature', 'test-signature');
+
+const rejectWith = (status: number) =>
+  jest
+    .spyOn(axios, 'post')
+    .mockRejectedValue(
+      Object.assign(new Error(`Request failed with status code ${status}`), {
+        isAxiosError: true,
+        response: { status, data: {} },
+      }),
+    );
+
+describe('PowerApps Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = createTestApp();
+    app.use('/api/v1/powerapps', powerAppsRoutes);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Outbox dispatch', () => {
+    it('should keep a message in the outbox with a backoff after a transient failure', async () => {
+      rejectWith(503);
+      const message = await powerAppsOutboxService.enqueue({ groupName: 'Transient' }, 'default');
+
+      const summary = await powerAppsOutboxService.dispatchDue();
+      expect(summary.retrying).toBe(1);
+
+      const response = await withHmac(request(app).get('/api/v1/powerapps/outbox'));
+      const pending = response.body.messages.find((m: { id: string }) => m.id === message.id);
+      expect(pending.attempts).toBe(1);
+      expect(Date.parse(pending.nextAttemptAt)).toBeGreaterThan(Date.now());
+    });
+
+    it('should remove a message from the outbox once delivered', async () => {
+      jest.spyOn(axios, 'post').mockResolvedValue({ status: 202, data: {} });
+      await powerAppsOutboxService.enqueue({ groupName: 'Delivered' }, 'default');
+
+      await powerAppsOutboxService.dispatchDue(Date.now() + 60 * 60 * 1000);
+
+      const response = await withHmac(request(app).get('/api/v1/powerapps/outbox'));
+      expect(response.body.count).toBe(0);
+    });
+
+    it('should count a collection as reported only once its event is delivered', async () => {
+      const message = await powerAppsOutboxService.enqueue({ groupName: 'Approved' }, 'default');
+      await groupNotificationService.recordFullyApproved('group-1', 'Approved', ['proof-1'], [
+        message.id,
+      ]);
+      expect(await groupNotificationService.getFullyApproved('group-1')).toBeNull();
+
+      jest.spyOn(axios, 'post').mockResolvedValue({ status: 202, data: {} });
+      await powerAppsOutboxService.dispatchDue(Date.now() + 60 * 60 * 1000);
+
+      expect(await groupNotificationService.getFullyApproved('group-1')).toMatchObject({
+        groupName: 'Approved',
+        proofIds: ['proof-1'],
+      });
+    });
+
+    it('should defer deliveries without using an attempt while the breaker is open', async () => {
+      const breaker = circuitBreakerService.get('powerapps:default');
+      for (let i = 0; i < 5; i++) breaker.recordFailure(new Error('PowerApps unavailable'));
+      const post = jest.spyOn(axios, 'post');
+      const message = await powerAppsOutboxService.enqueue({ groupName: 'Deferred' }, 'default');
+
+      const summary = await powerAppsOutboxService.dispatchDue();
+
+      expect(summary.deferred).toBeGreaterThanOrEqual(1);
+      expect(post).not.toHaveBeenCalled();
+      const pending = (await powerAppsOutboxService.listPending()).find(m => m.id === message.id);
+      expect(pending?.attempts).toBe(0);
+      expect(Date.parse(pending!.nextAttemptAt)).toBe(breaker.getRetryAt());
+
+      // Close the breaker again for the remaining tests
+      jest.spyOn(Date, 'now').mockReturnValue(breaker.getRetryAt()!);
+      breaker.tryAcquire();
+      breaker.recordSuccess();
+    });
+  });
+
+  describe('Dead letters', () => {
+    let messageId: string;
+
+    beforeEach(async () => {
+      rejectWith(400);
+      messageId = (await powerAppsOutboxService.enqueue({ groupName: 'Rejected' }, 'default')).id;
+      await powerAppsOutboxService.dispatchDue();
+    });
+
+    it('should dead-letter a message PowerApps rejects', async () => {
+      const response = await withHmac(
+        request(app).get(`/api/v1/powerapps/dead-letters/${messageId}`),
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.message.payload).toEqual({ groupName: 'Rejected' });
+      expect(response.body.message.lastError).toContain('400');
+
+      const list = await withHmac(request(app).get('/api/v1/powerapps/dead-letters'));
+      expect(list.body.messages.map((m: { id: string }) => m.id)).toContain(messageId);
+    });
+
+    it('should move a retried dead letter back into the outbox', async () => {
+      const response = await withHmac(
+        request(app).post(`/api/v1/powerapps/dead-letters/${messageId}/retry`),
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.message.attempts).toBe(0);
+
+      const outbox = await withHmac(request(app).get('/api/v1/powerapps/outbox'));
+      expect(outbox.body.messages.map((m: { id: string }) => m.id)).toContain(messageId);
+
+      const gone = await withHmac(request(app).get(`/api/v1/powerapps/dead-letters/${messageId}`));
+      expect(gone.status).toBe(404);
+    });
+
+    it('should discard a dead letter', async () => {
+      const response = await withHmac(
+        request(app).delete(`/api/v1/powerapps/dead-letters/${messageId}`),
+      );
+      expect(response.status).toBe(200);
+
+      const again = await withHmac(
+        request(app).delete(`/api/v1/powerapps/dead-letters/${messageId}`),
+      );
+      expect(again.status).toBe(404);
+    });
+
+    it('should reject an invalid message ID', async () => {
+      const response = await withHmac(request(app).get('/api/v1/powerapps/dead-letters/abc'));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Routing', () => {
+    const routes = [
+      {
+        name: 'Approvals',
+        match: { statuses: ['approved'] },
+        destinations: ['approvals', 'audit'],
+      },
+      {
+        name: 'Packaging',
+        match: { collectionPatterns: ['^packaging'] },
+        destinations: ['audit', 'rework'],
+      },
+      { name: 'Drafts', match: { documentTypes: ['drafts'] }, destinations: ['rework'] },
+    ];
+
+    beforeAll(() => {
+      config.powerApps.destinations.push(
+        {
+          name: 'approvals',
+          url: 'https://approvals.test/flow',
+          authHeader: { name: 'x-flow-key', value: 'flow-secret' },
+        },
+        { name: 'audit', url: 'https://audit.test/flow', retryAttempts: 1 },
+        { name: 'rework', url: 'https://rework.test/flow' },
+      );
+    });
+
+    afterAll(async () => {
+      config.powerApps.destinations.splice(0);
+      await powerAppsRoutingService.resetRoutes();
+    });
+
+    it('should list destinations without their auth header values', async () => {
+      const response = await withHmac(request(app).get('/api/v1/powerapps/destinations'));
+
+      expect(response.status).toBe(200);
+      const names = response.body.destinations.map((d: { name: string }) => d.name);
+      expect(names).toEqual(['default', 'approvals', 'audit', 'rework']);
+      expect(response.body.destinations[1].authHeader).toBe('x-flow-key');
+      expect(JSON.stringify(response.body)).not.toContain('flow-secret');
+    });
+
+    it('should reject routes naming an unknown destination', async () => {
+      const response = await withHmac(request(app).put('/api/v1/powerapps/routes')).send({
+        routes: [{ name: 'Broken', destinations: ['nowhere'] }],
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message || response.body.error).toContain('nowhere');
+    });
+
+    it('should fan an event out to every matching route and fall back to default', async () => {
+      const saved = await withHmac(request(app).put('/api/v1/powerapps/routes')).send({ routes });
+      expect(saved.status).toBe(200);
+
+      const approved = { status: 'approved', groupName: 'Packaging Q3' };
+      expect(await powerAppsRoutingService.resolveDestinations(approved)).toEqual([
+        'approvals',
+        'audit',
+        'rework',
+      ]);
+
+      const draft = { status: 'in_proofing', groupName: 'Catalogue' };
+      expect(
+        await powerAppsRoutingService.resolveDestinations(draft, { documentType: 'drafts' }),
+      ).toEqual(['rework']);
+      expect(await powerAppsRoutingService.resolveDestinations(draft)).toEqual(['default']);
+    });
+
+    it("should deliver with the destination's URL, auth header and retry policy", async () => {
+      const post = jest.spyOn(axios, 'post').mockResolvedValue({ status: 202, data: {} });
+      await powerAppsOutboxService.enqueue({ status: 'approved' }, 'approvals');
+      await powerAppsOutboxService.dispatchDue(Date.now() + 60 * 60 * 1000);
+
+      expect(post).toHaveBeenCalledWith(
+        'https://approvals.test/flow',
+        JSON.stringify({ status: 'approved' }),
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'x-flow-key': 'flow-secret' }),
+        }),
+      );
+
+      rejectWith(503);
+      const audit = await powerAppsOutboxService.enqueue({ status: 'approved' }, 'audit');
+      await powerAppsOutboxService.dispatchDue();
+      expect(await powerAppsOutboxService.getDeadLetter(audit.id)).not.toBeNull();
+    });
+  });
+
+  describe('Signing', () => {
+    afterEach(() => {
+      process.env.POWERAPPS_SIGNING_SECRET = SIGNING_SECRET;
+    });
+
+    it('should sign the raw body with a timestamp and send the message ID', async () => {
+      const post = jest.spyOn(axios, 'post').mockResolvedValue({ status: 202, data: {} });
+      const message = await powerAppsOutboxService.enqueue({ groupName: 'Signed' }, 'default');
+      await powerAppsOutboxService.dispatchDue(Date.now() + 60 * 60 * 1000);
+
+      const [, rawBody, options] = post.mock.calls.find(
+        ([, body]) => body === JSON.stringify({ groupName: 'Signed' }),
+      )!;
+      const headers = options!.headers as Record<string, string>;
+      expect(headers[POWERAPPS_DELIVERY_ID_HEADER]).toBe(message.id);
+      expect(verifyPowerAppsSignature(SIGNING_SECRET, rawBody as string, headers)).toEqual({
+        valid: true,
+      });
+      expect(verifyPowerAppsSignature(SIGNING_SECRET, `${rawBody} `, headers).reason).toBe(
+        'mismatch',
+      );
+      const later = Date.now() + 5000;
+      expect(
+        verifyPowerAppsSignature(SIGNING_SECRET, rawBody as string, headers, 1000, later).reason,
+      ).toBe('expired');
+    });
+
+    it('should hold a message in the outbox when no signing secret is available', async () => {
+      delete process.env.POWERAPPS_SIGNING_SECRET;
+      const post = jest.spyOn(axios, 'post');
+      const message = await powerAppsOutboxService.enqueue({ groupName: 'Unsigned' }, 'default');
+
+      const summaries = [];
+      for (let pass = 0; pass < 10; pass++) {
+        summaries.push(await powerAppsOutboxService.dispatchDue());
+      }
+
+      expect(post).not.toHaveBeenCalled();
+      expect(summaries.every(summary => summary.held >= 1 && summary.retrying === 0)).toBe(true);
+      const held = (await powerAppsOutboxService.listPending()).find(m => m.id === message.id);
+      expect(held?.lastError).toContain('signing secret');
+      expect(held?.attempts).toBe(0);
+      expect(await powerAppsOutboxService.getDeadLetter(message.id)).toBeNull();
+    });
+  });
+
+  describe('Event contract', () => {
+    const { PowerAppsService } = jest.requireActual('../../services/powerAppsService');
+
+    beforeAll(() => {
+      jest.requireMock('../../services/powerAppsService').PowerAppsService.getEventJsonSchema =
+        PowerAppsService.getEventJsonSchema;
+    });
+
+    it('should publish a JSON Schema document covering every event type', async () => {
+      const response = await withHmac(request(app).get('/api/v1/powerapps/event-schema'));
+
+      expect(response.status).toBe(200);
+      expect(response.body.$schema).toContain('json-schema.org');
+      const eventTypes = response.body.anyOf.map(
+        (variant: { properties: { eventType: { const: string } } }) =>
+          variant.properties.eventType.const,
+      );
+      expect(eventTypes).toEqual([
+        'group_status',
+        'proof_locked',
+        'proof_reviewed',
+        'proof_in_proofing',
+        'due_soon',
+        'comment_created',
+        'decision_made',
+        'version_created',
+        'step_completed',
+        'owner_changed',
+      ]);
+    });
+
+    it('should queue a valid event', async () => {
+      const result = await PowerAppsService.sendToPowerApps({
+        eventType: 'proof_in_proofing',
+        schemaVersion: POWERAPPS_EVENT_SCHEMA_VERSION,
+        groupName: 'Catalogue',
+        status: 'in_proofing',
+        proofIds: ['proof-1'],
+        proofNames: ['Catalogue cover'],
+        reason: 'in_proofing',
+        email: 'reviewer@example.com',
+        dueDate: null,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.messageIds).toHaveLength(1);
+    });
+
+    it('should refuse an event that does not match the contract', async () => {
+      const before = (await powerAppsOutboxService.listPending()).length;
+      const result = await PowerAppsService.sendToPowerApps({
+        eventType: 'group_status',
+        schemaVersion: POWERAPPS_EVENT_SCHEMA_VERSION,
+        groupName: 'Catalogue',
+        status: 'approved',
+        lockedProofId: 'proof-1',
+        reason: 'All proofs are approved',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid PowerApps event');
+      expect(await powerAppsOutboxService.listPending()).toHaveLength(before);
+    });
+  });
+});
@@ -2,6 +2,10 @@ import request from 'supertest';
 import express from 'express';
 import { createTestApp, testMetadata, generateTestFile } from '../setup';
 import proofRoutes from '../../routes/v1/proofRoutes';
+import { idempotencyGuard } from '../../middlewares/idempotencyMiddleware';
+import { cacheService } from '../../services/cacheService';
+import { proofStateService } from '../../services/proofStateService';
+import { webhookGuardService } from '../../services/webhookGuardService';
 
 describe('Proof Routes', () => {
   let app: express.Application;
@@ -34,6 +38,67 @@ describe('Proof Routes', () => {
       // Accept various response codes since auth implementation may vary
       expect([200, 207, 401, 403, 400, 500]).toContain(response.status);
     });
+
+    it('should accept multi-step workflows in the metadata', async () => {
+      const metadata = {
+        ...testMetadata,
+        workflow: {
+          name: 'Legal then Brand',
+          steps: [
+            { name: 'Legal', reviewers: ['legal@example.com'], mandatory: true, dueInDays: 2 },
+            { name: 'Brand', reviewers: ['brand@example.com'], dueDate: '2030-01-31T00:00:00Z' },
+          ],
+          approver: ['approver@example.com'],
+        },
+      };
+
+      const response = await request(app)
+        .post('/api/v1/proofs/create-proof')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .field('metadata', JSON.stringify(metadata))
+        .attach('files', generateTestFile('test.pdf'), 'test.pdf');
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 207, 401, 403, 400, 500]).toContain(response.status);
+    });
+
+    it('should reject workflow steps with both absolute and relative due dates', async () => {
+      const metadata = {
+        ...testMetadata,
+        workflow: {
+          name: 'Invalid',
+          steps: [{ reviewers: ['legal@example.com'], dueInDays: 2, dueDate: '2030-01-31' }],
+        },
+      };
+
+      const response = await request(app)
+        .post('/api/v1/proofs/create-proof')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .field('metadata', JSON.stringify(metadata))
+        .attach('files', generateTestFile('test.pdf'), 'test.pdf');
+
+      // createProof reports metadata validation failures without a specific status code
+      expect([400, 500]).toContain(response.status);
+      expect(response.body.error).toMatch(/either dueDate or dueInDays/);
+    });
+
+    it('should accept async create proof requests with a job ID', async () => {
+      const response = await request(app)
+        .post('/api/v1/proofs/create-proof?async=true')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .field('metadata', JSON.stringify(testMetadata))
+        .attach('files', generateTestFile('test.pdf'), 'test.pdf');
+
+      // Accept various response codes since auth implementation may vary
+      expect([202, 401, 403, 400, 500]).toContain(response.status);
+      if (response.status === 202) {
+        expect(response.body.jobId).toBeDefined();
+        expect(response.headers.location).toBe(`/api/v1/jobs/${response.body.jobId}`);
+      }
+    });
   });
 
   describe('POST /api/v1/proofs/lock-proof', () => {
@@ -110,6 +175,29 @@ describe('Proof Routes', () => {
     });
   });
 
+  describe('POST /api/v1/proofs/replace-approver', () => {
+    it('should respond to replace approver requests', async () => {
+      const response = await request(app)
+        .post('/api/v1/proofs/replace-approver')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .send({ proofId: 'test-proof-123', newApproverEmail: 'approver@example.com' });
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 400, 401, 403, 404, 500]).toContain(response.status);
+    });
+
+    it('should reject an invalid approver email', async () => {
+      const response = await request(app)
+        .post('/api/v1/proofs/replace-approver')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .send({ proofId: 'test-proof-123', newApproverEmail: 'not-an-email' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
   describe('POST /api/v1/proofs/update-due-dates', () => {
     it('should respond to update due dates requests', async () => {
       const dueDateData = {
@@ -148,6 +236,431 @@ describe('Proof Routes', () => {
     });
   });
 
+  describe('POST /api/v1/proofs/unlock-proof', () => {
+    it('should respond to unlock proof requests', async () => {
+      const response = await request(app)
+        .post('/api/v1/proofs/unlock-proof')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .send({ proofIds: ['test-proof-123'], force: true });
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 207, 401, 403, 400, 500]).toContain(response.status);
+    });
+
+    it('should reject a non-boolean force flag', async () => {
+      const response = await request(app)
+        .post('/api/v1/proofs/unlock-proof')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .send({ proofIds: ['test-proof-123'], force: 'yes' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/v1/proofs/restore-proof', () => {
+    it('should respond to restore proof requests', async () => {
+      const response = await request(app)
+        .post('/api/v1/proofs/restore-proof')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .send({ proofIds: 'test-proof-123' });
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 207, 401, 403, 400, 500]).toContain(response.status);
+    });
+  });
+
+  describe('PATCH /api/v1/proofs/update-metadata', () => {
+    it('should respond to metadata update requests', async () => {
+      const response = await request(app)
+        .patch('/api/v1/proofs/update-metadata')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .send({
+          proofIds: ['test-proof-123', 'test-proof-456'],
+          changes: { name: 'Renamed Proof', tags: ['urgent'], messageToReviewers: 'Please review' },
+        });
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 207, 401, 403, 400, 500]).toContain(response.status);
+    });
+
+    it('should reject an empty set of changes', async () => {
+      const response = await request(app)
+        .patch('/api/v1/proofs/update-metadata')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .send({ proofIds: ['test-proof-123'], changes: {} });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject fields that cannot be updated', async () => {
+      const response = await request(app)
+        .patch('/api/v1/proofs/update-metadata')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .send({ proofIds: ['test-proof-123'], changes: { groupId: 'other-group' } });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should pass owner changes through with the other fields', async () => {
+      const proofService = jest.requireMock('../../services/proofService');
+      proofService.updateProofMetadata = jest
+        .fn()
+        .mockResolvedValue([{ proofId: 'test-proof-123', success: true }]);
+      const changes = { name: 'Renamed Proof', owners: ['owner@example.com'] };
+
+      const response = await request(app)
+        .patch('/api/v1/proofs/update-metadata')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .send({ proofIds: ['test-proof-123'], changes });
+
+      expect(response.status).toBe(200);
+      expect(proofService.updateProofMetadata).toHaveBeenCalledWith(['test-proof-123'], changes);
+    });
+
+    it('should reject an invalid owner email', async () => {
+      const response = await request(app)
+        .patch('/api/v1/proofs/update-metadata')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .send({ proofIds: ['test-proof-123'], changes: { owners: ['not-an-email'] } });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/proofs/proof/:proofId', () => {
+    it('should respond to single proof queries', async () => {
+      const response = await request(app)
+        .get('/api/v1/proofs/proof/test-proof-123')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature');
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 400, 401, 403, 404, 500]).toContain(response.status);
+    });
+
+    it('should require HMAC headers', async () => {
+      const response = await request(app).get('/api/v1/proofs/proof/test-proof-123');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/proofs/batch', () => {
+    it('should respond to batch proof queries', async () => {
+      const response = await request(app)
+        .get('/api/v1/proofs/batch?proofIds=test-proof-1,test-proof-2')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature');
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 207, 400, 401, 403, 500]).toContain(response.status);
+    });
+
+    it('should reject batch queries without proof IDs', async () => {
+      const response = await request(app)
+        .get('/api/v1/proofs/batch')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/proofs/collection/:groupId', () => {
+    it('should respond to collection proof queries', async () => {
+      const response = await request(app)
+        .get('/api/v1/proofs/collection/test-group-123')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature');
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 400, 401, 403, 404, 500]).toContain(response.status);
+    });
+  });
+
+  describe('GET /api/v1/proofs/feedback/proof/:proofId', () => {
+    it('should respond to proof feedback exports', async () => {
+      const response = await request(app)
+        .get('/api/v1/proofs/feedback/proof/test-proof-123')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature');
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 400, 401, 403, 404, 500]).toContain(response.status);
+    });
+
+    it('should reject unsupported export formats', async () => {
+      const response = await request(app)
+        .get('/api/v1/proofs/feedback/proof/test-proof-123?format=xml')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/proofs/feedback/collection/:groupId', () => {
+    it('should respond to collection feedback exports as CSV', async () => {
+      const response = await request(app)
+        .get('/api/v1/proofs/feedback/collection/test-group-123?format=csv')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature');
+
+      // Accept various response codes since auth implementation may vary
+      expect([200, 400, 401, 403, 404, 500]).toContain(response.status);
+    });
+  });
+
+  describe('Proof state transitions', () => {
+    const proofService = jest.requireMock('../../services/proofService');
+    const signed = (req: request.Test) =>
+      req.set('x-timestamp', Date.now().toString()).set('x-signature', 'test-signature');
+    const getTransitions = (proofId: string) =>
+      signed(request(app).get(`/api/v1/proofs/proof/${proofId}/transitions`));
+    const succeed = async (proofIds: string | string[]) =>
+      [proofIds].flat().map(proofId => ({ proofId, success: true }));
+
+    beforeEach(() => {
+      proofService.loadProofDetails = jest.fn().mockResolvedValue({ state: 'in_proofing' });
+      proofService.lockProofService = jest.fn().mockResolvedValue(true);
+      proofService.unlockProofs = jest.fn().mockImplementation(succeed);
+      proofService.archiveProofs = jest.fn().mockImplementation(succeed);
+      proofService.restoreProofs = jest.fn().mockImplementation(succeed);
+    });
+
+    it('should record lock and unlock with their source and trigger email', async () => {
+      const lock = await signed(request(app).post('/api/v1/proofs/lock-proof')).send({
+        proofIds: ['state-proof-1'],
+        triggerEmail: 'planner@example.com',
+      });
+      const unlock = await signed(request(app).post('/api/v1/proofs/unlock-proof')).send({
+        proofIds: ['state-proof-1'],
+      });
+      const response = await getTransitions('state-proof-1');
+
+      expect(lock.status).toBe(200);
+      expect(unlock.status).toBe(200);
+      expect(response.body.state).toBe('in_proofing');
+      expect(response.body.transitions).toEqual([
+        expect.objectContaining({
+          from: null,
+          to: 'locked',
+          source: 'api',
+          triggerEmail: 'planner@example.com',
+        }),
+        expect.objectContaining({ from: 'locked', to: 'in_proofing', triggerEmail: null }),
+      ]);
+    });
+
+    it('should forget the last webhook status of an unlocked proof', async () => {
+      const verdict = await webhookGuardService.screen(
+        'unlock-guard',
+        'state-proof-5',
+        'approved',
+        true,
+      );
+      await webhookGuardService.completeDelivery(verdict.deliveryKey, 200);
+      expect(await webhookGuardService.getLastStatus('state-proof-5')).not.toBeNull();
+
+      const unlock = await signed(request(app).post('/api/v1/proofs/unlock-proof')).send({
+        proofIds: ['state-proof-5'],
+      });
+
+      expect(unlock.status).toBe(200);
+      expect(await webhookGuardService.getLastStatus('state-proof-5')).toBeNull();
+    });
+
+    it('should refuse to lock an archived proof until it is restored', async () => {
+      await signed(request(app).post('/api/v1/proofs/archive-proof')).send({
+        proofIds: ['state-proof-2'],
+      });
+
+      const refused = await signed(request(app).post('/api/v1/proofs/lock-proof')).send({
+        proofIds: ['state-proof-2'],
+      });
+      expect(refused.status).toBe(207);
+      expect(refused.body.results[0].error).toBe('Proof cannot move from archived to locked');
+      expect(proofService.lockProofService).not.toHaveBeenCalled();
+
+      await signed(request(app).post('/api/v1/proofs/restore-proof')).send({
+        proofIds: 'state-proof-2',
+      });
+      const locked = await signed(request(app).post('/api/v1/proofs/lock-proof')).send({
+        proofIds: ['state-proof-2'],
+      });
+      const response = await getTransitions('state-proof-2');
+
+      expect(locked.status).toBe(200);
+      expect(response.body.transitions.map((t: { to: string }) => t.to)).toEqual([
+        'archived',
+        'in_proofing',
+        'locked',
+      ]);
+    });
+
+    it('should move a locked proof on when PageProof reports a new status', async () => {
+      await signed(request(app).post('/api/v1/proofs/lock-proof')).send({
+        proofIds: ['state-proof-3'],
+      });
+
+      await proofStateService.record('state-proof-3', 'approved', { source: 'webhook' });
+      const response = await getTransitions('state-proof-3');
+
+      expect(response.body.state).toBe('approved');
+      expect(response.body.transitions[1]).toMatchObject({
+        from: 'locked',
+        to: 'approved',
+        source: 'webhook',
+        reason: 'Unlocked in PageProof',
+      });
+    });
+
+    it('should return an empty history for a proof without transitions', async () => {
+      const response = await getTransitions('state-proof-unknown');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ state: null, transitions: [] });
+    });
+  });
+
+  describe('Idempotency-Key', () => {
+    it('should replay the stored response for a repeated key', async () => {
+      const stored = {
+        statusCode: 200,
+        body: { statusCode: 200, success: true, results: [{ proofId: 'test-proof-123' }] },
+        storedAt: new Date().toISOString(),
+      };
+      (cacheService.get as jest.Mock).mockImplementation(async (key, options) =>
+        options?.prefix === 'idempotency' ? stored : null,
+      );
+
+      const response = await request(app)
+        .post('/api/v1/proofs/lock-proof')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .set('Idempotency-Key', 'lock-123')
+        .send({ proofIds: ['test-proof-123'] });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['idempotent-replayed']).toBe('true');
+      expect(response.body.results).toEqual([{ proofId: 'test-proof-123' }]);
+
+      (cacheService.get as jest.Mock).mockResolvedValue(null);
+    });
+
+    it('should reject a duplicate while the first request is still running', async () => {
+      const slowApp = createTestApp();
+      slowApp.post('/slow', idempotencyGuard.handle, async (req, res) => {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        res.status(200).json({ success: true });
+      });
+
+      const [first, second] = await Promise.all([
+        request(slowApp).post('/slow').set('Idempotency-Key', 'slow-123').send({}),
+        new Promise(resolve => setTimeout(resolve, 50)).then(() =>
+          request(slowApp).post('/slow').set('Idempotency-Key', 'slow-123').send({}),
+        ),
+      ]);
+
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(409);
+    });
+
+    // Stores idempotent responses in memory, as the cache would
+    const storeResponses = () => {
+      const stored = new Map<string, unknown>();
+      (cacheService.get as jest.Mock).mockImplementation(async (key, options) =>
+        options?.prefix === 'idempotency' ? (stored.get(key) ?? null) : null,
+      );
+      (cacheService.set as jest.Mock).mockImplementation(async (key, value, options) => {
+        if (options?.prefix === 'idempotency') stored.set(key, value);
+        return true;
+      });
+    };
+
+    afterEach(() => {
+      (cacheService.get as jest.Mock).mockReset().mockResolvedValue(null);
+      (cacheService.set as jest.Mock).mockReset().mockResolvedValue(true);
+    });
+
+    it('should reject a key reused with a different body', async () => {
+      storeResponses();
+      const echoApp = createTestApp();
+      echoApp.post('/echo', idempotencyGuard.handle, async (req, res) => {
+        res.status(201).json({ received: req.body });
+      });
+      const send = (body: object) =>
+        request(echoApp).post('/echo').set('Idempotency-Key', 'reuse-123').send(body);
+
+      const first = await send({ name: 'First' });
+      const repeat = await send({ name: 'First' });
+      const reused = await send({ name: 'Second' });
+
+      expect(first.status).toBe(201);
+      expect(repeat.headers['idempotent-replayed']).toBe('true');
+      expect(reused.status).toBe(422);
+    });
+
+    it('should reject a key reused with different files', async () => {
+      storeResponses();
+      const upload = (content: string) =>
+        request(app)
+          .post('/api/v1/proofs/create-proof?async=true')
+          .set('x-timestamp', Date.now().toString())
+          .set('x-signature', 'test-signature')
+          .set('Idempotency-Key', 'upload-123')
+          .field('metadata', JSON.stringify(testMetadata))
+          .attach('files', generateTestFile('test.pdf', content), 'test.pdf');
+
+      const first = await upload('first version');
+      const reused = await upload('a different, longer file');
+
+      expect(first.status).toBeLessThan(500);
+      expect(reused.status).toBe(422);
+    });
+
+    it('should replay the response to a retry after the client gave up waiting', async () => {
+      storeResponses();
+      let runs = 0;
+      const slowApp = createTestApp();
+      slowApp.post('/slow', idempotencyGuard.handle, async (req, res) => {
+        runs++;
+        await new Promise(resolve => setTimeout(resolve, 200));
+        res.status(201).json({ run: runs });
+      });
+      const send = () => request(slowApp).post('/slow').set('Idempotency-Key', 'abort-123');
+
+      await expect(send().send({}).timeout(50)).rejects.toThrow();
+      const whileRunning = await send().send({});
+      await new Promise(resolve => setTimeout(resolve, 250));
+      const retry = await send().send({});
+
+      expect(whileRunning.status).toBe(409);
+      expect(retry.status).toBe(201);
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(runs).toBe(1);
+    });
+
+    it('should reject overly long keys', async () => {
+      const response = await request(app)
+        .post('/api/v1/proofs/lock-proof')
+        .set('x-timestamp', Date.now().toString())
+        .set('x-signature', 'test-signature')
+        .set('Idempotency-Key', 'k'.repeat(256))
+        .send({ proofIds: ['test-proof-123'] });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
   describe('Response Format', () => {
     it('should return proper content type', async () => {
       const response = await request(app)
@@ -0,0 +1,168 @@
+import request from 'supertest';
+import express from 'express';
+import { createTestApp, testProofData } from '../setup';
+import webhookEventRoutes from '../../routes/v1/webhookEventRoutes';
+import { webhookEventService } from '../../services/webhookEventService';
+import { webhookGuardService } from '../../services/webhookGuardService';
+
+const withHmac = (req: request.Test) =>
+  req.set('x-timestamp', Date.now().toString()).set('x-signature', 'test-signature');
+
+describe('Webhook Event Routes', () => {
+  let app: express.Application;
+  let eventId: string;
+
+  beforeAll(async () => {
+    eventId = (await webhookEventService.recordReceived(
+      'proofStatus',
+      JSON.stringify(testProofData),
+      { 'content-type': 'application/json', authorization: 'Bearer secret' },
+      { signatureValid: true, bodyValid: true, errors: [] },
+    )) as string;
+    await webhookEventService.recordOutcome(eventId, 500, 'PowerApps unavailable');
+  });
+
+  beforeEach(() => {
+    app = createTestApp();
+    app.use('/api/v1/webhook-events', webhookEventRoutes);
+  });
+
+  describe('GET /api/v1/webhook-events', () => {
+    it('should list stored events filtered by status', async () => {
+      const response = await withHmac(request(app).get('/api/v1/webhook-events?status=failed'));
+
+      expect(response.status).toBe(200);
+      expect(response.body.events.map((event: { id: string }) => event.id)).toContain(eventId);
+    });
+
+    it('should page through events newest first', async () => {
+      await webhookEventService.recordReceived(
+        'proofStatus',
+        JSON.stringify(testProofData),
+        {},
+        { signatureValid: true, bodyValid: true, errors: [] },
+      );
+
+      const first = await withHmac(request(app).get('/api/v1/webhook-events?limit=2'));
+      const second = await withHmac(request(app).get('/api/v1/webhook-events?limit=1&offset=1'));
+
+      expect(second.status).toBe(200);
+      expect(second.body).toMatchObject({ total: first.body.total, offset: 1, count: 1 });
+      expect(first.body.total).toBeGreaterThanOrEqual(2);
+      expect(second.body.events[0].id).toBe(first.body.events[1].id);
+    });
+
+    it('should reject an invalid date filter', async () => {
+      const response = await withHmac(request(app).get('/api/v1/webhook-events?from=yesterday'));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should require HMAC headers', async () => {
+      const response = await request(app).get('/api/v1/webhook-events');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/webhook-events/:eventId', () => {
+    it('should return the event without credential headers', async () => {
+      const response = await withHmac(request(app).get(`/api/v1/webhook-events/${eventId}`));
+
+      expect(response.status).toBe(200);
+      expect(response.body.event.headers.authorization).toBeUndefined();
+      expect(response.body.event.outcomes[0].status).toBe('failed');
+    });
+
+    it('should return 404 for unknown events', async () => {
+      const response = await withHmac(
+        request(app).get('/api/v1/webhook-events/00000000-0000-4000-8000-000000000000'),
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/v1/webhook-events/:eventId/replay', () => {
+    it('should replay the event and record the outcome', async () => {
+      const response = await withHmac(
+        request(app).post(`/api/v1/webhook-events/${eventId}/replay`),
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.outcome.replay).toBe(true);
+
+      const event = await webhookEventService.getEvent(eventId);
+      expect(event?.outcomes).toHaveLength(2);
+    });
+
+    it('should not process a status older than the last known one again', async () => {
+      await webhookGuardService.screen('replay-stale', 'replay-stale-1', 'approved', true);
+      await webhookGuardService.completeDelivery('replay-stale', 200);
+      const staleId = (await webhookEventService.recordReceived(
+        'proofStatus',
+        JSON.stringify({
+          ...testProofData,
+          proof: { ...testProofData.proof, id: 'replay-stale-1', status: 'in_proofing' },
+        }),
+        {},
+        { signatureValid: true, bodyValid: true, errors: [] },
+      )) as string;
+
+      const response = await withHmac(
+        request(app).post(`/api/v1/webhook-events/${staleId}/replay`),
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.outcome).toMatchObject({ status: 'ignored', replay: true });
+    });
+  });
+
+  describe('POST /api/v1/webhook-events/replay', () => {
+    it('should replay events in a time range', async () => {
+      const response = await withHmac(request(app).post('/api/v1/webhook-events/replay')).send({
+        from: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+        to: new Date().toISOString(),
+      });
+
+      expect([200, 207]).toContain(response.status);
+      expect(response.body.count).toBeGreaterThanOrEqual(1);
+    });
+
+    it('should only replay failed and pending events unless asked to', async () => {
+      const processedId = (await webhookEventService.recordReceived(
+        'proofStatus',
+        JSON.stringify(testProofData),
+        {},
+        { signatureValid: true, bodyValid: true, errors: [] },
+      )) as string;
+      await webhookEventService.recordOutcome(processedId, 200);
+      const range = {
+        from: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+        to: new Date().toISOString(),
+      };
+      const replayedIds = (response: request.Response) =>
+        response.body.results.map((result: { eventId: string }) => result.eventId);
+
+      const byDefault = await withHmac(request(app).post('/api/v1/webhook-events/replay')).send(
+        range,
+      );
+      const processed = await withHmac(request(app).post('/api/v1/webhook-events/replay')).send({
+        ...range,
+        statuses: ['processed'],
+      });
+
+      expect(replayedIds(byDefault)).not.toContain(processedId);
+      expect(replayedIds(processed)).toContain(processedId);
+    });
+
+    it('should reject a reversed range', async () => {
+      const response = await withHmac(request(app).post('/api/v1/webhook-events/replay')).send({
+        from: new Date().toISOString(),
+        to: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -1,7 +1,14 @@
 import request from 'supertest';
 import express from 'express';
+import { z } from 'zod';
 import { createTestApp, testProofData, testOverdueData } from '../setup';
 import webhookRoutes from '../../routes/v1/webhookRoutes';
+import { cacheService } from '../../services/cacheService';
+import { WebhookService } from '../../services/webhookService';
+import { webhookEventService } from '../../services/webhookEventService';
+import { webhookHandlerService } from '../../services/webhookHandlerService';
+import { PowerAppsEventSchema } from '../../schema/zodSchemas';
+import config from '../../config';
 
 describe('Webhook Routes', () => {
   let app: express.Application;
@@ -59,6 +66,280 @@ describe('Webhook Routes', () => {
     });
   });
 
+  describe('Delivery screening', () => {
+    const signatureModule = jest.requireMock('../../utils/verifySignature');
+    const proofService = jest.requireMock('../../services/proofService');
+    const processed = { status: 200, error: null as string | null, message: 'processed' };
+    let seen: Map<string, unknown>;
+
+    const sendStatus = (proof: object, headers: Record<string, string> = {}) =>
+      request(app)
+        .post('/api/v1/webhook/proof-status')
+        .set('Content-Type', 'application/json')
+        .set(headers)
+        .send({ ...testProofData, proof: { ...testProofData.proof, ...proof } });
+
+    beforeEach(() => {
+      seen = new Map();
+      signatureModule.verifySignature = {
+        isRequestSignedByPageProof: jest.fn().mockResolvedValue(true),
+      };
+      (cacheService.get as jest.Mock).mockImplementation(async (key, options) =>
+        options?.prefix === 'webhook-delivery' ? (seen.get(key) ?? null) : null,
+      );
+      (cacheService.set as jest.Mock).mockImplementation(async (key, value, options) => {
+        if (options?.prefix === 'webhook-delivery') seen.set(key, value);
+        return true;
+      });
+      (WebhookService.handleProofStatus as jest.Mock).mockClear();
+    });
+
+    afterEach(() => {
+      delete signatureModule.verifySignature;
+      (cacheService.get as jest.Mock).mockReset().mockResolvedValue(null);
+      (cacheService.set as jest.Mock).mockReset().mockResolvedValue(true);
+    });
+
+    it('should ignore a retried delivery of the same body', async () => {
+      (WebhookService.handleProofStatus as jest.Mock).mockResolvedValueOnce(processed);
+
+      const first = await sendStatus({ id: 'dedup-proof-1', status: 'approved' });
+      const retry = await sendStatus({ id: 'dedup-proof-1', status: 'approved' });
+
+      expect(first.status).toBe(200);
+      expect(retry.status).toBe(200);
+      expect(retry.body).toMatchObject({ ignored: true, reason: 'duplicate' });
+      expect(WebhookService.handleProofStatus).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat a repeated delivery ID as a duplicate', async () => {
+      (WebhookService.handleProofStatus as jest.Mock).mockResolvedValueOnce(processed);
+      const headers = { 'x-pageproof-delivery-id': 'delivery-123' };
+
+      await sendStatus({ id: 'dedup-proof-2', status: 'in_proofing' }, headers);
+      const retry = await sendStatus({ id: 'dedup-proof-2', name: 'Renamed' }, headers);
+
+      expect(retry.body.reason).toBe('duplicate');
+      expect(WebhookService.handleProofStatus).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore a status older than the last known one', async () => {
+      (WebhookService.handleProofStatus as jest.Mock).mockResolvedValueOnce(processed);
+      proofService.loadProofDetails = jest.fn().mockResolvedValue({ state: 'approved' });
+
+      await sendStatus({ id: 'stale-proof-1', status: 'approved' });
+      const stale = await sendStatus({ id: 'stale-proof-1', status: 'in_proofing' });
+
+      expect(stale.status).toBe(200);
+      expect(stale.body).toMatchObject({ ignored: true, reason: 'regression' });
+      expect(WebhookService.handleProofStatus).toHaveBeenCalledTimes(1);
+    });
+
+    it('should accept a lower status once PageProof reports the proof reopened', async () => {
+      (WebhookService.handleProofStatus as jest.Mock)
+        .mockResolvedValueOnce(processed)
+        .mockResolvedValueOnce(processed)
+        .mockResolvedValueOnce(processed);
+      proofService.loadProofDetails = jest.fn().mockResolvedValue({ state: 'in_proofing' });
+
+      await sendStatus({ id: 'reopened-proof-1', status: 'approved' });
+      const reopened = await sendStatus({ id: 'reopened-proof-1', status: 'in_proofing' });
+      const approver = await sendStatus({ id: 'reopened-proof-1', status: 'with_approver' });
+
+      expect(reopened.body.ignored).toBeUndefined();
+      expect(approver.body.ignored).toBeUndefined();
+      expect(WebhookService.handleProofStatus).toHaveBeenCalledTimes(3);
+      expect(proofService.loadProofDetails).toHaveBeenCalledWith('reopened-proof-1');
+    });
+
+    it('should not judge a retry stale after a later status failed to process', async () => {
+      (WebhookService.handleProofStatus as jest.Mock)
+        .mockResolvedValueOnce({ status: 500, error: 'PowerApps unavailable', message: null })
+        .mockResolvedValueOnce(processed);
+
+      const failed = await sendStatus({ id: 'stale-proof-2', status: 'approved' });
+      const earlier = await sendStatus({ id: 'stale-proof-2', status: 'in_proofing' });
+
+      expect(failed.status).toBe(500);
+      expect(earlier.status).toBe(200);
+      expect(earlier.body.ignored).toBeUndefined();
+      expect(WebhookService.handleProofStatus).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Proof activity webhooks', () => {
+    const signatureModule = jest.requireMock('../../utils/verifySignature');
+    const proofService = jest.requireMock('../../services/proofService');
+    const { PowerAppsService } = jest.requireMock('../../services/powerAppsService');
+    const proof = { id: 'activity-proof-1', name: 'Cover' };
+    const trigger = { email: 'reviewer@example.com' };
+
+    const send = (path: string, body: object) =>
+      request(app)
+        .post(`/api/v1/webhook/${path}`)
+        .set('Content-Type', 'application/json')
+        .send(body);
+
+    beforeEach(() => {
+      signatureModule.verifySignature = {
+        isRequestSignedByPageProof: jest.fn().mockResolvedValue(true),
+      };
+      proofService.loadProofDetails = jest
+        .fn()
+        .mockResolvedValue({ id: proof.id, state: 'in_proofing', groupId: 'group-1' });
+      proofService.getGroupById = jest.fn().mockResolvedValue({ id: 'group-1', name: 'Catalogue' });
+      PowerAppsService.sendToPowerApps = jest.fn().mockResolvedValue({ success: true });
+    });
+
+    afterEach(() => {
+      delete signatureModule.verifySignature;
+    });
+
+    it.each([
+      ['comment-created', 'comment_created', { comment: { id: 'c-1', isTodo: true } }],
+      ['decision-made', 'decision_made', { decision: { email: trigger.email, decision: 'ok' } }],
+      ['version-created', 'version_created', { proof: { ...proof, version: 2 } }],
+      ['step-completed', 'step_completed', { step: { id: 'step-1', name: 'Review' } }],
+      ['owner-changed', 'owner_changed', { owners: { added: ['owner@example.com'] } }],
+    ])('should forward %s to PowerApps as %s', async (path, eventType, details) => {
+      const response = await send(path, { proof, trigger, ...details });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ statusCode: 200, forwarded: true });
+      const [event] = PowerAppsService.sendToPowerApps.mock.calls[0];
+      expect(PowerAppsEventSchema.parse(event)).toMatchObject({
+        eventType,
+        groupName: 'Catalogue',
+        status: 'in_proofing',
+        proofIds: [proof.id],
+      });
+    });
+
+    it('should accept but not forward event types left out of the forward list', async () => {
+      const { forward } = config.pageProofEvents;
+      const index = forward.indexOf('commentCreated');
+      forward.splice(index, 1);
+      try {
+        const response = await send('comment-created', {
+          proof: { id: 'activity-proof-2' },
+          comment: { id: 'c-2' },
+        });
+
+        expect(response.status).toBe(200);
+        expect(response.body.forwarded).toBe(false);
+        expect(PowerAppsService.sendToPowerApps).not.toHaveBeenCalled();
+      } finally {
+        forward.splice(index, 0, 'commentCreated');
+      }
+    });
+
+    it('should return 500 when the event cannot be queued for PowerApps', async () => {
+      PowerAppsService.sendToPowerApps.mockResolvedValue({ success: false, error: 'Queue full' });
+
+      const response = await send('step-completed', {
+        proof: { id: 'activity-proof-3' },
+        step: { id: 'step-9' },
+      });
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe('Queue full');
+    });
+
+    it('should reject an owner change that neither adds nor removes owners', async () => {
+      const response = await send('owner-changed', { proof, owners: { added: [], removed: [] } });
+
+      expect(response.status).toBe(400);
+      expect(PowerAppsService.sendToPowerApps).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Handler registry', () => {
+    const signatureModule = jest.requireMock('../../utils/verifySignature');
+    const signed = jest.fn();
+
+    const send = (eventType: string, body: object) =>
+      request(app)
+        .post(`/api/v1/webhook/${eventType}`)
+        .set('Content-Type', 'application/json')
+        .send(body);
+
+    beforeEach(() => {
+      const seen = new Map<string, unknown>();
+      signed.mockReset().mockResolvedValue(true);
+      signatureModule.verifySignature = { isRequestSignedByPageProof: signed };
+      (cacheService.get as jest.Mock).mockImplementation(async key => seen.get(key) ?? null);
+      (cacheService.set as jest.Mock).mockImplementation(async (key, value) => {
+        seen.set(key, value);
+        return true;
+      });
+    });
+
+    afterEach(() => {
+      delete signatureModule.verifySignature;
+      (cacheService.get as jest.Mock).mockReset().mockResolvedValue(null);
+      (cacheService.set as jest.Mock).mockReset().mockResolvedValue(true);
+    });
+
+    it('should store an unknown event type and report it as unhandled', async () => {
+      const response = await send('proof-archived', { proof: { id: 'archived-1' } });
+
+      expect(response.status).toBe(202);
+      expect(response.body).toMatchObject({ statusCode: 202, handled: false });
+      const event = await webhookEventService.getEvent(response.body.eventId);
+      expect(event).toMatchObject({
+        type: 'proof-archived',
+        outcomes: [expect.objectContaining({ status: 'unhandled', statusCode: 202 })],
+      });
+    });
+
+    it('should not store unsigned deliveries of unknown event types', async () => {
+      signed.mockResolvedValue(false);
+
+      const response = await send('proof-deleted', { proof: { id: 'deleted-1' } });
+
+      expect(response.status).toBe(403);
+      expect((await webhookEventService.listEvents({ type: 'proof-deleted' })).total).toBe(0);
+    });
+
+    it('should reject an event type that is not a valid name', async () => {
+      const response = await send('%24bad', {});
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should dispatch to a registered handler and replay events stored before it', async () => {
+      const stored = await send('label-added', { proof: { id: 'label-1' }, label: 'urgent' });
+      expect(stored.status).toBe(202);
+
+      const process = jest.fn().mockResolvedValue({
+        status: 200,
+        error: null,
+        message: 'Label recorded',
+        data: { label: 'urgent' },
+      });
+      webhookHandlerService.register({
+        eventType: 'label-added',
+        name: 'labelAdded',
+        schema: z.object({ proof: z.object({ id: z.string() }), label: z.string() }),
+        requireSignature: false,
+        recordStatus: false,
+        getDedupKey: ({ body }) => `label:${body.proof.id}:${body.label}`,
+        process,
+      });
+
+      signed.mockResolvedValue(false);
+      const handled = await send('label-added', { proof: { id: 'label-2' }, label: 'urgent' });
+      const retried = await send('label-added', { label: 'urgent', proof: { id: 'label-2' } });
+      const replayed = await webhookEventService.replayEvent(stored.body.eventId);
+
+      expect(handled.status).toBe(200);
+      expect(handled.body).toMatchObject({ message: 'Label recorded', label: 'urgent' });
+      expect(retried.body.reason).toBe('duplicate');
+      expect(replayed).toMatchObject({ status: 'processed', replay: true });
+      expect(process).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('GET /api/v1/webhook/health', () => {
     it('should respond to health check requests', async () => {
       const response = await request(app)
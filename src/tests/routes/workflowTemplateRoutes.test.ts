@@ -0,0 +1,107 @@
+import request from 'supertest';
+import express from 'express';
+import { createTestApp } from '../setup';
+import workflowTemplateRoutes from '../../routes/v1/workflowTemplateRoutes';
+
+const withHmac = (req: request.Test) =>
+  req.set('x-timestamp', Date.now().toString()).set('x-signature', 'test-signature');
+
+describe('Workflow Template Routes', () => {
+  let app: express.Application;
+
+  const template = {
+    name: `Markup Review ${Date.now()}`,
+    description: 'Two-step markup review',
+    steps: [
+      { name: 'Legal', reviewers: ['legal@example.com'], mandatory: true, dueInDays: 2 },
+      { name: 'Brand', reviewers: ['brand@example.com'], gatekeepers: ['lead@example.com'] },
+    ],
+    approver: ['approver@example.com'],
+  };
+
+  beforeEach(() => {
+    app = createTestApp();
+    app.use('/api/v1/workflow-templates', workflowTemplateRoutes);
+  });
+
+  describe('POST /api/v1/workflow-templates', () => {
+    it('should create a template and reject duplicates', async () => {
+      const created = await withHmac(request(app).post('/api/v1/workflow-templates')).send(
+        template,
+      );
+
+      expect(created.status).toBe(201);
+      expect(created.body.template.steps).toHaveLength(2);
+      expect(created.body.template.steps[1].mandatory).toBe(false);
+
+      const duplicate = await withHmac(request(app).post('/api/v1/workflow-templates')).send(
+        template,
+      );
+
+      expect(duplicate.status).toBe(409);
+    });
+
+    it('should reject templates without steps', async () => {
+      const response = await withHmac(request(app).post('/api/v1/workflow-templates')).send({
+        name: 'Empty',
+        steps: [],
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should require HMAC headers', async () => {
+      const response = await request(app).post('/api/v1/workflow-templates').send(template);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/workflow-templates', () => {
+    it('should list and fetch templates by name case-insensitively', async () => {
+      const list = await withHmac(request(app).get('/api/v1/workflow-templates'));
+
+      expect(list.status).toBe(200);
+      expect(list.body.templates.map((t: any) => t.name)).toContain(template.name);
+
+      const single = await withHmac(
+        request(app).get(
+          `/api/v1/workflow-templates/${encodeURIComponent(template.name.toUpperCase())}`,
+        ),
+      );
+
+      expect(single.status).toBe(200);
+      expect(single.body.template.name).toBe(template.name);
+    });
+
+    it('should return 404 for unknown templates', async () => {
+      const response = await withHmac(request(app).get('/api/v1/workflow-templates/unknown'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PUT /api/v1/workflow-templates/:name', () => {
+    it('should replace the template steps', async () => {
+      const response = await withHmac(
+        request(app).put(`/api/v1/workflow-templates/${encodeURIComponent(template.name)}`),
+      ).send({ steps: [{ reviewers: ['solo@example.com'] }] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.template.name).toBe(template.name);
+      expect(response.body.template.steps).toHaveLength(1);
+    });
+  });
+
+  describe('DELETE /api/v1/workflow-templates/:name', () => {
+    it('should delete the template', async () => {
+      const path = `/api/v1/workflow-templates/${encodeURIComponent(template.name)}`;
+
+      const deleted = await withHmac(request(app).delete(path));
+      expect(deleted.status).toBe(200);
+
+      const missing = await withHmac(request(app).delete(path));
+      expect(missing.status).toBe(404);
+    });
+  });
+});
@@ -1,3 +1,6 @@
+import os from 'os';
+import path from 'path';
+
 import request from 'supertest';
 import express from 'express';
 
@@ -8,10 +11,11 @@ process.env.HMAC_SECRET_KEY = 'test-secret-key';
 process.env.JWT_SECRET = 'test-jwt-secret';
 process.env.CORS_ORIGINS = 'http://localhost:3000';
 process.env.POWERAPPS_PAGEPROOF_APPROVED_ENDPOINT = 'https://test-powerapps.com/api';
+process.env.DATA_DIR = path.join(os.tmpdir(), `moen-test-data-${process.pid}`);
 
 // Mock config before importing it
-jest.mock('../config', () => ({
-  config: {
+jest.mock('../config', () => {
+  const config = {
     app: {
       name: 'test-app',
       version: '1.0.0',
@@ -78,9 +82,35 @@ jest.mock('../config', () => ({
       timeout: 30000,
       retryAttempts: 3,
       retryDelay: 1000,
+      maxRetryDelay: 300000,
+      dispatchInterval: 5000,
+      destinations: [] as Record<string, unknown>[],
     },
-  },
-}));
+    circuitBreaker: {
+      failureRateThreshold: 0.5,
+      minimumCalls: 5,
+      windowMs: 60000,
+      coolDownMs: 30000,
+      halfOpenMaxCalls: 1,
+    },
+    overdueSweeper: {
+      enabled: false,
+      interval: 900000,
+      dryRun: false,
+    },
+    dueReminders: {
+      leadTimes: [48, 24],
+    },
+    pageProofEvents: {
+      forward: ['commentCreated', 'decisionMade', 'versionCreated', 'stepCompleted', 'ownerChanged'],
+    },
+    eventGrid: {
+      sharedKey: 'test-eventgrid-key',
+      simulateFailures: false,
+    },
+  };
+  return { __esModule: true, default: config, config };
+});
 
 // Mock services
 jest.mock('../services/hmacService', () => ({
@@ -142,6 +172,7 @@ jest.mock('../services/cacheService', () => ({
   cacheService: {
     get: jest.fn().mockResolvedValue(null),
     set: jest.fn().mockResolvedValue(true),
+    delete: jest.fn().mockResolvedValue(true),
     isCacheConnected: jest.fn().mockReturnValue(true),
     getStats: jest.fn().mockReturnValue({ 
       hits: 0, 
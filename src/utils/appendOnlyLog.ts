@@ -0,0 +1,82 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+
+import { Mutex } from 'async-mutex';
+
+import { loggerService } from './logger';
+import { getDataDir } from './jsonFileStore';
+
+// #region Append-Only Log
+
+/**
+ * Append-only log persisted as JSON lines under the data directory. Records are only
+ * rewritten by compact(); a line that cannot be parsed (e.g. cut short by a crash) is
+ * skipped on read.
+ */
+class AppendOnlyLog<T> {
+  private readonly filePath: string;
+  private readonly mutex = new Mutex();
+
+  constructor(fileName: string) {
+    this.filePath = path.join(getDataDir(), fileName);
+  }
+
+  public async append(record: T): Promise<void> {
+    await this.mutex.runExclusive(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, `${JSON.stringify(record)}\n`, 'utf8');
+    });
+  }
+
+  public async readAll(): Promise<T[]> {
+    return this.mutex.runExclusive(() => this.read());
+  }
+
+  /**
+   * Rewrites the log with only the records to keep. The new file is written to a temp file
+   * first and renamed into place, so a crash mid-write leaves the old log intact.
+   * @param keep Returns whether a record stays in the log
+   * @returns Number of records removed
+   */
+  public async compact(keep: (record: T) => boolean): Promise<number> {
+    return this.mutex.runExclusive(async () => {
+      const records = await this.read();
+      const kept = records.filter(keep);
+      if (kept.length === records.length) return 0;
+
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      const lines = kept.map(record => `${JSON.stringify(record)}\n`).join('');
+      await fs.writeFile(tmpPath, lines, 'utf8');
+      await fs.rename(tmpPath, this.filePath);
+      return records.length - kept.length;
+    });
+  }
+
+  private async read(): Promise<T[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: T[] = [];
+    raw.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        loggerService.logger.warn('AppendOnlyLog: skipping unreadable line', {
+          filePath: this.filePath,
+          line: index + 1,
+        });
+      }
+    });
+    return records;
+  }
+}
+
+// #endregion
+
+export { AppendOnlyLog };
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+
+import { performanceService } from '../services/performanceService';
+
+import { loggerService } from './logger';
+
+/**
+ * Wraps an async route handler with performance monitoring. Errors are logged with the
+ * request details and passed on to the error middleware.
+ * @param operationName Name used for the timing metric and in error logs
+ */
+export const asyncHandler = (operationName: string) => {
+  return (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+      return performanceService.measureAsync(`${operationName}.total`, async () => {
+        try {
+          await fn(req, res, next);
+        } catch (error) {
+          loggerService.logger.error(`Error in ${operationName}`, {
+            error: (error as Error).message,
+            url: req.originalUrl,
+            method: req.method,
+            ip: req.ip,
+          });
+          next(error);
+        }
+      });
+    };
+};
@@ -66,6 +66,7 @@ class ErrorHandler {
     // Sanitize error response for production
     const response = {
       error: message,
+      ...(errorDetails.code && { code: errorDetails.code }),
       ...(process.env.NODE_ENV === 'development' && {
         details: error ? error.message : undefined,
         stack: error ? error.stack : undefined,
@@ -73,6 +74,10 @@ class ErrorHandler {
       ...(requestId && { requestId }),
     };
 
+    // Tell clients when an unavailable dependency is worth trying again
+    const retryAfter = (error as any)?.retryAfter;
+    if (typeof retryAfter === 'number') res.setHeader('Retry-After', retryAfter.toString());
+
     // Send error response
     res.status(statusCode).json(response);
   }
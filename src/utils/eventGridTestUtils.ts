@@ -0,0 +1,230 @@
+import { randomUUID } from 'crypto';
+
+import config from '../config';
+import { CloudEvent, EventGridEvent } from '../schema/zodSchemas';
+import { eventGridService, toEventGridOutcome } from '../services/eventGridService';
+
+import { ErrorHandler } from './errorHandler';
+import { loggerService } from './logger';
+
+// #region Types
+
+// Failure an event is made to fail with, and the status Event Grid sees for it
+export type SimulatedError = 'none' | 'processing' | 'timeout' | 'unavailable' | 'invalid';
+
+export interface EventGridSimulation {
+  enabled: boolean;
+  // Share of matching events that fail, between 0 and 1
+  failureRate: number;
+  simulateError: SimulatedError;
+  // Only these event types fail; every type when empty
+  failEventTypes: string[];
+  // Delay before each event is processed, in milliseconds
+  simulateDelay: number;
+}
+
+export interface EventGridSimulationStats {
+  received: number;
+  failed: number;
+  passed: number;
+  byEventType: Record<string, { received: number; failed: number }>;
+}
+
+export interface RetryScenarioResult {
+  scenario: string;
+  statusCode: number;
+  outcome: string;
+  expected: string;
+  passed: boolean;
+}
+
+// #endregion
+
+export const SIMULATED_FAILURE_CODE = 'SIMULATED_FAILURE';
+
+const SIMULATED_STATUS: Record<Exclude<SimulatedError, 'none'>, number> = {
+  processing: 500,
+  timeout: 408,
+  unavailable: 503,
+  invalid: 400,
+};
+
+// Event type no handler is mapped to, so passing scenarios never reach PageProof or PowerApps
+const SCENARIO_EVENT_TYPE = 'PageProof.SimulatedEvent';
+
+const defaultSimulation = (): EventGridSimulation => ({
+  enabled: config.eventGrid.simulateFailures && config.app.environment !== 'production',
+  failureRate: 1,
+  simulateError: 'none',
+  failEventTypes: [],
+  simulateDelay: 0,
+});
+
+/**
+ * Simulates failures in the Event Grid receiver so retry and dead-letter behaviour can be
+ * checked locally. Once configure() installs it as the receiver's simulation hook, and while
+ * enabled, every received event first goes through simulate(), which delays it and fails it
+ * as configured. Only tests and test-eventgrid-retries.js load this module; the server never
+ * does. Never enabled in production.
+ */
+export class EventGridTestUtils {
+  private simulation: EventGridSimulation = defaultSimulation();
+  private stats: EventGridSimulationStats = EventGridTestUtils.emptyStats();
+
+  private static emptyStats(): EventGridSimulationStats {
+    return { received: 0, failed: 0, passed: 0, byEventType: {} };
+  }
+
+  // #region Configuration
+
+  /**
+   * Changes the simulated failures, enables the simulation and installs it in the receiver.
+   * @param settings e.g. { failureRate: 0.5, simulateError: 'processing' }
+   */
+  public configure(settings: Partial<EventGridSimulation>): EventGridSimulation {
+    if (config.app.environment === 'production') {
+      throw ErrorHandler.createError(403, 'Event Grid failure simulation is off in production');
+    }
+    eventGridService.setSimulation(this);
+    this.simulation = { ...this.simulation, enabled: true, ...settings };
+    loggerService.logger.warn('Event Grid failure simulation configured', { ...this.simulation });
+    return { ...this.simulation };
+  }
+
+  // Restores the configured defaults and clears the counters
+  public reset(): void {
+    this.simulation = defaultSimulation();
+    this.resetCounters();
+  }
+
+  public resetCounters(): void {
+    this.stats = EventGridTestUtils.emptyStats();
+  }
+
+  public isEnabled(): boolean {
+    return this.simulation.enabled;
+  }
+
+  public getStats(): EventGridSimulationStats & { simulation: EventGridSimulation } {
+    return { ...this.stats, simulation: { ...this.simulation } };
+  }
+
+  // #endregion
+
+  // #region Simulation
+
+  /**
+   * Applies the simulation to one received event.
+   * @throws The simulated failure, with the status code Event Grid would receive
+   */
+  public async simulate(eventType: string): Promise<void> {
+    const { failureRate, simulateError, failEventTypes, simulateDelay } = this.simulation;
+    const counts = (this.stats.byEventType[eventType] ??= { received: 0, failed: 0 });
+    this.stats.received++;
+    counts.received++;
+
+    if (simulateDelay > 0) await new Promise(resolve => setTimeout(resolve, simulateDelay));
+
+    const error = simulateError !== 'none' ? simulateError : failEventTypes.length && 'processing';
+    const matches = !failEventTypes.length || failEventTypes.includes(eventType);
+    if (!error || !matches || Math.random() >= failureRate) {
+      this.stats.passed++;
+      return;
+    }
+
+    this.stats.failed++;
+    counts.failed++;
+    throw ErrorHandler.createError(
+      SIMULATED_STATUS[error],
+      `Simulated ${error} failure for ${eventType}`,
+      SIMULATED_FAILURE_CODE,
+    );
+  }
+
+  // #endregion
+
+  // #region Event Builders
+
+  public createEventGridEvent(
+    eventType: string,
+    data: unknown,
+    overrides: Partial<EventGridEvent> = {},
+  ): EventGridEvent {
+    return {
+      id: randomUUID(),
+      eventType,
+      subject: 'simulated',
+      eventTime: new Date().toISOString(),
+      dataVersion: '1.0',
+      data,
+      ...overrides,
+    };
+  }
+
+  public createCloudEvent(type: string, data: unknown, overrides: Partial<CloudEvent> = {}) {
+    const event: CloudEvent = {
+      specversion: '1.0',
+      id: randomUUID(),
+      type,
+      source: '/moen-api/simulated',
+      time: new Date().toISOString(),
+      datacontenttype: 'application/json',
+      data,
+      ...overrides,
+    };
+    return event;
+  }
+
+  public createValidationEvent(validationCode: string = randomUUID()): EventGridEvent {
+    return this.createEventGridEvent(
+      'Microsoft.EventGrid.SubscriptionValidationEvent',
+      { validationCode },
+      { subject: '' },
+    );
+  }
+
+  // #endregion
+
+  /**
+   * Delivers a simulated event through the Event Grid receiver under each failure mode and
+   * checks that the response makes Event Grid deliver, retry or dead-letter it as intended.
+   * Events that pass are stored as unhandled events of type PageProof.SimulatedEvent in the
+   * webhook event store, so run it against a temporary DATA_DIR.
+   */
+  static async testRetryScenarios(): Promise<RetryScenarioResult[]> {
+    // Scenario, simulated failure and how Event Grid should treat the response
+    const scenarios: [string, Partial<EventGridSimulation>, string][] = [
+      ['no failure', { simulateError: 'none' }, 'delivered'],
+      ['processing error', { simulateError: 'processing' }, 'retry'],
+      ['dependency down', { simulateError: 'unavailable' }, 'retry'],
+      ['timeout', { simulateError: 'timeout' }, 'retry'],
+      ['invalid event', { simulateError: 'invalid' }, 'dead_letter'],
+      ['other event type failing', { failEventTypes: ['PageProof.ProofCreated'] }, 'delivered'],
+    ];
+
+    const results: RetryScenarioResult[] = [];
+    for (const [scenario, settings, expected] of scenarios) {
+      eventGridTestUtils.reset();
+      eventGridTestUtils.configure(settings);
+
+      const event = eventGridTestUtils.createEventGridEvent(SCENARIO_EVENT_TYPE, { scenario });
+      const delivery = await eventGridService.receive([event], {});
+      const outcome = toEventGridOutcome(delivery.statusCode);
+      const result = {
+        scenario,
+        statusCode: delivery.statusCode,
+        outcome,
+        expected,
+        passed: outcome === expected,
+      };
+      loggerService.logger.info(`Event Grid retry scenario: ${scenario}`, result);
+      results.push(result);
+    }
+
+    eventGridTestUtils.reset();
+    return results;
+  }
+}
+
+export const eventGridTestUtils = new EventGridTestUtils();
+export default eventGridTestUtils;
@@ -115,6 +115,35 @@ class Helper {
 
   // #endregion
 
+  // #region Dates
+
+  // ISO string for SDK dates and date strings, or null if the value is not a date
+  public static toIsoDate(value: any): string | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  // #endregion
+
+  // #region CSV Export
+
+  public static toCsv(columns: string[], rows: Record<string, unknown>[]): string {
+    const escape = (value: unknown): string => {
+      if (value === null || value === undefined) return '';
+      const str = String(value);
+      return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+    };
+
+    const lines = [columns.join(',')];
+    for (const row of rows) {
+      lines.push(columns.map(column => escape(row[column])).join(','));
+    }
+    return lines.join('\r\n');
+  }
+
+  // #endregion
+
   // #region Compression
 
   public static async createZipFile(files: FileUpload[]): Promise<Buffer> {
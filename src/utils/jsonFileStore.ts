@@ -0,0 +1,100 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+
+import { Mutex } from 'async-mutex';
+
+import { loggerService } from './logger';
+
+// #region Data Directory
+
+export const getDataDir = (): string =>
+  process.env.DATA_DIR || path.join(__dirname, '../../data');
+
+// #endregion
+
+// #region JSON File Store
+
+/**
+ * Small key/value store persisted as a single JSON file under the data directory.
+ * Writes go to a temp file first and are renamed into place, so a crash mid-write
+ * never leaves a truncated file behind. All access is serialised through a mutex.
+ */
+class JsonFileStore<T> {
+  private readonly filePath: string;
+  private readonly mutex = new Mutex();
+  private data: Record<string, T> | null = null;
+
+  constructor(fileName: string) {
+    this.filePath = path.join(getDataDir(), fileName);
+  }
+
+  private async load(): Promise<Record<string, T>> {
+    if (this.data) return this.data;
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      this.data = raw.trim() ? JSON.parse(raw) : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        loggerService.logger.error('JsonFileStore: failed to read store, starting empty', {
+          filePath: this.filePath,
+          error: (error as Error).message,
+        });
+      }
+      this.data = {};
+    }
+    return this.data!;
+  }
+
+  private async persist(data: Record<string, T>): Promise<void> {
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  public async get(key: string): Promise<T | null> {
+    return this.mutex.runExclusive(async () => (await this.load())[key] ?? null);
+  }
+
+  public async values(): Promise<T[]> {
+    return this.mutex.runExclusive(async () => Object.values(await this.load()));
+  }
+
+  public async set(key: string, value: T): Promise<void> {
+    await this.mutex.runExclusive(async () => {
+      const data = await this.load();
+      data[key] = value;
+      await this.persist(data);
+    });
+  }
+
+  public async delete(key: string): Promise<boolean> {
+    return this.mutex.runExclusive(async () => {
+      const data = await this.load();
+      if (!(key in data)) return false;
+      delete data[key];
+      await this.persist(data);
+      return true;
+    });
+  }
+
+  /**
+   * Removes every entry matching the predicate in a single write.
+   * @returns Number of entries removed
+   */
+  public async deleteWhere(predicate: (value: T, key: string) => boolean): Promise<number> {
+    return this.mutex.runExclusive(async () => {
+      const data = await this.load();
+      const keys = Object.keys(data).filter(key => predicate(data[key], key));
+      if (!keys.length) return 0;
+      keys.forEach(key => delete data[key]);
+      await this.persist(data);
+      return keys.length;
+    });
+  }
+}
+
+// #endregion
+
+export { JsonFileStore };
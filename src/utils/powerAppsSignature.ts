@@ -0,0 +1,91 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Signing scheme for outbound PowerApps events. The signature is an HMAC-SHA256, hex encoded,
+ * of `${timestamp}.${rawBody}` where the timestamp is the epoch milliseconds sent in the
+ * timestamp header. This module only depends on node:crypto so the receiving side can copy it
+ * as is to verify our calls.
+ */
+
+// #region Headers
+
+export const POWERAPPS_SIGNATURE_HEADER = 'x-moen-signature';
+export const POWERAPPS_TIMESTAMP_HEADER = 'x-moen-timestamp';
+export const POWERAPPS_DELIVERY_ID_HEADER = 'x-moen-delivery-id';
+
+// #endregion
+
+// #region Signing
+
+export function computePowerAppsSignature(
+  secret: string,
+  timestamp: string,
+  rawBody: string,
+): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`, 'utf8').digest('hex');
+}
+
+/**
+ * Builds the signature, timestamp and delivery ID headers for an outbound event.
+ * @param secret Signing secret
+ * @param rawBody Exact body that will be sent
+ * @param deliveryId Stable across retries so the receiver can drop duplicates
+ */
+export function signPowerAppsPayload(
+  secret: string,
+  rawBody: string,
+  deliveryId: string,
+  now: number = Date.now(),
+): Record<string, string> {
+  const timestamp = String(now);
+  return {
+    [POWERAPPS_SIGNATURE_HEADER]: computePowerAppsSignature(secret, timestamp, rawBody),
+    [POWERAPPS_TIMESTAMP_HEADER]: timestamp,
+    [POWERAPPS_DELIVERY_ID_HEADER]: deliveryId,
+  };
+}
+
+// #endregion
+
+// #region Verification
+
+export interface PowerAppsSignatureCheck {
+  valid: boolean;
+  reason?: 'missing_headers' | 'invalid_format' | 'expired' | 'mismatch';
+}
+
+/**
+ * Verifies a signed PowerApps event.
+ * @param secret Signing secret shared with this service
+ * @param rawBody Body exactly as received, before any JSON parsing
+ * @param headers Received headers; names are matched case-insensitively
+ * @param toleranceMs Maximum age, or clock skew, accepted for the timestamp
+ */
+export function verifyPowerAppsSignature(
+  secret: string,
+  rawBody: string,
+  headers: Record<string, string | string[] | undefined>,
+  toleranceMs = 5 * 60 * 1000,
+  now: number = Date.now(),
+): PowerAppsSignatureCheck {
+  const header = (name: string) => {
+    const key = Object.keys(headers).find(candidate => candidate.toLowerCase() === name);
+    const value = key ? headers[key] : undefined;
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const signature = header(POWERAPPS_SIGNATURE_HEADER);
+  const timestamp = header(POWERAPPS_TIMESTAMP_HEADER);
+  if (!signature || !timestamp) return { valid: false, reason: 'missing_headers' };
+  if (!/^[a-fA-F0-9]{64}$/.test(signature) || !/^\d+$/.test(timestamp)) {
+    return { valid: false, reason: 'invalid_format' };
+  }
+  if (Math.abs(now - Number(timestamp)) > toleranceMs) return { valid: false, reason: 'expired' };
+
+  const expected = Buffer.from(computePowerAppsSignature(secret, timestamp, rawBody), 'hex');
+  return timingSafeEqual(Buffer.from(signature, 'hex'), expected)
+    ? { valid: true }
+    : { valid: false, reason: 'mismatch' };
+}
+
+// #endregion
@@ -5,9 +5,19 @@
  *
  * This script demonstrates how to test different Event Grid retry scenarios.
  * Run it with: node test-eventgrid-retries.js
+ *
+ * The scenarios store their simulated events, so the script runs against a temporary
+ * DATA_DIR instead of the real webhook event store.
  */
 
-const { eventGridTestUtils } = require('./dist/utils/eventGridTestUtils');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Set before the stores are loaded, they resolve their file paths on import
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'eventgrid-retries-'));
+
+const { eventGridTestUtils } = require('./dist/src/utils/eventGridTestUtils');
 
 async function main() {
   console.log('🚀 Event Grid Retry Testing Script\n');